@@ -0,0 +1,234 @@
+import { forSubmittedPrompt } from "@/lib/analysis/annotations";
+import { parseAnalysisOptions } from "@/lib/analysis/request";
+import { analysisCache, analysisCacheKey } from "@/lib/cache/analysis";
+import { toResultsCsv } from "@/lib/batch/csv";
+import {
+  BatchInputError,
+  normalizeBatchItems,
+  parseBatchFile,
+} from "@/lib/batch/parse";
+import { runBatch } from "@/lib/batch/run";
+import type { BatchItem } from "@/lib/batch/types";
+import { checkOrigin } from "@/lib/embed/cors";
+import { jsonResponse } from "@/lib/http";
+import {
+  checkContentLength,
+  checkRateLimits,
+  MAX_PROMPT_CHARS,
+} from "@/lib/limits";
+import { log, observe } from "@/lib/observability";
+import {
+  getProvider,
+  isModelBacked,
+  ProviderUnavailableError,
+  resolveProviderId,
+  type AnalysisProvider,
+} from "@/lib/providers";
+import { preparePrompt } from "@/lib/scanner";
+import { formatServerSentEvent } from "@/lib/sse";
+
+export const runtime = "nodejs";
+
+const MAX_ITEMS = 200;
+const MAX_CONCURRENCY = 8;
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_RETRIES = 2;
+
+const isRetryable = (error: unknown) => !(error instanceof BatchInputError);
+
+function clampInt(value: unknown, fallback: number, min: number, max: number): number {
+  const n = Number(value);
+  if (value === undefined || value === null || value === "" || !Number.isFinite(n)) {
+    return fallback;
+  }
+  return Math.min(max, Math.max(min, Math.floor(n)));
+}
+
+/**
+ * Reads either a JSON body ({ prompts, rubric, provider, scanMode,
+ * concurrency, retries }) or a multipart upload with a CSV/JSONL 'file' and the same
+ * fields as form values.
+ */
+async function readBatchRequest(
+  request: Request,
+): Promise<{ items: BatchItem[]; fields: Record<string, unknown> }> {
+  const contentType = request.headers.get("Content-Type") ?? "";
+
+  if (contentType.includes("multipart/form-data")) {
+    const form = await request.formData();
+    const file = form.get("file");
+    if (!(file instanceof File)) {
+      throw new BatchInputError("Upload a CSV or JSONL file in the 'file' field.");
+    }
+    const fields: Record<string, unknown> = {};
+    for (const key of ["rubric", "provider", "scanMode", "concurrency", "retries"]) {
+      const value = form.get(key);
+      if (typeof value === "string" && value !== "") fields[key] = value;
+    }
+    return { items: parseBatchFile(file.name, await file.text()), fields };
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new BatchInputError("Invalid JSON body.");
+  }
+  const fields = (body || {}) as Record<string, unknown>;
+  return { items: normalizeBatchItems(fields.prompts), fields };
+}
+
+/**
+ * Analyzes many prompts at once. Responds with JSON by default, CSV with
+ * ?format=csv, or server-sent "start", "item" and "done" events when the
+ * client accepts text/event-stream.
+ */
+export async function POST(request: Request): Promise<Response> {
+  return observe("/api/analyze/batch", request, () => handle(request));
+}
+
+async function handle(request: Request): Promise<Response> {
+  const forbidden = checkOrigin(request);
+  if (forbidden) return forbidden;
+
+  const tooLarge = checkContentLength(request, MAX_ITEMS);
+  if (tooLarge) return tooLarge;
+
+  let items: BatchItem[];
+  let fields: Record<string, unknown>;
+  try {
+    ({ items, fields } = await readBatchRequest(request));
+  } catch (error) {
+    if (error instanceof BatchInputError) {
+      return jsonResponse({ error: error.message }, 400);
+    }
+    throw error;
+  }
+
+  if (items.length === 0) {
+    return jsonResponse({ error: "No prompts to analyze." }, 400);
+  }
+  if (items.length > MAX_ITEMS) {
+    return jsonResponse(
+      { error: `At most ${MAX_ITEMS} prompts per batch (got ${items.length}).` },
+      413,
+    );
+  }
+
+  const options = parseAnalysisOptions(fields);
+  if (!options.ok) {
+    return jsonResponse({ error: options.error }, 400);
+  }
+  const { rubric, scanMode } = options.value;
+
+  let provider: AnalysisProvider;
+  try {
+    provider = getProvider(resolveProviderId(options.value.provider));
+  } catch (error) {
+    if (error instanceof ProviderUnavailableError) {
+      return jsonResponse({ error: error.message }, 500);
+    }
+    throw error;
+  }
+
+  // Oversized prompts become per-item errors instead of failing the batch.
+  const sendable = items.filter(
+    (item) => item.prompt.trim() && item.prompt.length <= MAX_PROMPT_CHARS,
+  );
+  // One request for the rate limits, however many prompts; the budget is
+  // still reserved per prompt.
+  const limited = await checkRateLimits(
+    request,
+    sendable.map((item) => item.prompt),
+    { countsAgainstBudget: isModelBacked(provider), cost: 1 },
+  );
+  if (limited) return limited;
+
+  const concurrency = clampInt(fields.concurrency, DEFAULT_CONCURRENCY, 1, MAX_CONCURRENCY);
+  const retries = clampInt(fields.retries, DEFAULT_RETRIES, 0, 5);
+  const analyze = async (original: string) => {
+    if (original.length > MAX_PROMPT_CHARS) {
+      throw new BatchInputError(
+        `Prompt is ${original.length} characters; the limit is ${MAX_PROMPT_CHARS}.`,
+      );
+    }
+    const { prompt, report: scan, blocked } = preparePrompt(original, scanMode);
+    if (blocked) {
+      throw new BatchInputError(
+        `Blocked: ${scan.findings.map((f) => f.message.toLowerCase()).join(", ")}.`,
+      );
+    }
+    const key = analysisCacheKey(provider, rubric, prompt);
+    const cached = fields.fresh === true ? undefined : analysisCache.get(key);
+    if (cached) return forSubmittedPrompt(cached, original, scan);
+    const analysis = await provider.analyze(prompt, rubric, { signal: request.signal });
+    analysisCache.set(key, analysis);
+    return forSubmittedPrompt(analysis, original, scan);
+  };
+
+  if ((request.headers.get("Accept") ?? "").includes("text/event-stream")) {
+    const encoder = new TextEncoder();
+    const send = (
+      controller: ReadableStreamDefaultController<Uint8Array>,
+      event: string,
+      data: unknown,
+    ) => controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        send(controller, "start", { total: items.length, rubric });
+        try {
+          await runBatch(items, analyze, {
+            concurrency,
+            retries,
+            signal: request.signal,
+            isRetryable,
+            onResult: (result, index) => send(controller, "item", { index, result }),
+          });
+          send(controller, "done", { total: items.length });
+        } catch (error) {
+          if (!request.signal.aborted) {
+            log("error", "batch.failed", { error });
+            send(controller, "error", { error: "Batch analysis failed." });
+          }
+        }
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a cancelled reader.
+        }
+      },
+    });
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  }
+
+  const results = await runBatch(items, analyze, {
+    concurrency,
+    retries,
+    signal: request.signal,
+    isRetryable,
+  });
+
+  if (new URL(request.url).searchParams.get("format") === "csv") {
+    return new Response(toResultsCsv(results, rubric), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="prompt-scores-${rubric.id}.csv"`,
+      },
+    });
+  }
+
+  return jsonResponse({
+    rubric: rubric.id,
+    total: results.length,
+    failed: results.filter((r) => r.status === "error").length,
+    results,
+  });
+}
@@ -0,0 +1,30 @@
+import { handleAnalyzeStream } from "@/lib/analysis/handler";
+import { errorResponse } from "@/lib/api/errors";
+import { originError, preflightResponse, withCors } from "@/lib/embed/cors";
+import { rateLimitError } from "@/lib/limits";
+import { observe } from "@/lib/observability";
+
+export const runtime = "nodejs";
+
+/**
+ * Server-sent events variant of /api/analyze; see handleAnalyzeStream for the
+ * events it emits.
+ */
+export async function POST(request: Request): Promise<Response> {
+  return observe("/api/analyze/stream", request, async () => {
+    const forbidden = originError(request);
+    if (forbidden) return errorResponse(forbidden, "legacy");
+
+    return withCors(
+      request,
+      await handleAnalyzeStream(request, {
+        style: "legacy",
+        limit: (prompts, options) => rateLimitError(request, prompts, options),
+      }),
+    );
+  });
+}
+
+export function OPTIONS(request: Request): Response {
+  return preflightResponse(request);
+}
@@ -0,0 +1,39 @@
+import { errorResponse } from "@/lib/api/errors";
+import { classroomStore, ClassroomError, openAssignment } from "@/lib/classroom";
+import { buildDashboard } from "@/lib/classroom/dashboard";
+import { jsonResponse } from "@/lib/http";
+import { passcodeLockError, recordPasscodeFailure } from "@/lib/limits";
+import { getRubric } from "@/lib/rubrics";
+
+export const runtime = "nodejs";
+
+/**
+ * The instructor's view of an assignment: per-criterion class averages, the
+ * weakest criteria and each student's best and latest submission. Requires
+ * the instructor passcode in the X-Passcode header; repeated wrong passcodes
+ * lock the dashboard for a while.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ code: string }> },
+): Promise<Response> {
+  const { code } = await params;
+  const scope = `dashboard:${code.toUpperCase()}`;
+  const locked = await passcodeLockError(request, scope);
+  if (locked) return errorResponse(locked, "legacy");
+  try {
+    const assignment = await openAssignment(code, request.headers.get("X-Passcode") ?? "");
+    const rubric = getRubric(assignment.rubricId);
+    if (!rubric) {
+      return jsonResponse({ error: `Rubric "${assignment.rubricId}" no longer exists.` }, 409);
+    }
+    const submissions = await classroomStore.submissions(assignment.id);
+    return jsonResponse(buildDashboard(assignment, rubric, submissions));
+  } catch (error) {
+    if (error instanceof ClassroomError) {
+      if (error.status === 403) await recordPasscodeFailure(request, scope);
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    throw error;
+  }
+}
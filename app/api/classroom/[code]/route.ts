@@ -0,0 +1,23 @@
+import { ClassroomError, findAssignment, publicAssignment } from "@/lib/classroom";
+import { jsonResponse } from "@/lib/http";
+
+export const runtime = "nodejs";
+
+/**
+ * What students see when they join with a code: the task, rubric and
+ * passing scores.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ code: string }> },
+): Promise<Response> {
+  const { code } = await params;
+  try {
+    return jsonResponse({ assignment: publicAssignment(await findAssignment(code)) });
+  } catch (error) {
+    if (error instanceof ClassroomError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    throw error;
+  }
+}
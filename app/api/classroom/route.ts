@@ -0,0 +1,33 @@
+import { ClassroomError, createAssignment, publicAssignment } from "@/lib/classroom";
+import { checkOrigin } from "@/lib/embed/cors";
+import { jsonResponse } from "@/lib/http";
+
+export const runtime = "nodejs";
+
+/**
+ * Creates an assignment. Body: { title, task, rubric, passingScores?,
+ * passcode }, where passingScores maps criterion ids to a minimum score and
+ * passcode later opens the dashboard. Replies 201 with the assignment and its
+ * join code.
+ */
+export async function POST(request: Request): Promise<Response> {
+  const forbidden = checkOrigin(request);
+  if (forbidden) return forbidden;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonResponse({ error: "Invalid JSON body." }, 400);
+  }
+
+  try {
+    const assignment = await createAssignment(body);
+    return jsonResponse({ assignment: publicAssignment(assignment) }, 201);
+  } catch (error) {
+    if (error instanceof ClassroomError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    throw error;
+  }
+}
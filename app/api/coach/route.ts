@@ -0,0 +1,183 @@
+import { forSubmittedPrompt } from "@/lib/analysis/annotations";
+import { AnalysisSchemaError } from "@/lib/analysis/pipeline";
+import { parseAnalysisOptions } from "@/lib/analysis/request";
+import { signAnalysis } from "@/lib/analysis/signature";
+import { validateAnalysis } from "@/lib/analysis/validate";
+import { analysisCache, analysisCacheKey } from "@/lib/cache/analysis";
+import { runCoachTurn } from "@/lib/coach/run";
+import type { CoachMessage } from "@/lib/coach/types";
+import { checkOrigin } from "@/lib/embed/cors";
+import { jsonResponse } from "@/lib/http";
+import {
+  checkContentLength,
+  checkRateLimits,
+  MAX_PROMPT_CHARS,
+  promptTooLarge,
+} from "@/lib/limits";
+import { log, observe } from "@/lib/observability";
+import {
+  getProvider,
+  isModelBacked,
+  ProviderUnavailableError,
+  resolveProviderId,
+  type AnalysisProvider,
+} from "@/lib/providers";
+import { preparePrompt, promptBlocked } from "@/lib/scanner";
+
+export const runtime = "nodejs";
+
+const MAX_MESSAGES = 30;
+
+function readMessages(value: unknown): CoachMessage[] | string {
+  if (!Array.isArray(value) || value.length === 0) {
+    return "Field 'messages' must be a non-empty array of { role, content }.";
+  }
+  if (value.length > MAX_MESSAGES) {
+    return `At most ${MAX_MESSAGES} messages per conversation; start a new one.`;
+  }
+  const messages: CoachMessage[] = [];
+  for (const item of value) {
+    const { role, content, revisedPrompt } = (item || {}) as Record<string, unknown>;
+    if ((role !== "user" && role !== "assistant") || typeof content !== "string") {
+      return "Each message needs a 'role' (\"user\" or \"assistant\") and a string 'content'.";
+    }
+    messages.push({
+      role,
+      content,
+      revisedPrompt: typeof revisedPrompt === "string" ? revisedPrompt : undefined,
+    });
+  }
+  const last = messages[messages.length - 1];
+  if (last.role !== "user" || !last.content.trim()) {
+    return "The last message must be a non-empty user message.";
+  }
+  return messages;
+}
+
+/**
+ * One turn of the coaching conversation about a prompt and its analysis.
+ * Body: { prompt, analysis, messages, provider?, scanMode? }. Replies with
+ * { content, revisedPrompt?, analysis? }; a revised prompt comes with a fresh
+ * analysis of it.
+ */
+export async function POST(request: Request): Promise<Response> {
+  return observe("/api/coach", request, () => handle(request));
+}
+
+async function handle(request: Request): Promise<Response> {
+  const forbidden = checkOrigin(request);
+  if (forbidden) return forbidden;
+
+  const tooLarge = checkContentLength(request, MAX_MESSAGES);
+  if (tooLarge) return tooLarge;
+
+  let body: Record<string, unknown>;
+  try {
+    body = ((await request.json()) || {}) as Record<string, unknown>;
+  } catch {
+    return jsonResponse({ error: "Invalid JSON body." }, 400);
+  }
+
+  const { prompt, analysis: rawAnalysis } = body;
+  if (typeof prompt !== "string" || !prompt.trim()) {
+    return jsonResponse({ error: "Field 'prompt' (non-empty string) is required." }, 400);
+  }
+
+  const rubricId = (rawAnalysis as { rubric?: { id?: unknown } } | undefined)?.rubric?.id;
+  const options = parseAnalysisOptions({ ...body, rubric: rubricId });
+  if (!options.ok) {
+    return jsonResponse({ error: options.error }, 400);
+  }
+  const { rubric, scanMode } = options.value;
+
+  const messages = readMessages(body.messages);
+  if (typeof messages === "string") {
+    return jsonResponse({ error: messages }, 400);
+  }
+
+  // Everything that reaches the model goes through the scanner first.
+  const texts = [prompt, ...messages.flatMap((m) => [m.content, m.revisedPrompt ?? ""])];
+  const longest = Math.max(...texts.map((t) => t.length));
+  if (longest > MAX_PROMPT_CHARS) return promptTooLarge(longest);
+
+  const scanned = preparePrompt(prompt, scanMode);
+  if (scanned.blocked) return promptBlocked(scanned.report);
+  const safeMessages: CoachMessage[] = [];
+  for (const m of messages) {
+    const content = preparePrompt(m.content, scanMode);
+    if (content.blocked) return promptBlocked(content.report);
+    const revised = m.revisedPrompt ? preparePrompt(m.revisedPrompt, scanMode) : undefined;
+    if (revised?.blocked) return promptBlocked(revised.report);
+    safeMessages.push({ ...m, content: content.prompt, revisedPrompt: revised?.prompt });
+  }
+
+  const validation = validateAnalysis(rawAnalysis, rubric, scanned.prompt);
+  if (!validation.analysis) {
+    return jsonResponse(
+      {
+        error: "Field 'analysis' must be the analysis of 'prompt'.",
+        violations: validation.violations,
+      },
+      400,
+    );
+  }
+
+  let provider: AnalysisProvider;
+  try {
+    provider = getProvider(resolveProviderId(options.value.provider));
+  } catch (error) {
+    if (error instanceof ProviderUnavailableError) {
+      return jsonResponse({ error: error.message }, 500);
+    }
+    throw error;
+  }
+
+  // Two model calls: the reply, then the analysis of a revised prompt, which
+  // is about as long as the prompt it revises.
+  const limited = await checkRateLimits(request, [texts.join("\n"), scanned.prompt], {
+    countsAgainstBudget: isModelBacked(provider),
+  });
+  if (limited) return limited;
+
+  const analyze = async (revised: string) => {
+    const key = analysisCacheKey(provider, rubric, revised);
+    let analysis = analysisCache.get(key);
+    if (!analysis) {
+      analysis = await provider.analyze(revised, rubric, { signal: request.signal });
+      analysisCache.set(key, analysis);
+    }
+    return signAnalysis(
+      revised,
+      forSubmittedPrompt(analysis, revised, preparePrompt(revised, "warn").report),
+    );
+  };
+
+  try {
+    const reply = await runCoachTurn(
+      provider,
+      { prompt: scanned.prompt, analysis: validation.analysis, messages: safeMessages },
+      { analyze, signal: request.signal },
+    );
+    return jsonResponse(reply, 200, { "X-Analyzer-Provider": provider.id });
+  } catch (error) {
+    if (error instanceof AnalysisSchemaError) {
+      return jsonResponse(
+        {
+          error: "Gemini returned an analysis that does not match the expected schema.",
+          violations: error.violations,
+          raw: error.raw,
+        },
+        502,
+      );
+    }
+
+    log("error", "coach.failed", { error });
+    return jsonResponse(
+      {
+        error: "Error while calling Gemini API.",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
@@ -0,0 +1,184 @@
+import { runComparison } from "@/lib/compare/run";
+import type { CompareSide } from "@/lib/compare/types";
+import { checkOrigin } from "@/lib/embed/cors";
+import { jsonResponse } from "@/lib/http";
+import {
+  checkContentLength,
+  checkRateLimits,
+  MAX_PROMPT_CHARS,
+  promptTooLarge,
+} from "@/lib/limits";
+import { log, observe } from "@/lib/observability";
+import {
+  getTargetProvider,
+  isProviderId,
+  listTargetModels,
+  ProviderUnavailableError,
+  type AnalysisProvider,
+  type ProviderId,
+} from "@/lib/providers";
+import {
+  defaultScanMode,
+  isScanMode,
+  preparePrompt,
+  promptBlocked,
+  SCAN_MODES,
+  type ScanMode,
+  type ScanReport,
+} from "@/lib/scanner";
+
+export const runtime = "nodejs";
+
+type TargetRef = { provider: ProviderId; model?: string };
+
+type CompareRequest = {
+  prompts: Record<CompareSide, string>;
+  target?: TargetRef;
+  // true judges with the target model itself.
+  judge: TargetRef | boolean;
+  scanMode: ScanMode;
+};
+
+function parseTarget(value: unknown): TargetRef | undefined | null {
+  if (value === undefined) return undefined;
+  const { provider, model } = (value || {}) as { provider?: unknown; model?: unknown };
+  if (!isProviderId(provider)) return null;
+  if (model !== undefined && typeof model !== "string") return null;
+  return { provider, model };
+}
+
+function readCompareRequest(
+  body: unknown,
+): { ok: true; value: CompareRequest } | { ok: false; error: string } {
+  const {
+    prompt,
+    improvedPrompt,
+    target,
+    judge = false,
+    scanMode = defaultScanMode(),
+  } = (body || {}) as Record<string, unknown>;
+
+  for (const [name, value] of [
+    ["prompt", prompt],
+    ["improvedPrompt", improvedPrompt],
+  ] as const) {
+    if (typeof value !== "string" || !value.trim()) {
+      return { ok: false, error: `Field '${name}' (non-empty string) is required.` };
+    }
+  }
+
+  const parsedTarget = parseTarget(target);
+  const parsedJudge = typeof judge === "boolean" ? judge : parseTarget(judge);
+  if (parsedTarget === null || parsedJudge === null || parsedJudge === undefined) {
+    return {
+      ok: false,
+      error: "Fields 'target' and 'judge' take { provider, model }; 'judge' may also be a boolean.",
+    };
+  }
+  if (!isScanMode(scanMode)) {
+    return { ok: false, error: `Field 'scanMode' must be one of: ${SCAN_MODES.join(", ")}.` };
+  }
+
+  return {
+    ok: true,
+    value: {
+      prompts: { original: prompt as string, improved: improvedPrompt as string },
+      target: parsedTarget,
+      judge: parsedJudge,
+      scanMode,
+    },
+  };
+}
+
+/**
+ * Lists the models prompts can be compared on.
+ */
+export async function GET(): Promise<Response> {
+  return jsonResponse({ targets: listTargetModels() });
+}
+
+/**
+ * Runs the original prompt and its improved version on a target model and
+ * returns both outputs, plus an optional model-as-judge verdict.
+ */
+export async function POST(request: Request): Promise<Response> {
+  return observe("/api/compare", request, () => handle(request));
+}
+
+async function handle(request: Request): Promise<Response> {
+  const forbidden = checkOrigin(request);
+  if (forbidden) return forbidden;
+
+  const tooLarge = checkContentLength(request, 2);
+  if (tooLarge) return tooLarge;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonResponse({ error: "Invalid JSON body." }, 400);
+  }
+  const parsed = readCompareRequest(body);
+  if (!parsed.ok) {
+    return jsonResponse({ error: parsed.error }, 400);
+  }
+
+  const { judge, scanMode } = parsed.value;
+  const prompts = { ...parsed.value.prompts };
+  const scan: Partial<Record<CompareSide, ScanReport>> = {};
+  for (const side of ["original", "improved"] as const) {
+    if (prompts[side].length > MAX_PROMPT_CHARS) {
+      return promptTooLarge(prompts[side].length);
+    }
+    const prepared = preparePrompt(prompts[side], scanMode);
+    if (prepared.blocked) return promptBlocked(prepared.report);
+    prompts[side] = prepared.prompt;
+    scan[side] = prepared.report;
+  }
+
+  let target: AnalysisProvider;
+  let judgeProvider: AnalysisProvider | undefined;
+  try {
+    const fallback = listTargetModels()[0];
+    if (!parsed.value.target && !fallback) {
+      throw new ProviderUnavailableError(
+        "gemini",
+        "No target model is configured. Set GEMINI_API_KEY to enable compare mode.",
+      );
+    }
+    target = getTargetProvider(parsed.value.target ?? fallback);
+    judgeProvider =
+      judge === true ? target : judge === false ? undefined : getTargetProvider(judge);
+  } catch (error) {
+    if (error instanceof ProviderUnavailableError) {
+      return jsonResponse({ error: error.message }, 400);
+    }
+    throw error;
+  }
+
+  // Two runs, plus a judge call that reads roughly as much again.
+  const billed = Object.values(prompts);
+  const limited = await checkRateLimits(
+    request,
+    judgeProvider ? [...billed, ...billed] : billed,
+    { countsAgainstBudget: true },
+  );
+  if (limited) return limited;
+
+  try {
+    const result = await runComparison(prompts, target, {
+      judge: judgeProvider,
+      signal: request.signal,
+    });
+    return jsonResponse({ ...result, scan });
+  } catch (error) {
+    log("error", "compare.failed", { error });
+    return jsonResponse(
+      {
+        error: `Error while calling ${target.label}.`,
+        details: error instanceof Error ? error.message : String(error),
+      },
+      502,
+    );
+  }
+}
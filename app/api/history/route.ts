@@ -0,0 +1,75 @@
+import { checkOrigin } from "@/lib/embed/cors";
+import { isHistoryEntry } from "@/lib/history/chains";
+import { createFileHistoryStore } from "@/lib/history/file";
+import { jsonResponse } from "@/lib/http";
+import { checkContentLength, checkRateLimits } from "@/lib/limits";
+import { readVisitorId } from "@/lib/visitor";
+
+export const runtime = "nodejs";
+
+/**
+ * The history store of the visitor making the request, or the response to
+ * send instead: 404 unless the page keeps history on the server, 401 without
+ * a visitor cookie.
+ */
+function storeFor(request: Request) {
+  if (process.env.NEXT_PUBLIC_HISTORY_STORE !== "server") {
+    return { error: jsonResponse({ error: "Server-side history is disabled." }, 404) };
+  }
+  const visitor = readVisitorId(request);
+  if (!visitor) {
+    return {
+      error: jsonResponse({ error: "No visitor session; reload the page to start one." }, 401),
+    };
+  }
+  return { store: createFileHistoryStore(visitor) };
+}
+
+export async function GET(request: Request): Promise<Response> {
+  const { store, error } = storeFor(request);
+  if (!store) return error;
+  return jsonResponse({ entries: await store.list() });
+}
+
+export async function POST(request: Request): Promise<Response> {
+  const forbidden = checkOrigin(request);
+  if (forbidden) return forbidden;
+  const { store, error } = storeFor(request);
+  if (!store) return error;
+
+  // An entry holds a prompt and its analysis, whose rewrites can each be as
+  // long as the prompt.
+  const tooLarge = checkContentLength(request, 4);
+  if (tooLarge) return tooLarge;
+  const limited = await checkRateLimits(request, [], {
+    countsAgainstBudget: false,
+    scope: "history",
+  });
+  if (limited) return limited;
+
+  let entry: unknown;
+  try {
+    entry = await request.json();
+  } catch {
+    return jsonResponse({ error: "Invalid JSON body." }, 400);
+  }
+
+  if (!isHistoryEntry(entry)) {
+    return jsonResponse(
+      { error: "Body must be a history entry with id, chainId, prompt and analysis." },
+      400,
+    );
+  }
+
+  await store.save(entry);
+  return jsonResponse({ ok: true }, 201);
+}
+
+export async function DELETE(request: Request): Promise<Response> {
+  const forbidden = checkOrigin(request);
+  if (forbidden) return forbidden;
+  const { store, error } = storeFor(request);
+  if (!store) return error;
+  await store.clear();
+  return jsonResponse({ ok: true });
+}
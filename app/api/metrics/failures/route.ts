@@ -0,0 +1,15 @@
+import { jsonResponse } from "@/lib/http";
+import { checkMetricsToken, recentFailedOutputs } from "@/lib/observability";
+
+export const runtime = "nodejs";
+
+/**
+ * Raw model answers that failed to parse or validate, newest first. They can
+ * contain prompt text, so this only answers with METRICS_TOKEN configured.
+ */
+export async function GET(request: Request): Promise<Response> {
+  const denied = checkMetricsToken(request, { required: true });
+  if (denied) return denied;
+
+  return jsonResponse({ failures: recentFailedOutputs() }, 200, { "Cache-Control": "no-store" });
+}
@@ -0,0 +1,16 @@
+import { checkMetricsToken, renderMetrics } from "@/lib/observability";
+
+export const runtime = "nodejs";
+
+/** Prometheus scrape endpoint for this server process. */
+export async function GET(request: Request): Promise<Response> {
+  const denied = checkMetricsToken(request);
+  if (denied) return denied;
+
+  return new Response(renderMetrics(), {
+    headers: {
+      "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,30 @@
+import { createFileReportStore } from "@/lib/reports/file";
+import { DEFAULT_BADGE_LABEL, MAX_BADGE_LABEL, reportBadge } from "@/lib/reports/badge";
+
+export const runtime = "nodejs";
+
+const store = createFileReportStore();
+
+/**
+ * SVG badge of a shared report's overall score and weakest criterion, for
+ * READMEs and club pages. ?label= replaces the "prompt score" text.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<Response> {
+  const { id } = await params;
+  const report = await store.get(id);
+  const label =
+    new URL(request.url).searchParams.get("label")?.trim().slice(0, MAX_BADGE_LABEL) ||
+    DEFAULT_BADGE_LABEL;
+
+  return new Response(reportBadge(report, label), {
+    status: report ? 200 : 404,
+    headers: {
+      "Content-Type": "image/svg+xml; charset=utf-8",
+      // Reports never change once stored.
+      "Cache-Control": report ? "public, max-age=86400" : "no-store",
+    },
+  });
+}
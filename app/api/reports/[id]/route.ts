@@ -0,0 +1,31 @@
+import { jsonResponse } from "@/lib/http";
+import { createFileReportStore } from "@/lib/reports/file";
+import { reportMarkdown } from "@/lib/reports/markdown";
+
+export const runtime = "nodejs";
+
+const store = createFileReportStore();
+
+/**
+ * A shared report as JSON, or as a Markdown file with ?format=md.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<Response> {
+  const { id } = await params;
+  const report = await store.get(id);
+  if (!report) {
+    return jsonResponse({ error: "Report not found." }, 404);
+  }
+
+  if (new URL(request.url).searchParams.get("format") === "md") {
+    return new Response(reportMarkdown(report), {
+      headers: {
+        "Content-Type": "text/markdown; charset=utf-8",
+        "Content-Disposition": `attachment; filename="prompt-report-${id}.md"`,
+      },
+    });
+  }
+  return jsonResponse(report);
+}
@@ -0,0 +1,91 @@
+import { verifyAnalysis } from "@/lib/analysis/signature";
+import { validateAnalysis } from "@/lib/analysis/validate";
+import { checkOrigin } from "@/lib/embed/cors";
+import { jsonResponse } from "@/lib/http";
+import {
+  checkContentLength,
+  checkRateLimits,
+  MAX_PROMPT_CHARS,
+  promptTooLarge,
+} from "@/lib/limits";
+import { createFileReportStore } from "@/lib/reports/file";
+import type { Report } from "@/lib/reports/types";
+import { getRubric } from "@/lib/rubrics";
+import { readVisitorId } from "@/lib/visitor";
+
+export const runtime = "nodejs";
+
+const store = createFileReportStore();
+
+/**
+ * Stores a prompt and its analysis as a read-only report. Body:
+ * { prompt, analysis }. Replies 201 with { id, url, verified } where url is
+ * the /report/<id> page and verified tells whether the analysis is one this
+ * server signed for the prompt. Only pages with a visitor cookie may share,
+ * at the analyze endpoints' rate, in buckets of their own.
+ */
+export async function POST(request: Request): Promise<Response> {
+  const forbidden = checkOrigin(request);
+  if (forbidden) return forbidden;
+
+  // The prompt, the improved prompt and the rest of the analysis.
+  const tooLarge = checkContentLength(request, 3);
+  if (tooLarge) return tooLarge;
+
+  const visitor = readVisitorId(request);
+  if (!visitor) {
+    return jsonResponse({ error: "No visitor session; reload the page to start one." }, 401);
+  }
+  const limited = await checkRateLimits(request, [], {
+    countsAgainstBudget: false,
+    scope: "reports",
+  });
+  if (limited) return limited;
+
+  let body: Record<string, unknown>;
+  try {
+    body = ((await request.json()) || {}) as Record<string, unknown>;
+  } catch {
+    return jsonResponse({ error: "Invalid JSON body." }, 400);
+  }
+
+  const { prompt, analysis: rawAnalysis } = body;
+  if (typeof prompt !== "string" || !prompt.trim()) {
+    return jsonResponse({ error: "Field 'prompt' (non-empty string) is required." }, 400);
+  }
+  if (prompt.length > MAX_PROMPT_CHARS) return promptTooLarge(prompt.length);
+
+  const rubricId = (rawAnalysis as { rubric?: { id?: unknown } } | undefined)?.rubric?.id;
+  const rubric = typeof rubricId === "string" ? getRubric(rubricId) : undefined;
+  if (!rubric) {
+    return jsonResponse({ error: "Field 'analysis' must name a known rubric." }, 400);
+  }
+  // An analysis this server signed is stored as returned; anything else is
+  // repaired like a model answer and marked unverified.
+  const signed = verifyAnalysis(prompt, rawAnalysis);
+  const validation = signed
+    ? { analysis: signed, violations: [] }
+    : validateAnalysis(rawAnalysis, rubric, prompt);
+  if (!validation.analysis) {
+    return jsonResponse(
+      {
+        error: "Field 'analysis' must be the analysis of 'prompt'.",
+        violations: validation.violations,
+      },
+      400,
+    );
+  }
+
+  const report: Report = {
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    prompt,
+    analysis: validation.analysis,
+    verified: Boolean(signed),
+  };
+  await store.save(report, visitor);
+  return jsonResponse(
+    { id: report.id, url: `/report/${report.id}`, verified: report.verified },
+    201,
+  );
+}
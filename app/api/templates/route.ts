@@ -0,0 +1,84 @@
+import { checkOrigin } from "@/lib/embed/cors";
+import { jsonResponse } from "@/lib/http";
+import { createFileTemplateStore } from "@/lib/templates/file";
+import {
+  parseLibrary,
+  parseSnippet,
+  parseTemplate,
+  TemplateInputError,
+} from "@/lib/templates/parse";
+
+export const runtime = "nodejs";
+
+const store = createFileTemplateStore();
+
+/**
+ * The template library. With ?download=1 it is sent as a file to save or
+ * share; POST it back as { library, mode } to import it.
+ */
+export async function GET(request: Request): Promise<Response> {
+  const library = await store.load();
+  const download = new URL(request.url).searchParams.has("download");
+  return jsonResponse(
+    library,
+    200,
+    download ? { "Content-Disposition": 'attachment; filename="prompt-templates.json"' } : {},
+  );
+}
+
+/**
+ * Saves one template ({ template }) or snippet ({ snippet }), replacing any
+ * with the same id, or imports an exported file ({ library, mode }). "merge"
+ * (the default) keeps items the file doesn't have; "replace" drops them.
+ */
+export async function POST(request: Request): Promise<Response> {
+  const forbidden = checkOrigin(request);
+  if (forbidden) return forbidden;
+
+  let body: Record<string, unknown>;
+  try {
+    body = ((await request.json()) || {}) as Record<string, unknown>;
+  } catch {
+    return jsonResponse({ error: "Invalid JSON body." }, 400);
+  }
+
+  try {
+    if (body.library !== undefined) {
+      const mode = body.mode ?? "merge";
+      if (mode !== "merge" && mode !== "replace") {
+        return jsonResponse({ error: "Field 'mode' must be \"merge\" or \"replace\"." }, 400);
+      }
+      const library = await store.import(parseLibrary(body.library), mode);
+      return jsonResponse(library);
+    }
+    if (body.template !== undefined) {
+      const template = parseTemplate(body.template);
+      await store.saveTemplate(template);
+      return jsonResponse({ template }, 201);
+    }
+    if (body.snippet !== undefined) {
+      const snippet = parseSnippet(body.snippet);
+      await store.saveSnippet(snippet);
+      return jsonResponse({ snippet }, 201);
+    }
+  } catch (error) {
+    if (error instanceof TemplateInputError) {
+      return jsonResponse({ error: error.message }, 400);
+    }
+    throw error;
+  }
+  return jsonResponse({ error: "Body must have a 'template', a 'snippet' or a 'library'." }, 400);
+}
+
+/**
+ * Removes ?template=<id> or ?snippet=<id>.
+ */
+export async function DELETE(request: Request): Promise<Response> {
+  const params = new URL(request.url).searchParams;
+  const templateId = params.get("template");
+  const snippetId = params.get("snippet");
+  if (templateId) await store.deleteTemplate(templateId);
+  else if (snippetId) await store.deleteSnippet(snippetId);
+  else return jsonResponse({ error: "Pass ?template=<id> or ?snippet=<id>." }, 400);
+  return jsonResponse({ ok: true });
+}
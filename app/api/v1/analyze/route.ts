@@ -0,0 +1,28 @@
+import { handleAnalyze, handleAnalyzeStream } from "@/lib/analysis/handler";
+import { authenticate, limiterFor, type Caller } from "@/lib/api/auth";
+import { ApiError, errorResponse } from "@/lib/api/errors";
+import { observe } from "@/lib/observability";
+
+export const runtime = "nodejs";
+
+/**
+ * Grades a prompt. Answers with the Analysis as JSON, or as server-sent
+ * events when the client accepts text/event-stream. Errors use the
+ * { error: { code, message, details } } envelope.
+ */
+export async function POST(request: Request): Promise<Response> {
+  return observe("/api/v1/analyze", request, async () => {
+    let caller: Caller;
+    try {
+      caller = await authenticate(request);
+    } catch (error) {
+      if (error instanceof ApiError) return errorResponse(error, "v1");
+      throw error;
+    }
+
+    const options = { style: "v1" as const, limit: limiterFor(caller, request) };
+    return (request.headers.get("Accept") ?? "").includes("text/event-stream")
+      ? handleAnalyzeStream(request, options)
+      : handleAnalyze(request, options);
+  });
+}
@@ -0,0 +1,7 @@
+import { jsonResponse } from "@/lib/http";
+import { buildOpenApiDocument } from "@/lib/api/openapi";
+
+/** The OpenAPI 3.1 description of /api/v1; needs no API key. */
+export async function GET(): Promise<Response> {
+  return jsonResponse(buildOpenApiDocument());
+}
@@ -0,0 +1,7 @@
+import { jsonResponse } from "@/lib/http";
+import { rubrics } from "@/lib/rubrics";
+
+/** The rubrics prompts can be graded against; needs no API key. */
+export async function GET(): Promise<Response> {
+  return jsonResponse({ rubrics });
+}
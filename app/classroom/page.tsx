@@ -0,0 +1,198 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import ClassroomDashboard from "@/components/ClassroomDashboard";
+import type { Dashboard } from "@/lib/classroom/dashboard";
+import { DEFAULT_RUBRIC_ID, getRubric, rubrics } from "@/lib/rubrics";
+import type { Rubric } from "@/lib/rubrics/types";
+
+const inputClass =
+  "w-full rounded-xl border border-violet-100 bg-white px-3 py-1.5 text-xs text-slate-800 outline-none focus:border-violet-400";
+
+const buttonClass =
+  "rounded-full bg-violet-500 px-4 py-1.5 text-xs font-medium text-white hover:bg-violet-400 disabled:cursor-not-allowed disabled:bg-violet-300/60";
+
+const DEFAULT_PASSING_SCORE = 50;
+
+function defaultPassingScores(rubric: Rubric): Record<string, number> {
+  return Object.fromEntries(rubric.criteria.map((c) => [c.id, DEFAULT_PASSING_SCORE]));
+}
+
+/**
+ * Instructor page: create an assignment with per-criterion passing scores,
+ * then open its dashboard with the join code and passcode.
+ */
+export default function ClassroomPage() {
+  const [title, setTitle] = useState("");
+  const [task, setTask] = useState("");
+  const [rubricId, setRubricId] = useState(DEFAULT_RUBRIC_ID);
+  const [passingScores, setPassingScores] = useState(() =>
+    defaultPassingScores(getRubric(DEFAULT_RUBRIC_ID) as Rubric),
+  );
+  const [passcode, setPasscode] = useState("");
+  const [code, setCode] = useState("");
+  const [dashboard, setDashboard] = useState<Dashboard | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const rubric = getRubric(rubricId) as Rubric;
+
+  async function request(url: string, init?: RequestInit) {
+    const response = await fetch(url, init);
+    const data = await response.json().catch(() => null);
+    if (!response.ok) throw new Error(data?.error ?? `Request failed (${response.status}).`);
+    return data;
+  }
+
+  async function openDashboard(joinCode = code) {
+    setError(null);
+    try {
+      setDashboard(
+        await request(`/api/classroom/${encodeURIComponent(joinCode.trim())}/dashboard`, {
+          headers: { "X-Passcode": passcode },
+        }),
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not open the dashboard.");
+    }
+  }
+
+  async function create() {
+    setError(null);
+    try {
+      const { assignment } = await request("/api/classroom", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title, task, rubric: rubricId, passingScores, passcode }),
+      });
+      setCode(assignment.code);
+      await openDashboard(assignment.code);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not create the assignment.");
+    }
+  }
+
+  return (
+    <main className="min-h-screen bg-[#f7f4ff] text-slate-900">
+      <div className="mx-auto flex min-h-screen max-w-4xl flex-col gap-6 px-4 py-10 md:px-8">
+        <div>
+          <Link href="/" className="text-xs text-violet-600 underline">
+            ← Prompt analyzer
+          </Link>
+          <h1 className="mt-2 text-2xl font-semibold text-violet-700">Classroom</h1>
+          <p className="text-sm text-slate-600">
+            Create an assignment, share its join code, and follow how the class
+            scores. Students join from the analyzer page.
+          </p>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              create();
+            }}
+            className="flex flex-col gap-3 rounded-3xl bg-white/95 p-6 shadow-md ring-1 ring-violet-100"
+          >
+            <h2 className="text-sm font-semibold text-violet-700">New assignment</h2>
+            <input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Title"
+              className={inputClass}
+            />
+            <textarea
+              value={task}
+              onChange={(e) => setTask(e.target.value)}
+              placeholder="Task description students will see"
+              rows={3}
+              className={`${inputClass} resize-y`}
+            />
+            <select
+              value={rubricId}
+              onChange={(e) => {
+                setRubricId(e.target.value);
+                setPassingScores(defaultPassingScores(getRubric(e.target.value) as Rubric));
+              }}
+              className={inputClass}
+            >
+              {rubrics.map((r) => (
+                <option key={r.id} value={r.id}>
+                  {r.name}
+                </option>
+              ))}
+            </select>
+            <div className="grid grid-cols-2 gap-2 text-[11px] text-violet-700">
+              {rubric.criteria.map((c) => (
+                <label key={c.id} className="flex items-center justify-between gap-2">
+                  {c.label} ≥
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={passingScores[c.id] ?? 0}
+                    onChange={(e) =>
+                      setPassingScores({ ...passingScores, [c.id]: Number(e.target.value) })
+                    }
+                    className={`${inputClass} w-20`}
+                  />
+                </label>
+              ))}
+            </div>
+            <p className="text-[11px] text-slate-500">
+              Passing score per criterion; 0 means no requirement.
+            </p>
+            <button
+              type="submit"
+              disabled={!title.trim() || !task.trim() || passcode.length < 8}
+              className={buttonClass}
+            >
+              Create with the passcode below
+            </button>
+          </form>
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              openDashboard();
+            }}
+            className="flex flex-col gap-3 rounded-3xl bg-white/95 p-6 shadow-md ring-1 ring-violet-100"
+          >
+            <h2 className="text-sm font-semibold text-violet-700">Instructor passcode</h2>
+            <input
+              type="password"
+              value={passcode}
+              onChange={(e) => setPasscode(e.target.value)}
+              placeholder="Passcode (8+ characters)"
+              className={inputClass}
+            />
+            <p className="text-[11px] text-slate-500">
+              Set when you create an assignment and needed to open its
+              dashboard. It cannot be recovered, so keep it somewhere safe.
+            </p>
+            <input
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Join code"
+              className={`${inputClass} uppercase`}
+            />
+            <button type="submit" disabled={!code.trim() || !passcode} className={buttonClass}>
+              Open dashboard
+            </button>
+          </form>
+        </div>
+
+        {error && <p className="text-xs text-rose-400">{error}</p>}
+
+        {dashboard && (
+          <div className="rounded-3xl bg-white/95 p-6 shadow-md ring-1 ring-violet-100">
+            <ClassroomDashboard
+              dashboard={dashboard}
+              onRefresh={() => openDashboard(dashboard.assignment.code)}
+            />
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,24 @@
+import type { Metadata } from "next";
+import EmbedWidget from "@/components/EmbedWidget";
+import { embedSettings } from "@/lib/embed/settings";
+import { getRubric } from "@/lib/rubrics";
+
+export const metadata: Metadata = {
+  title: "Prompt Analyzer",
+  robots: { index: false },
+};
+
+/**
+ * The analyzer as a widget for other sites' iframes; see embedSettings for
+ * the query string. Only this app and EMBED_ORIGINS may frame it.
+ */
+export default async function EmbedPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const settings = embedSettings(await searchParams);
+  return (
+    <EmbedWidget settings={settings} rubricName={getRubric(settings.rubric)?.name ?? ""} />
+  );
+}
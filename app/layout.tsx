@@ -1,5 +1,8 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { cookies, headers } from "next/headers";
+import LocaleProvider from "@/components/LocaleProvider";
+import { isLocale, LOCALE_COOKIE, localeDirection, negotiateLocale } from "@/lib/i18n";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -17,17 +20,30 @@ export const metadata: Metadata = {
   description: "Generated by create next app",
 };
 
-export default function RootLayout({
+// The locale picked on the page, else the browser's preferred one. Reading
+// the request here renders every page per request rather than statically: the
+// server-rendered <html lang dir> has to match the visitor, or right-to-left
+// pages would flash a left-to-right layout. Of the pages only /classroom could
+// otherwise be static (the analyzer needs the locale, and /embed and /report
+// read their URL), so the cost is small.
+async function requestLocale() {
+  const chosen = (await cookies()).get(LOCALE_COOKIE)?.value;
+  if (isLocale(chosen)) return chosen;
+  return negotiateLocale((await headers()).get("Accept-Language"));
+}
+
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = await requestLocale();
   return (
-    <html lang="en">
+    <html lang={locale} dir={localeDirection(locale)}>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <LocaleProvider initialLocale={locale}>{children}</LocaleProvider>
       </body>
     </html>
   );
@@ -1,78 +1,93 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import ReactMarkdown from "react-markdown";
-
-type CriterionId = "context" | "goal" | "format" | "constraints" | "examples";
-
-type Criterion = {
-  id: CriterionId;
-  label: string;
-  description: string;
-  hint: string;
-};
-
-const criteria: Criterion[] = [
-  {
-    id: "context",
-    label: "Context",
-    description: "Background info that gives the AI situational awareness.",
-    hint: "Add who you are, who the audience is, and where this will be used.",
-  },
-  {
-    id: "goal",
-    label: "Goal",
-    description: "Clear outcome or objective for the AI.",
-    hint: "Finish the sentence: \"By the end, I want the AI to help me...\"",
-  },
-  {
-    id: "format",
-    label: "Format",
-    description:
-      "Preferred structure of the answer (list, table, essay, slides…).",
-    hint: "Specify bullets, sections, or tables you want.",
-  },
-  {
-    id: "constraints",
-    label: "Constraints",
-    description: "Limits like length, tone, level, or style.",
-    hint: "Mention tone (simple, friendly, formal), level, or word limit.",
-  },
-  {
-    id: "examples",
-    label: "Examples",
-    description: "Reference examples that show what good looks like.",
-    hint: "Paste 1–2 short examples of the style or structure you like.",
-  },
-];
-
-const tips: string[] = [
-  "Use step-by-step or numbered instructions for complex tasks.",
-  "Give at least one short example of the style you want.",
-  "Ask the AI to think out loud or explain its reasoning.",
-  "Iterate: ask the AI to improve or refine its previous answer.",
-  "Be specific with tone and formatting (titles, bullets, tables).",
+import AnnotatedPrompt, { criterionColors } from "@/components/AnnotatedPrompt";
+import BatchPanel from "@/components/BatchPanel";
+import ClassJoin, { type JoinedClass } from "@/components/ClassJoin";
+import CoachPanel from "@/components/CoachPanel";
+import ComparePanel from "@/components/ComparePanel";
+import HighlightedTextarea, { type Highlight } from "@/components/HighlightedTextarea";
+import HistoryPanel from "@/components/HistoryPanel";
+import { useLocale } from "@/components/LocaleProvider";
+import PromptBuilder from "@/components/PromptBuilder";
+import ReportExport from "@/components/ReportExport";
+import RewritePanel from "@/components/RewritePanel";
+import TemplatePicker from "@/components/TemplatePicker";
+import TokenEstimate from "@/components/TokenEstimate";
+import type { AnalysisEvent } from "@/lib/analysis/stream";
+import { ApiClientError, createApiClient } from "@/lib/api/client";
+import {
+  DEFAULT_REWRITE_STYLE,
+  isRewriteStyle,
+  REWRITE_STYLE_LABELS,
+} from "@/lib/analysis/rewrite";
+import {
+  REWRITE_STYLES,
+  type Analysis,
+  type CriterionScore,
+  type RewriteStyle,
+} from "@/lib/analysis/types";
+import { createHistoryEntry } from "@/lib/history/chains";
+import { createLocalHistoryStore } from "@/lib/history/local";
+import { createRemoteHistoryStore } from "@/lib/history/remote";
+import type { HistoryEntry } from "@/lib/history/types";
+import { isLocale, LOCALE_NAMES, LOCALES } from "@/lib/i18n";
+import type { ProviderId } from "@/lib/providers/types";
+import { DEFAULT_RUBRIC_ID, getRubric, rubrics } from "@/lib/rubrics";
+import type { Rubric } from "@/lib/rubrics/types";
+import { scanPrompt, type ScanMode } from "@/lib/scanner";
+import { getSessionId } from "@/lib/session";
+import { placeholderRanges } from "@/lib/templates/render";
+import { estimatePrompt } from "@/lib/tokens";
+
+const providerOptions: { value: ProviderId | "auto"; label: string }[] = [
+  { value: "auto", label: "Auto (server default)" },
+  { value: "gemini", label: "Gemini 2.5 Flash" },
+  { value: "heuristic", label: "Offline heuristic" },
 ];
 
-type CriterionLevel = "missing" | "weak" | "ok" | "strong";
-
-type CriterionScoreFromApi = {
-  id: CriterionId;
-  label: string;
-  score: number;
-  level: CriterionLevel;
-  feedback: string;
-};
-
-type AnalysisFromApi = {
-  overallScore: number;
-  overallLabel: string;
-  criteria: CriterionScoreFromApi[];
-  suggestions: string[];
-  improvedPrompt: string;
-};
+const apiClient = createApiClient({ headers: () => ({ "X-Session-Id": getSessionId() }) });
+
+// Set NEXT_PUBLIC_HISTORY_STORE=server to keep history in the server-side
+// file store instead of this browser's localStorage.
+const historyStore =
+  process.env.NEXT_PUBLIC_HISTORY_STORE === "server"
+    ? createRemoteHistoryStore()
+    : createLocalHistoryStore();
+
+function applyEvent(analysis: Analysis, event: AnalysisEvent): Analysis {
+  switch (event.type) {
+    case "rubric":
+      return { ...analysis, rubric: event.rubric };
+    case "overall":
+      return {
+        ...analysis,
+        overallScore: event.overallScore,
+        overallLabel: event.overallLabel,
+      };
+    case "criterion":
+      return {
+        ...analysis,
+        criteria: [
+          ...analysis.criteria.filter((c) => c.id !== event.criterion.id),
+          event.criterion,
+        ],
+      };
+    case "suggestion": {
+      const suggestions = [...analysis.suggestions];
+      suggestions[event.index] = event.suggestion;
+      return { ...analysis, suggestions };
+    }
+    case "improvedPrompt":
+      return { ...analysis, improvedPrompt: event.improvedPrompt };
+    case "done":
+      return event.analysis;
+  }
+}
 
 export default function Home() {
+  const { locale, setLocale, t } = useLocale();
   const [prompt, setPrompt] = useState<string>(
     "You are an AI tutor.\n\n" +
       "Task: Teach me the basics of prompt engineering.\n" +
@@ -82,75 +97,242 @@ export default function Home() {
       "Constraints: Keep it under 300 words.\n" +
       "Examples: Show 1 weak prompt and 1 improved prompt.",
   );
-  const [analysis, setAnalysis] = useState<AnalysisFromApi | null>(null);
+  const [analysis, setAnalysis] = useState<Analysis | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [copied, setCopied] = useState(false);
+  // Set from a 429's Retry-After; drives the countdown next to the error.
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [provider, setProvider] = useState<ProviderId | "auto">("auto");
+  const [rubricId, setRubricId] = useState<string>(DEFAULT_RUBRIC_ID);
+  const [scanMode, setScanMode] = useState<ScanMode>("redact");
+  const [promptView, setPromptView] = useState<
+    "edit" | "builder" | "templates" | "annotations"
+  >("edit");
+  const [focusedCriterionId, setFocusedCriterionId] = useState<string | null>(null);
+  const [classroom, setClassroom] = useState<JoinedClass | null>(null);
+  const [samples, setSamples] = useState(1);
+  const [keepSourceLanguage, setKeepSourceLanguage] = useState(false);
+  const [rewriteStyle, setRewriteStyle] = useState<RewriteStyle>(DEFAULT_REWRITE_STYLE);
+  const [lastProvider, setLastProvider] = useState<string | null>(null);
+  const [fromCache, setFromCache] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [currentEntryId, setCurrentEntryId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (retryAt === null) return;
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= retryAt) {
+        setRetryAt(null);
+        setError(null);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  const retryIn = retryAt === null ? 0 : Math.max(0, Math.ceil((retryAt - now) / 1000));
+
+  useEffect(() => {
+    historyStore
+      .list()
+      .then(setHistory)
+      .catch((err) => console.warn("[Prompt Analyzer] Could not load history:", err));
+  }, []);
+
+  // The server runs the same scanner; scanning locally keeps the highlights
+  // in step with every keystroke.
+  const findings = useMemo(() => scanPrompt(prompt), [prompt]);
+  const estimate = useMemo(() => estimatePrompt(prompt), [prompt]);
+  // Template placeholders left unfilled are marked alongside the findings.
+  const highlights = useMemo<Highlight[]>(
+    () =>
+      [
+        ...findings,
+        ...placeholderRanges(prompt).map((r) => ({ ...r, kind: "placeholder" as const })),
+      ].sort((a, b) => a.start - b.start),
+    [findings, prompt],
+  );
+
+  // Compare against the prompt that produced the current analysis, not
+  // whatever has been typed since.
+  const analyzedPrompt =
+    history.find((e) => e.id === currentEntryId)?.prompt ?? prompt;
+
+  // Entries saved before annotations existed have none.
+  const annotations = analysis?.annotations ?? [];
+
+  // Per-criterion score ranges when the analysis aggregates several runs.
+  const spreads = new Map(analysis?.consistency?.criteria.map((c) => [c.id, c]));
 
   const overallScore = analysis?.overallScore ?? 0;
-  const overallLabel = analysis?.overallLabel ?? "Not analyzed yet";
-
-  const criteriaScores: CriterionScoreFromApi[] =
-    analysis?.criteria ??
-    criteria.map((c) => ({
-      id: c.id,
-      label: c.label,
-      score: 0,
-      level: "missing" as const,
-      feedback: c.description,
-    }));
-
-  async function handleAnalyze() {
-    if (!prompt.trim()) {
+  const overallLabel = analysis
+    ? (t.overall[analysis.overallLabel] ?? analysis.overallLabel)
+    : t.ui.notAnalyzed;
+
+  // Render the rubric the last response declared; before the first run fall
+  // back to the selected one.
+  const selectedRubric = getRubric(rubricId) as Rubric;
+  const rubric = analysis?.rubric ?? selectedRubric;
+
+  // While streaming, rows that have not arrived yet keep their placeholder.
+  const criteriaScores: CriterionScore[] = rubric.criteria.map(
+    (c) =>
+      analysis?.criteria.find((s) => s.id === c.id) ?? {
+        id: c.id,
+        label: c.label,
+        score: 0,
+        level: "missing" as const,
+        feedback: isAnalyzing ? "Waiting for score…" : c.description,
+      },
+  );
+
+  // Each revision continues the chain of the one it was made from.
+  function recordRevision(revisedPrompt: string, result: Analysis) {
+    const parent = history.find((e) => e.id === currentEntryId) ?? null;
+    const entry = createHistoryEntry(revisedPrompt, result, parent);
+    setHistory((entries) => [...entries, entry]);
+    setCurrentEntryId(entry.id);
+    historyStore
+      .save(entry)
+      .catch((err) => console.warn("[Prompt Analyzer] Could not save history:", err));
+  }
+
+  // `text` analyzes something other than the editor's prompt, such as a
+  // template body; it also becomes the editor's prompt.
+  async function handleAnalyze({
+    fresh = false,
+    text = prompt,
+  }: { fresh?: boolean; text?: string } = {}) {
+    if (!text.trim()) {
       setError("Write a prompt first.");
       return;
     }
 
+    const previous = analysis;
+    const submittedPrompt = text;
+    setPrompt(text);
+    let final: Analysis | null = null;
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     setIsAnalyzing(true);
     setError(null);
+    setFocusedCriterionId(null);
 
     try {
-      const response = await fetch("/api/analyze", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
+      const { events, meta } = await apiClient.analyzeStream(
+        {
+          prompt: submittedPrompt,
+          provider: provider === "auto" ? undefined : provider,
+          rubric: rubricId,
+          scanMode,
+          fresh,
+          samples,
+          assignment: classroom?.ref,
+          language: locale,
+          keepSourceLanguage,
+          rewriteStyle,
         },
-        body: JSON.stringify({ prompt }),
+        { signal: controller.signal },
+      );
+
+      setLastProvider(providerOptions.find((o) => o.value === meta.provider)?.label ?? null);
+      setFromCache(meta.cache === "HIT");
+      setAnalysis({
+        overallScore: 0,
+        overallLabel: t.ui.analyzing,
+        criteria: [],
+        suggestions: [],
+        improvedPrompt: "",
+        annotations: [],
+        rubric: selectedRubric,
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data?.error ?? "Failed to analyze prompt.");
+      for await (const event of events) {
+        if (event.type === "done") final = event.analysis;
+        setAnalysis((current) => (current ? applyEvent(current, event) : current));
       }
 
-      setAnalysis(data as AnalysisFromApi);
-      setCopied(false);
+      if (final) recordRevision(submittedPrompt, final);
     } catch (err) {
+      setAnalysis(previous);
+      if (controller.signal.aborted) return;
+      if (err instanceof ApiClientError) {
+        if (err.status === 429) {
+          setNow(Date.now());
+          setRetryAt(Date.now() + (err.retryAfter ?? 60) * 1000);
+        }
+        const violations = (err.details.violations ?? []) as { path: string; message: string }[];
+        const detail = violations.length
+          ? ` (${violations.map((v) => `${v.path}: ${v.message}`).join("; ")})`
+          : "";
+        setError(`${err.message}${detail}`);
+        return;
+      }
       const message =
         err instanceof Error ? err.message : "Unknown error while analyzing.";
       setError(message);
     } finally {
+      abortRef.current = null;
       setIsAnalyzing(false);
     }
   }
 
-  function handleUseImproved() {
-    if (!analysis) return;
-    if (analysis.improvedPrompt && analysis.improvedPrompt.trim()) {
-      setPrompt(analysis.improvedPrompt);
-    }
+  // Assignments fix the rubric their submissions are graded with.
+  function handleJoinClass(joined: JoinedClass | null) {
+    setClassroom(joined);
+    if (joined) setRubricId(joined.assignment.rubricId);
+  }
+
+  // Clicking a criterion row shows the prompt's annotations for it.
+  function handleFocusCriterion(id: string) {
+    const next = focusedCriterionId === id ? null : id;
+    setFocusedCriterionId(next);
+    if (next) setPromptView("annotations");
   }
 
-  async function handleCopyImproved() {
-    if (!analysis || !analysis.improvedPrompt?.trim()) return;
+  function handleCancel() {
+    abortRef.current?.abort();
+  }
 
+  function handleSelectRevision(entry: HistoryEntry) {
+    setPrompt(entry.prompt);
+    setAnalysis(entry.analysis);
+    setRubricId(entry.analysis.rubric.id);
+    setCurrentEntryId(entry.id);
+  }
+
+  function handleNewChain() {
+    setCurrentEntryId(null);
+    setAnalysis(null);
+  }
+
+  async function handleClearHistory() {
     try {
-      await navigator.clipboard.writeText(analysis.improvedPrompt);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 1500);
-    } catch {
-      setCopied(false);
+      await historyStore.clear();
+      setHistory([]);
+      setCurrentEntryId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not clear history.");
+    }
+  }
+
+  function handleApplyCoachRevision(revisedPrompt: string, result?: Analysis) {
+    setPrompt(revisedPrompt);
+    setPromptView("edit");
+    if (!result) return;
+    setAnalysis(result);
+    setFromCache(false);
+    recordRevision(revisedPrompt, result);
+  }
+
+  function handleUseImproved() {
+    if (!analysis) return;
+    if (analysis.improvedPrompt && analysis.improvedPrompt.trim()) {
+      setPrompt(analysis.improvedPrompt);
     }
   }
 
@@ -190,7 +372,7 @@ export default function Home() {
               <div className="flex flex-col">
                 <span className="font-medium text-slate-700">Based on your checklist</span>
                 <span className="text-[11px] text-violet-500">
-                  Context · Goal · Format · Constraints · Examples
+                  {selectedRubric.criteria.map((c) => t.criteria[c.id] ?? c.label).join(" · ")}
                 </span>
               </div>
             </div>
@@ -272,47 +454,229 @@ export default function Home() {
                   criteria.
                 </p>
               </div>
-              <div className="flex flex-col items-end gap-1 text-xs text-violet-100">
-                <span className="rounded-full bg-violet-500/15 px-3 py-1">
-                  Powered by Gemini 1.5 Pro
-                </span>
+              <div className="flex flex-col items-end gap-1 text-xs text-violet-700">
+                <select
+                  value={rubricId}
+                  onChange={(e) => setRubricId(e.target.value)}
+                  disabled={classroom !== null}
+                  title={classroom ? "Set by the assignment" : undefined}
+                  className="rounded-full bg-violet-500/15 px-3 py-1 outline-none disabled:opacity-60"
+                >
+                  {rubrics.map((r) => (
+                    <option key={r.id} value={r.id}>
+                      {r.name}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={provider}
+                  onChange={(e) =>
+                    setProvider(e.target.value as ProviderId | "auto")
+                  }
+                  className="rounded-full bg-violet-500/15 px-3 py-1 outline-none"
+                >
+                  {providerOptions.map((o) => (
+                    <option key={o.value} value={o.value}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={samples}
+                  onChange={(e) => setSamples(Number(e.target.value))}
+                  title="Grade several times and take the median score per criterion"
+                  className="rounded-full bg-violet-500/15 px-3 py-1 outline-none"
+                >
+                  <option value={1}>Single run</option>
+                  <option value={3}>Median of 3 runs</option>
+                  <option value={5}>Median of 5 runs</option>
+                </select>
+                <select
+                  value={rewriteStyle}
+                  onChange={(e) => {
+                    if (isRewriteStyle(e.target.value)) setRewriteStyle(e.target.value);
+                  }}
+                  title={t.ui.rewriteStyle}
+                  aria-label={t.ui.rewriteStyle}
+                  className="rounded-full bg-violet-500/15 px-3 py-1 outline-none"
+                >
+                  {REWRITE_STYLES.map((style) => (
+                    <option key={style} value={style}>
+                      {REWRITE_STYLE_LABELS[style]}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={locale}
+                  onChange={(e) => {
+                    if (isLocale(e.target.value)) setLocale(e.target.value);
+                  }}
+                  title={t.ui.feedbackLanguage}
+                  aria-label={t.ui.feedbackLanguage}
+                  className="rounded-full bg-violet-500/15 px-3 py-1 outline-none"
+                >
+                  {LOCALES.map((l) => (
+                    <option key={l} value={l}>
+                      {LOCALE_NAMES[l]}
+                    </option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-1 text-[11px]">
+                  <input
+                    type="checkbox"
+                    checked={keepSourceLanguage}
+                    onChange={(e) => setKeepSourceLanguage(e.target.checked)}
+                    className="accent-violet-500"
+                  />
+                  {t.ui.keepSourceLanguage}
+                </label>
               </div>
             </div>
 
-            <textarea
-              className="mt-4 h-56 w-full resize-none rounded-2xl border border-violet-100 bg-white p-4 text-sm text-slate-800 shadow-inner outline-none focus:border-violet-400 focus:ring-1 focus:ring-violet-400"
-              value={prompt}
-              onChange={(e) => setPrompt(e.target.value)}
-              placeholder="Describe your task, context, and desired output…"
-            />
+            <div className="mt-4 flex items-center gap-1 text-[11px]">
+              {(["edit", "builder", "templates", "annotations"] as const).map((view) => (
+                <button
+                  key={view}
+                  type="button"
+                  onClick={() => setPromptView(view)}
+                  disabled={view === "annotations" && !annotations.length}
+                  className={`rounded-full px-3 py-1 font-medium transition disabled:cursor-not-allowed disabled:opacity-50 ${
+                    promptView === view
+                      ? "bg-violet-500 text-white"
+                      : "bg-violet-50 text-violet-700 hover:bg-violet-100"
+                  }`}
+                >
+                  {view === "edit"
+                    ? "Edit"
+                    : view === "builder"
+                      ? "Builder"
+                      : view === "templates"
+                        ? "Templates"
+                        : `Annotations (${annotations.length})`}
+                </button>
+              ))}
+              {promptView === "annotations" && analyzedPrompt !== prompt && (
+                <span className="ml-2 text-slate-400">
+                  Showing the analyzed version of your prompt.
+                </span>
+              )}
+            </div>
+
+            {/* Kept mounted so the builder fields survive switching tabs. */}
+            <div className={promptView === "builder" ? "" : "hidden"}>
+              <PromptBuilder onPromptChange={setPrompt} />
+            </div>
+            <div className={promptView === "templates" ? "" : "hidden"}>
+              <TemplatePicker
+                prompt={prompt}
+                onPromptChange={setPrompt}
+                onAnalyzeTemplate={(body) => handleAnalyze({ text: body })}
+              />
+            </div>
+
+            {promptView === "annotations" && annotations.length > 0 ? (
+              <AnnotatedPrompt
+                text={analyzedPrompt}
+                annotations={annotations}
+                rubric={rubric}
+                focusedCriterionId={focusedCriterionId}
+                onSelectCriterion={handleFocusCriterion}
+              />
+            ) : (
+              <HighlightedTextarea
+                value={prompt}
+                onChange={setPrompt}
+                highlights={highlights}
+                placeholder="Describe your task, context, and desired output…"
+              />
+            )}
+
+            {findings.length > 0 && (
+              <div className="mt-2 rounded-2xl bg-amber-50 px-3 py-2 text-[11px] text-amber-800">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold">
+                    {findings.length} sensitive or unsafe span
+                    {findings.length === 1 ? "" : "s"} found
+                  </span>
+                  <select
+                    value={scanMode}
+                    onChange={(e) => setScanMode(e.target.value as ScanMode)}
+                    className="rounded-full bg-amber-100 px-2 py-0.5 outline-none"
+                  >
+                    <option value="redact">Redact before sending</option>
+                    <option value="warn">Send as is</option>
+                    <option value="block">Don&apos;t send</option>
+                  </select>
+                </div>
+                <ul className="mt-1 list-disc pl-4">
+                  {findings.map((f) => (
+                    <li key={f.start}>
+                      {f.message}: <code>{prompt.slice(f.start, f.end).slice(0, 40)}</code>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
 
             <div className="mt-3 flex flex-wrap items-center justify-between gap-3 text-[11px] text-slate-500">
               <div className="flex flex-wrap items-center gap-2">
                 <button
                   type="button"
-                  onClick={handleAnalyze}
-                  disabled={isAnalyzing || !prompt.trim()}
+                  onClick={() => handleAnalyze()}
+                  disabled={isAnalyzing || !prompt.trim() || retryIn > 0}
                   className="inline-flex items-center gap-2 rounded-full bg-violet-500 px-4 py-1.5 text-xs font-medium text-white shadow-sm transition hover:bg-violet-400 disabled:cursor-not-allowed disabled:bg-violet-300/60"
                 >
-                  {isAnalyzing ? "Analyzing…" : "Analyze prompt"}
+                  {isAnalyzing ? t.ui.analyzing : t.ui.analyze}
                 </button>
+                {fromCache && !isAnalyzing && (
+                  <button
+                    type="button"
+                    onClick={() => handleAnalyze({ fresh: true })}
+                    disabled={retryIn > 0}
+                    title="This result came from the cache. Ask the model again."
+                    className="inline-flex items-center gap-2 rounded-full bg-violet-50 px-4 py-1.5 text-xs font-medium text-violet-700 shadow-sm transition hover:bg-violet-100 disabled:cursor-not-allowed"
+                  >
+                    Re-analyze fresh
+                  </button>
+                )}
+                {isAnalyzing && (
+                  <button
+                    type="button"
+                    onClick={handleCancel}
+                    className="inline-flex items-center gap-2 rounded-full bg-rose-50 px-4 py-1.5 text-xs font-medium text-rose-600 shadow-sm transition hover:bg-rose-100"
+                  >
+                    Cancel
+                  </button>
+                )}
                 <button
                   type="button"
                   onClick={handleUseImproved}
-                  disabled={!analysis}
+                  disabled={!analysis?.improvedPrompt.trim()}
                   className="inline-flex items-center gap-2 rounded-full bg-violet-50 px-4 py-1.5 text-xs font-medium text-violet-700 shadow-sm transition hover:bg-violet-100 disabled:cursor-not-allowed disabled:bg-violet-50/60"
                 >
-                  Use improved prompt
+                  {t.ui.useImproved}
                 </button>
                 <span className="rounded-full bg-violet-50 px-3 py-1 text-violet-700">
                   You are · Task · Context · Output format · Tone · Constraints
                 </span>
               </div>
-              <span>{prompt.trim().length} characters</span>
+              <span>
+                {prompt.trim().length} characters · ~{estimate.inputTokens.toLocaleString("en-US")}{" "}
+                tokens
+              </span>
             </div>
 
+            {prompt.trim() && <TokenEstimate estimate={estimate} />}
+
             {error && (
-              <p className="mt-2 text-xs text-rose-300">{error}</p>
+              <p className="mt-2 text-xs text-rose-300">
+                {error}
+                {retryIn > 0 && (
+                  <span className="ml-1 font-semibold">
+                    Try again in {retryIn >= 120 ? `${Math.ceil(retryIn / 60)} min` : `${retryIn}s`}.
+                  </span>
+                )}
+              </p>
             )}
           </div>
 
@@ -323,14 +687,14 @@ export default function Home() {
 
             <div className="relative z-10 flex items-center gap-3 text-xs font-semibold uppercase tracking-[0.2em] text-violet-500">
               <span className="h-px flex-1 bg-violet-200" />
-              <span>Overview</span>
+              <span>{t.ui.overview}</span>
             </div>
 
             <div className="relative z-10 flex flex-col gap-4">
               <div className="flex items-end justify-between gap-3">
                 <div>
                   <p className="text-xs font-semibold text-violet-500">
-                    Overall score
+                    {t.ui.overallScore}
                   </p>
                   <p className="text-3xl font-bold text-violet-800">
                     {overallScore}/100
@@ -340,26 +704,72 @@ export default function Home() {
                 <div className="flex flex-col items-end gap-1 text-[11px] text-slate-500">
                   <span className="font-semibold">Analysis status</span>
                   <span className="rounded-full bg-slate-900 px-2 py-0.5 text-[10px] text-slate-200">
-                    {analysis ? "Last run from Gemini" : "Waiting for first analysis"}
+                    {analysis
+                      ? `Last run from ${lastProvider ?? "the analyzer"}${fromCache ? " (cached)" : ""}${analysis.consistency ? `, median of ${analysis.consistency.samples} runs (overall ±${Math.ceil(analysis.consistency.overallSpread / 2)})` : ""}${analysis.scan?.redacted ? `, ${analysis.scan.findings.length} span(s) redacted` : ""}`
+                      : "Waiting for first analysis"}
                   </span>
+                  {analysis?.language && (
+                    <span>
+                      {t.ui.promptLanguage}: {t.languages[analysis.language.detected]}
+                    </span>
+                  )}
+                  {analysis?.language &&
+                    analysis.language.feedback !== "source" &&
+                    analysis.language.feedback !== locale && (
+                      <span className="text-amber-600">
+                        {t.ui.writtenIn}: {t.languages[analysis.language.feedback]}
+                      </span>
+                    )}
                 </div>
               </div>
 
+              <ReportExport
+                prompt={analyzedPrompt}
+                analysis={isAnalyzing ? null : analysis}
+              />
+
               <div className="mt-1 grid gap-2 text-[11px] text-slate-500">
-                {criteriaScores.map((c) => (
-                  <div
+                {criteriaScores.map((c, i) => (
+                  <button
+                    type="button"
                     key={c.id}
-                    className="flex items-center justify-between rounded-2xl bg-white px-3 py-2 ring-1 ring-violet-100"
+                    onClick={() => handleFocusCriterion(c.id)}
+                    title="Show this criterion's spans in your prompt"
+                    className={`flex items-center justify-between rounded-2xl bg-white px-3 py-2 text-start ring-1 transition hover:ring-violet-300 ${
+                      focusedCriterionId === c.id ? "ring-violet-500" : "ring-violet-100"
+                    }`}
                   >
                     <div className="flex flex-col">
                       <span className="text-xs font-semibold text-violet-700">
-                        {c.label}
+                        <span
+                          className={`me-1.5 inline-block h-2 w-2 rounded-full ${
+                            criterionColors[i % criterionColors.length]
+                          }`}
+                        />
+                        {t.criteria[c.id] ?? c.label}
+                        {rubric.criteria[i].weight !== 1 && (
+                          <span className="ms-1 text-[10px] font-normal text-violet-400">
+                            ×{rubric.criteria[i].weight}
+                          </span>
+                        )}
                       </span>
-                      <span className="text-[11px] text-slate-500">
+                      <span dir="auto" className="text-[11px] text-slate-500">
                         {c.feedback}
                       </span>
+                      {spreads.get(c.id)?.lowConfidence && (
+                        <span className="text-[10px] text-amber-600">
+                          Low confidence: runs scored{" "}
+                          {spreads.get(c.id)!.min}–{spreads.get(c.id)!.max}
+                        </span>
+                      )}
+                      {annotations.some((a) => a.criterionId === c.id) && (
+                        <span className="text-[10px] text-violet-400">
+                          {annotations.filter((a) => a.criterionId === c.id).length} annotated
+                          span(s)
+                        </span>
+                      )}
                     </div>
-                    <div className="flex flex-col items-end text-right">
+                    <div className="flex flex-col items-end text-end">
                       <span
                         className={`text-xs font-semibold ${
                           c.level === "strong"
@@ -372,53 +782,26 @@ export default function Home() {
                         {c.score}/100
                       </span>
                       <span className="text-[10px] text-slate-500 capitalize">
-                        {c.level}
+                        {t.levels[c.level]}
                       </span>
                     </div>
-                  </div>
+                  </button>
                 ))}
               </div>
 
               {/* Ready-to-copy improved prompt */}
-              <div className="mt-4 rounded-3xl bg-white p-6 shadow-md ring-1 ring-violet-100">
-                <div className="flex items-center justify-between gap-3">
-                  <div>
-                    <h2 className="text-sm font-semibold text-violet-700">
-                      Ready-to-copy prompt
-                    </h2>
-                    <p className="text-xs text-slate-500">
-                      Use this upgraded version as input for any other AI model
-                      or tool.
-                    </p>
-                  </div>
-                  <button
-                    type="button"
-                    onClick={handleCopyImproved}
-                    disabled={!analysis || !analysis.improvedPrompt?.trim()}
-                    className="inline-flex items-center gap-2 rounded-full bg-violet-500 px-4 py-1.5 text-xs font-medium text-white shadow-sm transition hover:bg-violet-400 disabled:cursor-not-allowed disabled:bg-violet-300/60"
-                  >
-                    {copied ? "Copied" : "Copy prompt"}
-                  </button>
-                </div>
-
-                <div className="mt-3 rounded-2xl bg-violet-50 p-4 text-xs text-slate-800 ring-1 ring-violet-100">
-                  {!analysis || !analysis.improvedPrompt?.trim() ? (
-                    <p className="text-slate-500">
-                      Run an analysis first to generate an improved,
-                      export-ready prompt.
-                    </p>
-                  ) : (
-                    <pre className="whitespace-pre-wrap break-words font-mono text-[11px] leading-relaxed">
-                      {analysis.improvedPrompt}
-                    </pre>
-                  )}
-                </div>
-              </div>
+              <RewritePanel
+                analysis={analysis}
+                original={analyzedPrompt}
+                prompt={prompt}
+                onChange={setPrompt}
+                disabled={isAnalyzing}
+              />
 
               {/* Targeted suggestions */}
               <div className="mt-4 rounded-3xl bg-violet-50 p-4 shadow-md ring-1 ring-violet-200">
                 <h2 className="text-sm font-semibold text-violet-700">
-                  Targeted suggestions
+                  {t.ui.suggestions}
                 </h2>
                 <p className="mt-1 text-xs text-violet-500">
                   Generated from your prompt-engineering checklist.
@@ -441,7 +824,7 @@ export default function Home() {
                         className="flex gap-2 rounded-2xl bg-white/80 px-3 py-2 ring-1 ring-violet-100"
                       >
                         <span className="mt-1 h-1.5 w-1.5 flex-shrink-0 rounded-full bg-violet-400" />
-                        <div className="text-xs leading-relaxed">
+                        <div dir="auto" className="text-xs leading-relaxed">
                           <ReactMarkdown
                             components={{
                               p: ({ node, ...props }) => (
@@ -450,7 +833,7 @@ export default function Home() {
                               ),
                               li: ({ node, ...props }) => (
                                 <li
-                                  className="ml-4 list-disc text-slate-700"
+                                  className="ms-4 list-disc text-slate-700"
                                   {...props}
                                 />
                               ),
@@ -471,9 +854,108 @@ export default function Home() {
                 </div>
               </div>
 
+              {/* Quick tips */}
+              <div className="mt-4 rounded-3xl bg-white p-4 ring-1 ring-violet-100">
+                <h2 className="text-sm font-semibold text-violet-700">{t.ui.tips}</h2>
+                <ul className="mt-2 list-disc space-y-1 ps-5 text-xs text-slate-600">
+                  {t.tips.map((tip) => (
+                    <li key={tip}>{tip}</li>
+                  ))}
+                </ul>
+              </div>
+
             </div>
           </div>
         </div>
+
+        {/* Classroom: submit analyses to an instructor's assignment */}
+        <div className="rounded-3xl bg-white/95 p-6 shadow-md ring-1 ring-violet-100">
+          <div className="mb-4">
+            <h2 className="text-sm font-semibold text-violet-700">
+              Classroom
+            </h2>
+            <p className="text-xs text-slate-500">
+              Join an assignment with the code from your instructor; your
+              analyses are then submitted to it.
+            </p>
+          </div>
+          <ClassJoin
+            joined={classroom}
+            onJoin={handleJoinClass}
+            analysis={isAnalyzing ? null : analysis}
+          />
+        </div>
+
+        {/* Coach: conversation about the current analysis */}
+        <div className="rounded-3xl bg-white/95 p-6 shadow-md ring-1 ring-violet-100">
+          <div className="mb-4">
+            <h2 className="text-sm font-semibold text-violet-700">
+              Ask the coach
+            </h2>
+            <p className="text-xs text-slate-500">
+              Ask why a criterion scored as it did, or ask for a different
+              rewrite and apply it to the editor.
+            </p>
+          </div>
+          <CoachPanel
+            prompt={analyzedPrompt}
+            analysis={isAnalyzing ? null : analysis}
+            provider={provider}
+            scanMode={scanMode}
+            onApply={handleApplyCoachRevision}
+          />
+        </div>
+
+        {/* Compare: run original and improved prompt on a target model */}
+        <div className="rounded-3xl bg-white/95 p-6 shadow-md ring-1 ring-violet-100">
+          <div className="mb-4">
+            <h2 className="text-sm font-semibold text-violet-700">
+              Compare on a model
+            </h2>
+            <p className="text-xs text-slate-500">
+              Run your original prompt and the improved one on the same model
+              and see whether the rewrite actually produces a better answer.
+            </p>
+          </div>
+          <ComparePanel
+            originalPrompt={analyzedPrompt}
+            improvedPrompt={analysis?.improvedPrompt ?? ""}
+          />
+        </div>
+
+        {/* History: revision timeline and prompt diff */}
+        <div className="rounded-3xl bg-white/95 p-6 shadow-md ring-1 ring-violet-100">
+          <div className="mb-4">
+            <h2 className="text-sm font-semibold text-violet-700">
+              Revision history
+            </h2>
+            <p className="text-xs text-slate-500">
+              Scores per criterion across the revisions of your prompt. Pick two
+              revisions to see what changed.
+            </p>
+          </div>
+          <HistoryPanel
+            entries={history}
+            currentEntryId={currentEntryId}
+            onSelect={handleSelectRevision}
+            onNewChain={handleNewChain}
+            onClear={handleClearHistory}
+          />
+        </div>
+
+        {/* Batch scoring of uploaded prompt files */}
+        <div className="rounded-3xl bg-white/95 p-6 shadow-md ring-1 ring-violet-100">
+          <div className="mb-4">
+            <h2 className="text-sm font-semibold text-violet-700">
+              Batch scoring
+            </h2>
+            <p className="text-xs text-slate-500">
+              Upload a file of student prompts to score them all with the
+              selected rubric and download the results.
+            </p>
+          </div>
+          <BatchPanel rubricId={rubricId} provider={provider} />
+        </div>
       </div>
     </main>
   );
@@ -0,0 +1,150 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import { notFound } from "next/navigation";
+import ReactMarkdown from "react-markdown";
+import PrintButton from "@/components/PrintButton";
+import { createFileReportStore } from "@/lib/reports/file";
+
+export const runtime = "nodejs";
+
+export const metadata: Metadata = {
+  title: "Prompt analysis report",
+  robots: { index: false },
+};
+
+const store = createFileReportStore();
+
+const levelClass: Record<string, string> = {
+  strong: "text-emerald-600",
+  ok: "text-amber-600",
+  weak: "text-rose-600",
+  missing: "text-rose-600",
+};
+
+/**
+ * Read-only view of a shared report, laid out for printing: exactly the
+ * prompt and grading the student exported.
+ */
+export default async function ReportPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const report = await store.get(id);
+  if (!report) notFound();
+  const { prompt, analysis, createdAt, verified } = report;
+
+  // Badges are pasted into other sites, so their URLs must be absolute.
+  const requestHeaders = await headers();
+  const host = requestHeaders.get("x-forwarded-host") ?? requestHeaders.get("host");
+  const origin = `${requestHeaders.get("x-forwarded-proto") ?? "http"}://${host}`;
+  const badgeUrl = `${origin}/api/reports/${id}/badge.svg`;
+  const badgeMarkdown = `[![Prompt score](${badgeUrl})](${origin}/report/${id})`;
+
+  return (
+    <main className="mx-auto flex max-w-3xl flex-col gap-6 p-8 text-slate-800 print:max-w-none print:p-0">
+      <header className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-bold text-violet-800">Prompt analysis report</h1>
+          <p className="text-xs text-slate-500">
+            {analysis.rubric.name} rubric · {new Date(createdAt).toUTCString()}
+          </p>
+        </div>
+        <div className="flex gap-2 text-xs print:hidden">
+          <a
+            href={`/api/reports/${id}?format=md`}
+            className="rounded-full bg-violet-50 px-4 py-1.5 font-medium text-violet-700 hover:bg-violet-100"
+          >
+            Markdown
+          </a>
+          <a
+            href={`/api/reports/${id}`}
+            className="rounded-full bg-violet-50 px-4 py-1.5 font-medium text-violet-700 hover:bg-violet-100"
+          >
+            JSON
+          </a>
+          <PrintButton />
+        </div>
+      </header>
+
+      {!verified && (
+        <p className="rounded-2xl bg-amber-50 px-4 py-2 text-xs text-amber-800 ring-1 ring-amber-200">
+          Unverified: this analysis was uploaded with the report and was not checked against
+          the analyzer&apos;s own grading, so its scores may have been edited.
+        </p>
+      )}
+
+      <section className="break-inside-avoid">
+        <p className="text-xs font-semibold text-violet-500">Overall score</p>
+        <p className="text-3xl font-bold text-violet-800">{analysis.overallScore}/100</p>
+        <p className="text-xs text-slate-500">{analysis.overallLabel}</p>
+      </section>
+
+      <section>
+        <h2 className="mb-2 text-sm font-semibold text-violet-700">Prompt</h2>
+        <pre className="whitespace-pre-wrap break-words rounded-2xl bg-violet-50 p-4 font-mono text-xs ring-1 ring-violet-100">
+          {prompt}
+        </pre>
+      </section>
+
+      <section>
+        <h2 className="mb-2 text-sm font-semibold text-violet-700">Criteria</h2>
+        <table className="w-full border-collapse text-left text-xs">
+          <thead>
+            <tr className="border-b border-violet-200 text-violet-700">
+              <th className="py-1 pr-3">Criterion</th>
+              <th className="py-1 pr-3">Score</th>
+              <th className="py-1">Feedback</th>
+            </tr>
+          </thead>
+          <tbody>
+            {analysis.criteria.map((c) => (
+              <tr key={c.id} className="break-inside-avoid border-b border-violet-100 align-top">
+                <td className="py-2 pr-3 font-semibold">{c.label}</td>
+                <td className={`whitespace-nowrap py-2 pr-3 font-semibold ${levelClass[c.level]}`}>
+                  {c.score}/100 <span className="font-normal capitalize">{c.level}</span>
+                </td>
+                <td className="py-2">{c.feedback}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      {analysis.suggestions.length > 0 && (
+        <section>
+          <h2 className="mb-2 text-sm font-semibold text-violet-700">Suggestions</h2>
+          <ul className="list-disc space-y-1 pl-5 text-xs leading-relaxed">
+            {analysis.suggestions.map((s, i) => (
+              <li key={i}>
+                <ReactMarkdown components={{ p: ({ children }) => <>{children}</> }}>
+                  {s}
+                </ReactMarkdown>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {analysis.improvedPrompt.trim() && (
+        <section className="break-inside-avoid">
+          <h2 className="mb-2 text-sm font-semibold text-violet-700">Improved prompt</h2>
+          <pre className="whitespace-pre-wrap break-words rounded-2xl bg-violet-50 p-4 font-mono text-xs ring-1 ring-violet-100">
+            {analysis.improvedPrompt}
+          </pre>
+        </section>
+      )}
+
+      <section className="break-inside-avoid print:hidden">
+        <h2 className="mb-2 text-sm font-semibold text-violet-700">Badge</h2>
+        {/* eslint-disable-next-line @next/next/no-img-element -- an SVG served by this app */}
+        <img src={`/api/reports/${id}/badge.svg`} alt="Prompt score badge" height={20} />
+        <p className="mt-2 text-xs text-slate-500">Markdown for a README or club page:</p>
+        <pre className="mt-1 whitespace-pre-wrap break-all rounded-2xl bg-violet-50 p-3 font-mono text-[11px] ring-1 ring-violet-100">
+          {badgeMarkdown}
+        </pre>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect, useRef, type ReactNode } from "react";
+import type { Annotation, AnnotationSeverity } from "@/lib/analysis/types";
+import type { Rubric } from "@/lib/rubrics/types";
+
+type AnnotatedPromptProps = {
+  text: string;
+  annotations: Annotation[];
+  rubric: Rubric;
+  // Spans of this criterion are emphasized and scrolled into view.
+  focusedCriterionId: string | null;
+  onSelectCriterion: (id: string) => void;
+};
+
+// One color per criterion, by position in the rubric.
+export const criterionColors = [
+  "bg-violet-200/80",
+  "bg-sky-200/80",
+  "bg-emerald-200/80",
+  "bg-amber-200/80",
+  "bg-rose-200/80",
+  "bg-teal-200/80",
+];
+
+const severityUnderline: Record<AnnotationSeverity, string> = {
+  info: "",
+  warning: "underline decoration-amber-500 decoration-wavy",
+  error: "underline decoration-rose-500 decoration-wavy",
+};
+
+/**
+ * Splits the text at every annotation boundary so that overlapping spans can
+ * share a segment; each segment lists the annotations covering it.
+ */
+function segment(text: string, annotations: Annotation[]) {
+  const cuts = new Set([0, text.length]);
+  for (const a of annotations) {
+    cuts.add(a.start);
+    cuts.add(a.end);
+  }
+  const points = [...cuts].sort((a, b) => a - b);
+  return points.slice(0, -1).map((start, i) => {
+    const end = points[i + 1];
+    return {
+      start,
+      text: text.slice(start, end),
+      covering: annotations.filter((a) => a.start <= start && a.end >= end),
+    };
+  });
+}
+
+/**
+ * Read-only view of a graded prompt with its annotations highlighted. Hovering
+ * a span shows its comments as a tooltip; clicking it selects the criterion.
+ */
+export default function AnnotatedPrompt({
+  text,
+  annotations,
+  rubric,
+  focusedCriterionId,
+  onSelectCriterion,
+}: AnnotatedPromptProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!focusedCriterionId) return;
+    containerRef.current
+      ?.querySelector(`[data-criteria~="${CSS.escape(focusedCriterionId)}"]`)
+      ?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [focusedCriterionId, annotations]);
+
+  const colorFor = (id: string) =>
+    criterionColors[
+      Math.max(0, rubric.criteria.findIndex((c) => c.id === id)) % criterionColors.length
+    ];
+  const labelFor = (id: string) => rubric.criteria.find((c) => c.id === id)?.label ?? id;
+
+  const parts: ReactNode[] = segment(text, annotations).map((part) => {
+    if (part.covering.length === 0) return part.text;
+
+    const first = part.covering[0];
+    const focused = part.covering.some((a) => a.criterionId === focusedCriterionId);
+    const worst =
+      part.covering.find((a) => a.severity === "error") ??
+      part.covering.find((a) => a.severity === "warning") ??
+      first;
+
+    return (
+      <mark
+        key={part.start}
+        data-criteria={part.covering.map((a) => a.criterionId).join(" ")}
+        title={part.covering
+          .map((a) => `${labelFor(a.criterionId)} (${a.severity}): ${a.comment}`)
+          .join("\n")}
+        onClick={() => onSelectCriterion(first.criterionId)}
+        className={`cursor-pointer rounded-sm text-slate-800 ${colorFor(
+          first.criterionId,
+        )} ${severityUnderline[worst.severity]} ${
+          focused ? "ring-2 ring-violet-500" : focusedCriterionId ? "opacity-50" : ""
+        }`}
+      >
+        {part.text}
+      </mark>
+    );
+  });
+
+  return (
+    <div
+      ref={containerRef}
+      className="mt-4 h-56 w-full overflow-y-auto rounded-2xl border border-violet-100 bg-white p-4 text-sm whitespace-pre-wrap break-words text-slate-800 shadow-inner"
+    >
+      {parts}
+    </div>
+  );
+}
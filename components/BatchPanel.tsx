@@ -0,0 +1,199 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { toResultsCsv } from "@/lib/batch/csv";
+import type { BatchResult } from "@/lib/batch/types";
+import type { ProviderId } from "@/lib/providers/types";
+import type { Rubric } from "@/lib/rubrics/types";
+import { getSessionId } from "@/lib/session";
+import { readServerSentEvents } from "@/lib/sse";
+
+type BatchPanelProps = {
+  rubricId: string;
+  provider: ProviderId | "auto";
+};
+
+export default function BatchPanel({ rubricId, provider }: BatchPanelProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [total, setTotal] = useState(0);
+  const [results, setResults] = useState<BatchResult[]>([]);
+  const [rubric, setRubric] = useState<Rubric | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const done = results.filter(Boolean).length;
+
+  async function handleRun() {
+    if (!file) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setError(null);
+    setResults([]);
+    setTotal(0);
+
+    const form = new FormData();
+    form.append("file", file);
+    form.append("rubric", rubricId);
+    if (provider !== "auto") form.append("provider", provider);
+
+    try {
+      const response = await fetch("/api/analyze/batch", {
+        method: "POST",
+        headers: { Accept: "text/event-stream", "X-Session-Id": getSessionId() },
+        body: form,
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => null);
+        const retryAfter = response.headers.get("Retry-After");
+        throw new Error(
+          `${data?.error ?? "Failed to run batch."}${
+            retryAfter ? ` Try again in ${retryAfter}s.` : ""
+          }`,
+        );
+      }
+
+      for await (const message of readServerSentEvents(response.body)) {
+        const data = JSON.parse(message.data);
+        if (message.event === "start") {
+          setTotal(data.total);
+          setRubric(data.rubric);
+        } else if (message.event === "item") {
+          setResults((current) => {
+            const next = [...current];
+            next[data.index] = data.result;
+            return next;
+          });
+        } else if (message.event === "error") {
+          throw new Error(data.error);
+        }
+      }
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : "Failed to run batch.");
+      }
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  }
+
+  function handleDownload() {
+    if (!rubric) return;
+    const csv = toResultsCsv(results.filter(Boolean), rubric);
+    const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `prompt-scores-${rubric.id}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <div className="flex flex-col gap-3 text-xs text-slate-700">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="file"
+          accept=".csv,.jsonl,.ndjson,text/csv"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          className="text-[11px] file:mr-2 file:rounded-full file:border-0 file:bg-violet-50 file:px-3 file:py-1 file:text-violet-700"
+        />
+        <button
+          type="button"
+          onClick={handleRun}
+          disabled={!file || isRunning}
+          className="rounded-full bg-violet-500 px-4 py-1.5 font-medium text-white shadow-sm transition hover:bg-violet-400 disabled:cursor-not-allowed disabled:bg-violet-300/60"
+        >
+          {isRunning ? "Scoring…" : "Score file"}
+        </button>
+        {isRunning && (
+          <button
+            type="button"
+            onClick={() => abortRef.current?.abort()}
+            className="rounded-full bg-rose-50 px-4 py-1.5 font-medium text-rose-600 hover:bg-rose-100"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={handleDownload}
+          disabled={done === 0 || isRunning}
+          className="rounded-full bg-violet-50 px-4 py-1.5 font-medium text-violet-700 hover:bg-violet-100 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          Download CSV
+        </button>
+      </div>
+      <p className="text-[11px] text-slate-500">
+        CSV with <code>id</code> and <code>prompt</code> columns, or JSONL with
+        one <code>{"{ \"id\", \"prompt\" }"}</code> object per line.
+      </p>
+
+      {total > 0 && (
+        <div>
+          <div className="flex justify-between text-[11px] text-slate-500">
+            <span>
+              {done}/{total} scored
+            </span>
+            <span>
+              {results.filter((r) => r?.status === "error").length} failed
+            </span>
+          </div>
+          <div className="mt-1 h-1.5 w-full overflow-hidden rounded-full bg-violet-100">
+            <div
+              className="h-full rounded-full bg-violet-500 transition-all"
+              style={{ width: `${(done / total) * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-rose-400">{error}</p>}
+
+      {done > 0 && rubric && (
+        <div className="max-h-64 overflow-auto">
+          <table className="w-full text-[11px]">
+            <thead>
+              <tr className="text-left text-violet-500">
+                <th className="pr-2">id</th>
+                <th className="pr-2">Overall</th>
+                {rubric.criteria.map((c) => (
+                  <th key={c.id} className="pr-2">
+                    {c.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((r) =>
+                !r ? null : (
+                  <tr key={r.id} className="border-t border-violet-50">
+                    <td className="pr-2 font-medium">{r.id}</td>
+                    {r.status === "ok" ? (
+                      <>
+                        <td className="pr-2 font-semibold">{r.analysis.overallScore}</td>
+                        {rubric.criteria.map((c) => (
+                          <td key={c.id} className="pr-2">
+                            {r.analysis.criteria.find((s) => s.id === c.id)?.score ?? "–"}
+                          </td>
+                        ))}
+                      </>
+                    ) : (
+                      <td colSpan={rubric.criteria.length + 1} className="text-rose-400">
+                        {r.error}
+                      </td>
+                    )}
+                  </tr>
+                ),
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
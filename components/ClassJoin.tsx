@@ -0,0 +1,150 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import type { Analysis } from "@/lib/analysis/types";
+import { passes } from "@/lib/classroom/passing";
+import type { AssignmentRef, PublicAssignment } from "@/lib/classroom/types";
+
+export type JoinedClass = {
+  ref: AssignmentRef;
+  assignment: PublicAssignment;
+};
+
+type ClassJoinProps = {
+  joined: JoinedClass | null;
+  onJoin: (joined: JoinedClass | null) => void;
+  // The latest analysis, checked against the passing scores.
+  analysis: Analysis | null;
+};
+
+const inputClass =
+  "rounded-full border border-violet-100 bg-white px-3 py-1.5 text-xs text-slate-800 outline-none focus:border-violet-400";
+
+/**
+ * Joins a classroom assignment with its code. While joined, every analysis
+ * is submitted to the assignment under the student's name.
+ */
+export default function ClassJoin({ joined, onJoin, analysis }: ClassJoinProps) {
+  const [code, setCode] = useState("");
+  const [student, setStudent] = useState("");
+  const [passcode, setPasscode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  async function join() {
+    setError(null);
+    try {
+      const response = await fetch(`/api/classroom/${encodeURIComponent(code.trim())}`);
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error ?? "Could not find that assignment.");
+      onJoin({
+        ref: { code: code.trim().toUpperCase(), student: student.trim(), passcode },
+        assignment: data.assignment,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not find that assignment.");
+    }
+  }
+
+  if (joined) {
+    const { assignment } = joined;
+    const thresholds = Object.entries(assignment.passingScores);
+    return (
+      <div className="flex flex-col gap-2 text-xs text-slate-700">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <p className="font-semibold text-violet-700">{assignment.title}</p>
+            <p className="text-[11px] text-slate-500">
+              Submitting as {joined.ref.student} · code {assignment.code}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => onJoin(null)}
+            className="rounded-full bg-violet-50 px-3 py-1 text-[11px] text-violet-700 hover:bg-violet-100"
+          >
+            Leave
+          </button>
+        </div>
+        <p className="whitespace-pre-wrap rounded-2xl bg-violet-50 p-3">{assignment.task}</p>
+        {thresholds.length > 0 && (
+          <ul className="flex flex-wrap gap-1 text-[11px]">
+            {thresholds.map(([id, min]) => {
+              const score = analysis?.criteria.find((c) => c.id === id);
+              return (
+                <li
+                  key={id}
+                  className={`rounded-full px-2 py-0.5 ${
+                    !score
+                      ? "bg-slate-100 text-slate-500"
+                      : score.score >= min
+                        ? "bg-emerald-50 text-emerald-700"
+                        : "bg-rose-50 text-rose-600"
+                  }`}
+                >
+                  {score?.label ?? id} ≥ {min}
+                  {score && ` (${score.score})`}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        {analysis && (
+          <p className={passes(assignment, analysis) ? "text-emerald-600" : "text-rose-500"}>
+            {passes(assignment, analysis)
+              ? "Your last submission meets every passing score."
+              : "Your last submission is below a passing score; revise and analyze again."}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        join();
+      }}
+      className="flex flex-col gap-2"
+    >
+      <div className="flex flex-wrap gap-2">
+        <input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="Join code"
+          className={`${inputClass} w-28 uppercase`}
+        />
+        <input
+          value={student}
+          onChange={(e) => setStudent(e.target.value)}
+          placeholder="Your name"
+          className={`${inputClass} flex-1`}
+        />
+        <input
+          type="password"
+          value={passcode}
+          onChange={(e) => setPasscode(e.target.value)}
+          placeholder="Passcode (8+ characters)"
+          className={`${inputClass} flex-1`}
+        />
+        <button
+          type="submit"
+          disabled={!code.trim() || !student.trim() || passcode.length < 8}
+          className="rounded-full bg-violet-500 px-4 py-1.5 text-xs font-medium text-white hover:bg-violet-400 disabled:cursor-not-allowed disabled:bg-violet-300/60"
+        >
+          Join
+        </button>
+      </div>
+      <p className="text-[11px] text-slate-500">
+        Your first submission sets the passcode for your name; use the same one
+        next time. Instructors create assignments on the{" "}
+        <Link href="/classroom" className="text-violet-600 underline">
+          classroom page
+        </Link>
+        .
+      </p>
+      {error && <p className="text-[11px] text-rose-400">{error}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,151 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import type { Dashboard, SubmissionSummary } from "@/lib/classroom/dashboard";
+
+type ClassroomDashboardProps = {
+  dashboard: Dashboard;
+  onRefresh: () => void;
+};
+
+function Verdict({ submission }: { submission: SubmissionSummary }) {
+  return (
+    <span className={submission.passed ? "text-emerald-600" : "text-rose-500"}>
+      {submission.overallScore}/100 {submission.passed ? "pass" : "below"}
+    </span>
+  );
+}
+
+/**
+ * An assignment's results: class averages per criterion against the passing
+ * scores, the weakest criteria and each student's best and latest prompt.
+ */
+export default function ClassroomDashboard({ dashboard, onRefresh }: ClassroomDashboardProps) {
+  const [openStudent, setOpenStudent] = useState<string | null>(null);
+  const { assignment, criteria, weakest, students } = dashboard;
+
+  return (
+    <div className="flex flex-col gap-5 text-xs text-slate-700">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h2 className="text-sm font-semibold text-violet-700">{assignment.title}</h2>
+          <p className="text-[11px] text-slate-500">
+            Join code <span className="font-mono font-semibold">{assignment.code}</span> ·{" "}
+            {students.length} student(s) · {dashboard.submissions} submission(s)
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onRefresh}
+          className="rounded-full bg-violet-50 px-3 py-1 text-[11px] text-violet-700 hover:bg-violet-100"
+        >
+          Refresh
+        </button>
+      </div>
+
+      <section>
+        <h3 className="mb-2 font-semibold text-violet-700">Class averages (latest submissions)</h3>
+        <div className="grid gap-2">
+          {criteria.map((c) => (
+            <div key={c.id} className="grid grid-cols-[8rem,1fr,6rem] items-center gap-2">
+              <span>{c.label}</span>
+              <div className="relative h-2 rounded-full bg-violet-100">
+                <div
+                  className={`h-full rounded-full ${
+                    c.average >= c.passingScore ? "bg-emerald-400" : "bg-rose-400"
+                  }`}
+                  style={{ width: `${c.average}%` }}
+                />
+                {c.passingScore > 0 && (
+                  <span
+                    title={`Passing score ${c.passingScore}`}
+                    className="absolute -top-1 h-4 w-0.5 bg-slate-700"
+                    style={{ left: `${c.passingScore}%` }}
+                  />
+                )}
+              </div>
+              <span className="text-right text-[11px] text-slate-500">
+                {c.average} · {Math.round(c.passRate * 100)}% pass
+              </span>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      {weakest.length > 0 && (
+        <section>
+          <h3 className="mb-1 font-semibold text-violet-700">Weakest across the class</h3>
+          <ol className="list-decimal pl-5">
+            {weakest.map((c) => (
+              <li key={c.id}>
+                {c.label}: average {c.average}
+                {c.passingScore > 0 && ` against a passing score of ${c.passingScore}`}
+              </li>
+            ))}
+          </ol>
+        </section>
+      )}
+
+      <section>
+        <h3 className="mb-2 font-semibold text-violet-700">Students</h3>
+        {students.length === 0 ? (
+          <p className="text-slate-500">No submissions yet. Share the join code with your class.</p>
+        ) : (
+          <table className="w-full border-collapse text-left">
+            <thead>
+              <tr className="border-b border-violet-200 text-violet-700">
+                <th className="py-1 pr-3">Student</th>
+                <th className="py-1 pr-3">Submissions</th>
+                <th className="py-1 pr-3">Best</th>
+                <th className="py-1">Latest</th>
+              </tr>
+            </thead>
+            <tbody>
+              {students.map((s) => (
+                <Fragment key={s.name}>
+                  <tr
+                    onClick={() => setOpenStudent(openStudent === s.name ? null : s.name)}
+                    className="cursor-pointer border-b border-violet-100 hover:bg-violet-50"
+                  >
+                    <td className="py-1.5 pr-3 font-semibold">{s.name}</td>
+                    <td className="py-1.5 pr-3">{s.submissions}</td>
+                    <td className="py-1.5 pr-3">
+                      <Verdict submission={s.best} />
+                    </td>
+                    <td className="py-1.5">
+                      <Verdict submission={s.latest} />{" "}
+                      <span className="text-slate-400">
+                        {new Date(s.latest.createdAt).toLocaleString()}
+                      </span>
+                    </td>
+                  </tr>
+                  {openStudent === s.name && (
+                    <tr className="border-b border-violet-100">
+                      <td colSpan={4} className="py-2">
+                        <div className="grid gap-2 md:grid-cols-2">
+                          {(
+                            [
+                              ["Best", s.best],
+                              ["Latest", s.latest],
+                            ] as const
+                          ).map(([label, submission]) => (
+                            <div key={label}>
+                              <p className="mb-1 font-semibold text-violet-600">{label}</p>
+                              <pre className="whitespace-pre-wrap break-words rounded-xl bg-violet-50 p-2 font-mono text-[11px]">
+                                {submission.prompt}
+                              </pre>
+                            </div>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+}
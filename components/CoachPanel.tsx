@@ -0,0 +1,200 @@
+"use client";
+
+import { useState } from "react";
+import ReactMarkdown from "react-markdown";
+import type { Analysis } from "@/lib/analysis/types";
+import type { CoachMessage, CoachReply } from "@/lib/coach/types";
+import type { ProviderId } from "@/lib/providers/types";
+import type { ScanMode } from "@/lib/scanner";
+import { getSessionId } from "@/lib/session";
+
+type CoachPanelProps = {
+  prompt: string;
+  analysis: Analysis | null;
+  provider: ProviderId | "auto";
+  scanMode: ScanMode;
+  // Puts a proposed prompt (and its analysis) into the editor.
+  onApply: (prompt: string, analysis?: Analysis) => void;
+};
+
+type ChatMessage = CoachMessage & {
+  analysis?: Analysis;
+  // Overall score of the prompt the reply was about, for comparison.
+  previousScore?: number;
+};
+
+const starters = [
+  "Why is my lowest criterion weak?",
+  "Make it more formal",
+  "Keep it under 150 words",
+];
+
+/**
+ * Chat about the current prompt and its analysis. Replies either explain the
+ * scores or propose a revised prompt that comes with its own analysis.
+ */
+export default function CoachPanel({
+  prompt,
+  analysis,
+  provider,
+  scanMode,
+  onApply,
+}: CoachPanelProps) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [draft, setDraft] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function send(text: string) {
+    if (!analysis || !text.trim()) return;
+    const next: ChatMessage[] = [...messages, { role: "user", content: text.trim() }];
+    setMessages(next);
+    setDraft("");
+    setIsSending(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/coach", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Session-Id": getSessionId() },
+        body: JSON.stringify({
+          prompt,
+          analysis,
+          provider: provider === "auto" ? undefined : provider,
+          scanMode,
+          messages: next.map(({ role, content, revisedPrompt }) => ({
+            role,
+            content,
+            revisedPrompt,
+          })),
+        }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        const retryAfter = response.headers.get("Retry-After");
+        throw new Error(
+          `${data?.error ?? "The coach could not answer."}${
+            retryAfter ? ` Try again in ${retryAfter}s.` : ""
+          }`,
+        );
+      }
+      const reply = data as CoachReply;
+      setMessages([
+        ...next,
+        { role: "assistant", ...reply, previousScore: analysis.overallScore },
+      ]);
+    } catch (err) {
+      // Drop the unanswered question so it can be sent again.
+      setMessages(messages);
+      setDraft(text);
+      setError(err instanceof Error ? err.message : "The coach could not answer.");
+    } finally {
+      setIsSending(false);
+    }
+  }
+
+  if (!analysis) {
+    return (
+      <p className="text-[11px] text-slate-500">
+        Analyze a prompt first, then ask the coach about its scores or for a
+        different rewrite.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3 text-xs text-slate-700">
+      <div className="flex max-h-96 flex-col gap-2 overflow-y-auto">
+        {messages.map((m, i) =>
+          m.role === "user" ? (
+            <p
+              key={i}
+              className="self-end rounded-2xl rounded-br-sm bg-violet-500 px-3 py-2 text-white"
+            >
+              {m.content}
+            </p>
+          ) : (
+            <div
+              key={i}
+              className="self-start rounded-2xl rounded-bl-sm bg-violet-50 px-3 py-2 ring-1 ring-violet-100"
+            >
+              <div className="space-y-1 leading-relaxed">
+                <ReactMarkdown>{m.content}</ReactMarkdown>
+              </div>
+              {m.revisedPrompt && (
+                <div className="mt-2 rounded-xl bg-white p-2 ring-1 ring-violet-100">
+                  <pre className="whitespace-pre-wrap break-words font-mono text-[11px]">
+                    {m.revisedPrompt}
+                  </pre>
+                  <div className="mt-2 flex items-center justify-between gap-2">
+                    {m.analysis && (
+                      <span className="text-[11px] text-slate-500">
+                        Scores {m.analysis.overallScore}/100 (was {m.previousScore})
+                      </span>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => onApply(m.revisedPrompt!, m.analysis)}
+                      className="rounded-full bg-violet-500 px-3 py-1 text-[11px] font-medium text-white hover:bg-violet-400"
+                    >
+                      Apply to editor
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ),
+        )}
+        {isSending && <p className="self-start text-slate-400">Coach is thinking…</p>}
+      </div>
+
+      {messages.length === 0 && (
+        <div className="flex flex-wrap gap-1">
+          {starters.map((s) => (
+            <button
+              key={s}
+              type="button"
+              onClick={() => send(s)}
+              className="rounded-full bg-violet-50 px-3 py-1 text-[11px] text-violet-700 hover:bg-violet-100"
+            >
+              {s}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-rose-400">{error}</p>}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          send(draft);
+        }}
+        className="flex gap-2"
+      >
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Ask why something scored low, or ask for a change…"
+          className="flex-1 rounded-full border border-violet-100 bg-white px-3 py-1.5 outline-none focus:border-violet-400"
+        />
+        <button
+          type="submit"
+          disabled={isSending || !draft.trim()}
+          className="rounded-full bg-violet-500 px-4 py-1.5 font-medium text-white hover:bg-violet-400 disabled:cursor-not-allowed disabled:bg-violet-300/60"
+        >
+          Send
+        </button>
+        {messages.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setMessages([])}
+            className="rounded-full bg-violet-50 px-3 py-1.5 text-violet-700 hover:bg-violet-100"
+          >
+            New chat
+          </button>
+        )}
+      </form>
+    </div>
+  );
+}
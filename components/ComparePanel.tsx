@@ -0,0 +1,159 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import ReactMarkdown from "react-markdown";
+import type { CompareResult, CompareSide } from "@/lib/compare/types";
+import type { TargetModel } from "@/lib/providers";
+import { getSessionId } from "@/lib/session";
+
+type ComparePanelProps = {
+  originalPrompt: string;
+  improvedPrompt: string;
+};
+
+const sideLabels: Record<CompareSide, string> = {
+  original: "Original prompt",
+  improved: "Improved prompt",
+};
+
+const targetKey = (t: TargetModel) => `${t.provider}:${t.model}`;
+
+export default function ComparePanel({
+  originalPrompt,
+  improvedPrompt,
+}: ComparePanelProps) {
+  const [targets, setTargets] = useState<TargetModel[]>([]);
+  const [selected, setSelected] = useState<string>("");
+  const [withJudge, setWithJudge] = useState(true);
+  const [result, setResult] = useState<CompareResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/compare")
+      .then((res) => res.json())
+      .then((data: { targets: TargetModel[] }) => {
+        setTargets(data.targets);
+        if (data.targets[0]) setSelected(targetKey(data.targets[0]));
+      })
+      .catch((err) => console.warn("[Prompt Analyzer] Could not load targets:", err));
+  }, []);
+
+  // A new improved prompt makes the previous comparison stale.
+  useEffect(() => {
+    setResult(null);
+  }, [improvedPrompt]);
+
+  async function handleCompare() {
+    const target = targets.find((t) => targetKey(t) === selected);
+    if (!target) return;
+
+    setIsRunning(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/compare", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Session-Id": getSessionId() },
+        body: JSON.stringify({
+          prompt: originalPrompt,
+          improvedPrompt,
+          target: { provider: target.provider, model: target.model },
+          judge: withJudge,
+        }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        const retryAfter = response.headers.get("Retry-After");
+        throw new Error(
+          `${data?.error ?? "Failed to compare prompts."}${
+            retryAfter ? ` Try again in ${retryAfter}s.` : ""
+          }`,
+        );
+      }
+      setResult(data as CompareResult);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to compare prompts.");
+    } finally {
+      setIsRunning(false);
+    }
+  }
+
+  if (targets.length === 0) {
+    return (
+      <p className="text-[11px] text-slate-500">
+        Compare mode needs a model-backed provider. Set GEMINI_API_KEY on the
+        server to enable it.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3 text-xs text-slate-700">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={selected}
+          onChange={(e) => setSelected(e.target.value)}
+          className="rounded-full bg-violet-500/15 px-3 py-1 text-violet-700 outline-none"
+        >
+          {targets.map((t) => (
+            <option key={targetKey(t)} value={targetKey(t)}>
+              {t.label}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 text-[11px] text-slate-500">
+          <input
+            type="checkbox"
+            checked={withJudge}
+            onChange={(e) => setWithJudge(e.target.checked)}
+          />
+          Ask a judge model
+        </label>
+        <button
+          type="button"
+          onClick={handleCompare}
+          disabled={isRunning || !improvedPrompt.trim()}
+          className="rounded-full bg-violet-500 px-4 py-1.5 font-medium text-white shadow-sm transition hover:bg-violet-400 disabled:cursor-not-allowed disabled:bg-violet-300/60"
+        >
+          {isRunning ? "Running both…" : "Compare outputs"}
+        </button>
+      </div>
+
+      {error && <p className="text-rose-400">{error}</p>}
+
+      {result?.verdict && (
+        <div className="rounded-2xl bg-violet-50 p-3 ring-1 ring-violet-100">
+          <p className="font-semibold text-violet-700">
+            {result.verdict.winner === "tie"
+              ? "Judge verdict: tie"
+              : `Judge prefers the ${result.verdict.winner} prompt`}{" "}
+            <span className="font-normal text-slate-500">
+              ({result.verdict.scores.original} vs {result.verdict.scores.improved},
+              judged by {result.verdict.judge.label})
+            </span>
+          </p>
+          <p className="mt-1 text-slate-600">{result.verdict.reasoning}</p>
+        </div>
+      )}
+      {result?.judgeError && (
+        <p className="text-[11px] text-amber-600">Judge unavailable: {result.judgeError}</p>
+      )}
+
+      {result && (
+        <div className="grid gap-3 md:grid-cols-2">
+          {(["original", "improved"] as const).map((side) => (
+            <div key={side} className="rounded-2xl bg-white p-3 ring-1 ring-violet-100">
+              <div className="flex items-center justify-between text-[11px] text-violet-500">
+                <span className="font-semibold">{sideLabels[side]}</span>
+                <span>{(result[side].durationMs / 1000).toFixed(1)}s</span>
+              </div>
+              <div className="mt-2 max-h-80 space-y-2 overflow-auto text-[11px] leading-relaxed">
+                <ReactMarkdown>{result[side].text}</ReactMarkdown>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
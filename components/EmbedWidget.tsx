@@ -0,0 +1,202 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import HighlightedTextarea from "@/components/HighlightedTextarea";
+import { useLocale } from "@/components/LocaleProvider";
+import type { Analysis } from "@/lib/analysis/types";
+import {
+  EMBED_RESIZE_MESSAGE,
+  type EmbedAccent,
+  type EmbedSettings,
+  type EmbedTheme,
+} from "@/lib/embed/settings";
+import { scanPrompt } from "@/lib/scanner";
+
+type EmbedWidgetProps = {
+  settings: EmbedSettings;
+  rubricName: string;
+};
+
+const themeClass: Record<EmbedTheme, { page: string; card: string; muted: string; track: string }> = {
+  light: {
+    page: "bg-white text-slate-800",
+    card: "bg-slate-50 ring-slate-200",
+    muted: "text-slate-500",
+    track: "bg-slate-200",
+  },
+  dark: {
+    page: "bg-slate-950 text-slate-100",
+    card: "bg-slate-900 ring-slate-700",
+    muted: "text-slate-400",
+    track: "bg-slate-700",
+  },
+};
+
+const accentClass: Record<EmbedAccent, { button: string; text: string; bar: string }> = {
+  violet: { button: "bg-violet-500 hover:bg-violet-400", text: "text-violet-500", bar: "bg-violet-500" },
+  sky: { button: "bg-sky-500 hover:bg-sky-400", text: "text-sky-500", bar: "bg-sky-500" },
+  emerald: {
+    button: "bg-emerald-500 hover:bg-emerald-400",
+    text: "text-emerald-500",
+    bar: "bg-emerald-500",
+  },
+  amber: { button: "bg-amber-500 hover:bg-amber-400", text: "text-amber-500", bar: "bg-amber-500" },
+  rose: { button: "bg-rose-500 hover:bg-rose-400", text: "text-rose-500", bar: "bg-rose-500" },
+};
+
+/**
+ * The analyzer's textarea and results card for other sites to frame. Grades
+ * through /api/analyze and tells the parent page its height so the iframe can
+ * grow with the results.
+ */
+export default function EmbedWidget({ settings, rubricName }: EmbedWidgetProps) {
+  const { t } = useLocale();
+  const [prompt, setPrompt] = useState("");
+  const [analysis, setAnalysis] = useState<Analysis | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  const findings = useMemo(() => scanPrompt(prompt), [prompt]);
+  const theme = themeClass[settings.theme];
+  const accent = accentClass[settings.accent];
+
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!root || window.parent === window) return;
+    const observer = new ResizeObserver(() => {
+      // Only the height leaves the frame, so any parent may receive it.
+      window.parent.postMessage(
+        { type: EMBED_RESIZE_MESSAGE, height: Math.ceil(root.getBoundingClientRect().height) },
+        "*",
+      );
+    });
+    observer.observe(root);
+    return () => observer.disconnect();
+  }, []);
+
+  async function handleAnalyze() {
+    if (!prompt.trim() || isAnalyzing) return;
+    setIsAnalyzing(true);
+    setError(null);
+    setCopied(false);
+    try {
+      const response = await fetch("/api/analyze", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ prompt, rubric: settings.rubric }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(typeof data?.error === "string" ? data.error : "The analysis failed.");
+        return;
+      }
+      setAnalysis(data as Analysis);
+    } catch {
+      setError("Could not reach the analyzer.");
+    } finally {
+      setIsAnalyzing(false);
+    }
+  }
+
+  async function handleCopy() {
+    if (!analysis?.improvedPrompt.trim()) return;
+    try {
+      await navigator.clipboard.writeText(analysis.improvedPrompt);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      setCopied(false);
+    }
+  }
+
+  return (
+    <div ref={rootRef} className={`flex flex-col gap-4 p-4 text-xs ${theme.page}`}>
+      {!settings.compact && (
+        <div className="flex items-center justify-between gap-2">
+          <span className={`text-sm font-semibold ${accent.text}`}>Prompt Analyzer</span>
+          <span className={theme.muted}>{rubricName} rubric</span>
+        </div>
+      )}
+
+      <div>
+        <HighlightedTextarea
+          value={prompt}
+          onChange={setPrompt}
+          highlights={findings}
+          placeholder="Describe your task, context, and desired output…"
+          dark={settings.theme === "dark"}
+        />
+        <div className="mt-2 flex items-center justify-between gap-2">
+          <span className={theme.muted}>{prompt.trim().length} characters</span>
+          <button
+            type="button"
+            onClick={handleAnalyze}
+            disabled={!prompt.trim() || isAnalyzing}
+            className={`rounded-full px-4 py-1.5 font-medium text-white shadow-sm transition disabled:cursor-not-allowed disabled:opacity-50 ${accent.button}`}
+          >
+            {isAnalyzing ? t.ui.analyzing : t.ui.analyze}
+          </button>
+        </div>
+        {error && <p className="mt-2 text-rose-500">{error}</p>}
+      </div>
+
+      {analysis && (
+        <div className={`flex flex-col gap-3 rounded-2xl p-4 ring-1 ${theme.card}`}>
+          <div>
+            <p className={`font-semibold ${accent.text}`}>{t.ui.overallScore}</p>
+            <p className="text-2xl font-bold">{analysis.overallScore}/100</p>
+            <p className={theme.muted}>
+              {t.overall[analysis.overallLabel] ?? analysis.overallLabel}
+            </p>
+          </div>
+
+          <ul className="grid gap-2">
+            {analysis.criteria.map((c) => (
+              <li key={c.id}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold">{t.criteria[c.id] ?? c.label}</span>
+                  <span className={theme.muted}>
+                    {c.score}/100 · {t.levels[c.level]}
+                  </span>
+                </div>
+                <div className={`mt-1 h-1.5 overflow-hidden rounded-full ${theme.track}`}>
+                  <div className={`h-full ${accent.bar}`} style={{ width: `${c.score}%` }} />
+                </div>
+                <p dir="auto" className={`mt-1 text-[11px] ${theme.muted}`}>
+                  {c.feedback}
+                </p>
+              </li>
+            ))}
+          </ul>
+
+          {analysis.improvedPrompt.trim() && (
+            <div>
+              <div className="flex items-center justify-between gap-2">
+                <span className={`font-semibold ${accent.text}`}>{t.ui.readyToCopy}</span>
+                <button
+                  type="button"
+                  onClick={handleCopy}
+                  className={`rounded-full px-3 py-1 font-medium text-white ${accent.button}`}
+                >
+                  {copied ? t.ui.copied : t.ui.copy}
+                </button>
+              </div>
+              <pre
+                dir="auto"
+                className="mt-2 whitespace-pre-wrap break-words font-mono text-[11px] leading-relaxed"
+              >
+                {analysis.improvedPrompt}
+              </pre>
+            </div>
+          )}
+        </div>
+      )}
+
+      <a href="/" target="_blank" rel="noopener" className={`self-end text-[10px] ${theme.muted}`}>
+        Powered by Prompt Analyzer
+      </a>
+    </div>
+  );
+}
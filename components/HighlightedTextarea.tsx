@@ -0,0 +1,88 @@
+"use client";
+
+import { useRef, type ReactNode } from "react";
+import type { FindingKind } from "@/lib/scanner";
+
+// Template placeholders are marked alongside scanner findings.
+export type HighlightKind = FindingKind | "placeholder";
+
+export type Highlight = { start: number; end: number; kind: HighlightKind };
+
+type HighlightedTextareaProps = {
+  value: string;
+  onChange: (value: string) => void;
+  // Sorted by start; overlapping ranges are skipped.
+  highlights: Highlight[];
+  placeholder?: string;
+  // For dark backgrounds such as the embed widget's dark theme.
+  dark?: boolean;
+};
+
+const markClass: Record<HighlightKind, string> = {
+  secret: "bg-rose-200/80",
+  pii: "bg-amber-200/80",
+  injection: "bg-sky-200/80",
+  placeholder: "bg-emerald-200/80",
+};
+
+// Both layers must wrap text identically for the marks to line up.
+const layerClass =
+  "h-full w-full overflow-y-auto whitespace-pre-wrap break-words p-4 text-sm [scrollbar-gutter:stable]";
+
+/**
+ * Textarea with highlighted ranges. A backdrop renders the same text with
+ * <mark> spans behind a transparent textarea and follows its scrolling.
+ */
+export default function HighlightedTextarea({
+  value,
+  onChange,
+  highlights,
+  placeholder,
+  dark,
+}: HighlightedTextareaProps) {
+  const backdropRef = useRef<HTMLDivElement>(null);
+
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  for (const h of highlights) {
+    if (h.start < cursor || h.end > value.length) continue;
+    parts.push(value.slice(cursor, h.start));
+    parts.push(
+      <mark key={h.start} className={`rounded-sm text-transparent ${markClass[h.kind]}`}>
+        {value.slice(h.start, h.end)}
+      </mark>,
+    );
+    cursor = h.end;
+  }
+  // A trailing newline needs a character after it to take up a line.
+  parts.push(`${value.slice(cursor)}\u200b`);
+
+  return (
+    <div
+      className={`relative mt-4 h-56 w-full rounded-2xl border shadow-inner focus-within:border-violet-400 focus-within:ring-1 focus-within:ring-violet-400 ${
+        dark ? "border-slate-700 bg-slate-900" : "border-violet-100 bg-white"
+      }`}
+    >
+      <div
+        ref={backdropRef}
+        aria-hidden
+        className={`pointer-events-none absolute inset-0 text-transparent ${layerClass}`}
+      >
+        {parts}
+      </div>
+      <textarea
+        className={`relative resize-none bg-transparent outline-none ${
+          dark ? "text-slate-100 placeholder:text-slate-500" : "text-slate-800"
+        } ${layerClass}`}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onScroll={(e) => {
+          if (backdropRef.current) {
+            backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+          }
+        }}
+        placeholder={placeholder}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+"use client";
+
+import { useState } from "react";
+import { useWordDiff } from "@/components/useWordDiff";
+import { groupIntoChains } from "@/lib/history/chains";
+import type { HistoryEntry } from "@/lib/history/types";
+
+type HistoryPanelProps = {
+  entries: HistoryEntry[];
+  currentEntryId: string | null;
+  onSelect: (entry: HistoryEntry) => void;
+  onNewChain: () => void;
+  onClear: () => void;
+};
+
+function scoreColor(score: number): string {
+  if (score >= 80) return "text-emerald-500";
+  if (score >= 50) return "text-amber-500";
+  return "text-rose-400";
+}
+
+function formatDelta(delta: number): string {
+  return delta > 0 ? `+${delta}` : `${delta}`;
+}
+
+export default function HistoryPanel({
+  entries,
+  currentEntryId,
+  onSelect,
+  onNewChain,
+  onClear,
+}: HistoryPanelProps) {
+  const chains = groupIntoChains(entries);
+  const current = entries.find((e) => e.id === currentEntryId) ?? null;
+  const [chainId, setChainId] = useState<string | null>(null);
+  const [pick, setPick] = useState<{ from: string | null; to: string | null }>({
+    from: null,
+    to: null,
+  });
+
+  const chain =
+    chains.find((c) => c.chainId === (chainId ?? current?.chainId)) ?? chains[0];
+  const revisions = chain?.entries ?? [];
+  const from =
+    revisions.find((e) => e.id === pick.from) ??
+    revisions[Math.max(0, revisions.length - 2)];
+  const to = revisions.find((e) => e.id === pick.to) ?? revisions[revisions.length - 1];
+  const diff = useWordDiff(from?.prompt ?? "", to?.prompt ?? "");
+
+  if (!chain) {
+    return (
+      <p className="text-xs text-slate-500">
+        Every analysis you run is saved here so you can see how your prompt
+        evolves.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4 text-xs text-slate-700">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={chain.chainId}
+          onChange={(e) => {
+            setChainId(e.target.value);
+            setPick({ from: null, to: null });
+          }}
+          className="max-w-xs rounded-full bg-violet-50 px-3 py-1 text-violet-700 outline-none"
+        >
+          {chains.map((c) => (
+            <option key={c.chainId} value={c.chainId}>
+              {c.entries[0].prompt.trim().slice(0, 40) || "(empty prompt)"} ·{" "}
+              {c.entries.length} rev.
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={onNewChain}
+          className="rounded-full bg-violet-50 px-3 py-1 font-medium text-violet-700 hover:bg-violet-100"
+        >
+          Start new prompt
+        </button>
+        <button
+          type="button"
+          onClick={onClear}
+          className="rounded-full bg-rose-50 px-3 py-1 font-medium text-rose-600 hover:bg-rose-100"
+        >
+          Clear history
+        </button>
+      </div>
+
+      {/* Timeline of scores per criterion */}
+      <div className="overflow-x-auto">
+        <table className="w-full border-separate border-spacing-y-1 text-[11px]">
+          <thead>
+            <tr className="text-violet-500">
+              <th className="text-left font-semibold">Criterion</th>
+              {revisions.map((r, i) => (
+                <th key={r.id} className="px-1 font-semibold">
+                  <button
+                    type="button"
+                    onClick={() => onSelect(r)}
+                    title={new Date(r.createdAt).toLocaleString()}
+                    className={`rounded-full px-2 ${
+                      r.id === currentEntryId
+                        ? "bg-violet-500 text-white"
+                        : "hover:bg-violet-100"
+                    }`}
+                  >
+                    r{i + 1}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <tr>
+              <td className="font-semibold">Overall</td>
+              {revisions.map((r) => (
+                <td
+                  key={r.id}
+                  className={`text-center font-semibold ${scoreColor(r.analysis.overallScore)}`}
+                >
+                  {r.analysis.overallScore}
+                </td>
+              ))}
+            </tr>
+            {revisions[revisions.length - 1].analysis.rubric.criteria.map((c) => (
+              <tr key={c.id}>
+                <td>{c.label}</td>
+                {revisions.map((r) => {
+                  const score = r.analysis.criteria.find((s) => s.id === c.id)?.score;
+                  return (
+                    <td
+                      key={r.id}
+                      className={`text-center ${score === undefined ? "text-slate-300" : scoreColor(score)}`}
+                    >
+                      {score ?? "–"}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Diff between two revisions */}
+      {revisions.length > 1 && (
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center gap-2">
+            <span className="font-semibold text-violet-700">Compare</span>
+            {(["from", "to"] as const).map((side) => (
+              <select
+                key={side}
+                value={side === "from" ? from.id : to.id}
+                onChange={(e) => setPick({ ...pick, [side]: e.target.value })}
+                className="rounded-full bg-violet-50 px-2 py-0.5 text-violet-700 outline-none"
+              >
+                {revisions.map((r, i) => (
+                  <option key={r.id} value={r.id}>
+                    r{i + 1}
+                  </option>
+                ))}
+              </select>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-2 text-[11px]">
+            {to.analysis.criteria.map((c) => {
+              const before = from.analysis.criteria.find((s) => s.id === c.id);
+              if (!before) return null;
+              const delta = c.score - before.score;
+              return (
+                <span
+                  key={c.id}
+                  className={`rounded-full px-2 py-0.5 ring-1 ring-violet-100 ${
+                    delta > 0 ? "text-emerald-600" : delta < 0 ? "text-rose-500" : "text-slate-500"
+                  }`}
+                >
+                  {c.label} {formatDelta(delta)}
+                </span>
+              );
+            })}
+            <span className="rounded-full bg-violet-50 px-2 py-0.5 font-semibold text-violet-700">
+              Overall{" "}
+              {formatDelta(to.analysis.overallScore - from.analysis.overallScore)}
+            </span>
+          </div>
+
+          <pre className="whitespace-pre-wrap break-words rounded-2xl bg-violet-50 p-3 font-mono text-[11px] leading-relaxed ring-1 ring-violet-100">
+            {diff.map((part, i) =>
+              part.type === "equal" ? (
+                <span key={i}>{part.text}</span>
+              ) : part.type === "insert" ? (
+                <ins key={i} className="bg-emerald-100 text-emerald-800 no-underline">
+                  {part.text}
+                </ins>
+              ) : (
+                <del key={i} className="bg-rose-100 text-rose-700">
+                  {part.text}
+                </del>
+              ),
+            )}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
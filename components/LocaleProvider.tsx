@@ -0,0 +1,47 @@
+"use client";
+
+import { createContext, useContext, useState } from "react";
+import { LOCALE_COOKIE, localeDirection, type Locale } from "@/lib/i18n";
+import { messages, type Messages } from "@/lib/i18n/messages";
+
+type LocaleContextValue = {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Messages;
+};
+
+const LocaleContext = createContext<LocaleContextValue | null>(null);
+
+/**
+ * Holds the interface locale. Changing it stores the choice in a cookie, so
+ * the layout renders the right `lang` and `dir` on the next load, and updates
+ * the current document right away.
+ */
+export default function LocaleProvider({
+  initialLocale,
+  children,
+}: {
+  initialLocale: Locale;
+  children: React.ReactNode;
+}) {
+  const [locale, setLocaleState] = useState(initialLocale);
+
+  function setLocale(next: Locale) {
+    setLocaleState(next);
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=31536000; samesite=lax`;
+    document.documentElement.lang = next;
+    document.documentElement.dir = localeDirection(next);
+  }
+
+  return (
+    <LocaleContext.Provider value={{ locale, setLocale, t: messages[locale] }}>
+      {children}
+    </LocaleContext.Provider>
+  );
+}
+
+export function useLocale(): LocaleContextValue {
+  const value = useContext(LocaleContext);
+  if (!value) throw new Error("useLocale must be used inside LocaleProvider.");
+  return value;
+}
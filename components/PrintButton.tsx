@@ -0,0 +1,16 @@
+"use client";
+
+/**
+ * Opens the browser's print dialog, where the page can also be saved as PDF.
+ */
+export default function PrintButton() {
+  return (
+    <button
+      type="button"
+      onClick={() => window.print()}
+      className="rounded-full bg-violet-500 px-4 py-1.5 text-xs font-medium text-white hover:bg-violet-400"
+    >
+      Print / Save as PDF
+    </button>
+  );
+}
@@ -0,0 +1,270 @@
+"use client";
+
+import { useState, type ReactNode } from "react";
+import {
+  assembleBuilderPrompt,
+  AUDIENCES,
+  builderCompleteness,
+  builderRubric,
+  emptyBuilderState,
+  FORMAT_PRESETS,
+  MAX_EXAMPLE_SLOTS,
+  TONES,
+  type BuilderState,
+} from "@/lib/builder";
+
+type PromptBuilderProps = {
+  // Called with the assembled prompt after every change.
+  onPromptChange: (prompt: string) => void;
+};
+
+const inputClass =
+  "w-full rounded-xl border border-violet-100 bg-white px-3 py-1.5 text-xs text-slate-800 outline-none focus:border-violet-400";
+
+const levelDot: Record<string, string> = {
+  missing: "bg-slate-200",
+  weak: "bg-rose-300",
+  ok: "bg-amber-300",
+  strong: "bg-emerald-400",
+};
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label className="flex flex-col gap-1 text-[11px] font-medium text-violet-700">
+      {label}
+      {children}
+    </label>
+  );
+}
+
+/**
+ * Step-by-step prompt builder: one step per criterion of the general rubric,
+ * with structured fields that are assembled into the prompt as you type.
+ */
+export default function PromptBuilder({ onPromptChange }: PromptBuilderProps) {
+  const [state, setState] = useState<BuilderState>(emptyBuilderState);
+  const [step, setStep] = useState(0);
+
+  const { steps, overall } = builderCompleteness(state);
+  const criterion = builderRubric.criteria[step];
+
+  function update(patch: Partial<BuilderState>) {
+    const next = { ...state, ...patch };
+    setState(next);
+    onPromptChange(assembleBuilderPrompt(next));
+  }
+
+  function updateExample(index: number, value: string) {
+    update({ examples: state.examples.map((e, i) => (i === index ? value : e)) });
+  }
+
+  return (
+    <div className="mt-4 flex flex-col gap-3 rounded-2xl bg-violet-50/60 p-4 ring-1 ring-violet-100">
+      <div className="flex items-center justify-between gap-3 text-[11px] text-slate-500">
+        <div className="flex flex-wrap gap-1">
+          {builderRubric.criteria.map((c, i) => (
+            <button
+              key={c.id}
+              type="button"
+              onClick={() => setStep(i)}
+              className={`flex items-center gap-1.5 rounded-full px-3 py-1 font-medium transition ${
+                i === step ? "bg-violet-500 text-white" : "bg-white text-violet-700 hover:bg-violet-100"
+              }`}
+            >
+              <span className={`h-2 w-2 rounded-full ${levelDot[steps[i].level]}`} />
+              {i + 1}. {c.label}
+            </button>
+          ))}
+        </div>
+        <span className="shrink-0 font-semibold text-violet-700">
+          {overall}% complete
+        </span>
+      </div>
+
+      <div className="h-1.5 w-full overflow-hidden rounded-full bg-violet-100">
+        <div
+          className="h-full rounded-full bg-violet-500 transition-all"
+          style={{ width: `${overall}%` }}
+        />
+      </div>
+
+      <div>
+        <p className="text-xs font-semibold text-violet-700">{criterion.description}</p>
+        <p className="text-[11px] text-slate-500">{criterion.hint}</p>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        {criterion.id === "context" && (
+          <>
+            <Field label="Role for the AI">
+              <input
+                className={inputClass}
+                value={state.role}
+                onChange={(e) => update({ role: e.target.value })}
+                placeholder="an experienced maths tutor"
+              />
+            </Field>
+            <Field label="Audience">
+              <input
+                className={inputClass}
+                list="builder-audiences"
+                value={state.audience}
+                onChange={(e) => update({ audience: e.target.value })}
+                placeholder="Pick or type an audience"
+              />
+              <datalist id="builder-audiences">
+                {AUDIENCES.map((a) => (
+                  <option key={a} value={a} />
+                ))}
+              </datalist>
+            </Field>
+            <div className="sm:col-span-2">
+              <Field label="Background: who you are and where this will be used">
+                <textarea
+                  className={`${inputClass} h-16 resize-none`}
+                  value={state.background}
+                  onChange={(e) => update({ background: e.target.value })}
+                  placeholder="I teach an evening class for adults returning to study."
+                />
+              </Field>
+            </div>
+          </>
+        )}
+
+        {criterion.id === "goal" && (
+          <>
+            <div className="sm:col-span-2">
+              <Field label="Task: what should the AI do?">
+                <textarea
+                  className={`${inputClass} h-16 resize-none`}
+                  value={state.task}
+                  onChange={(e) => update({ task: e.target.value })}
+                  placeholder="Explain how compound interest works."
+                />
+              </Field>
+            </div>
+            <div className="sm:col-span-2">
+              <Field label="By the end, I want…">
+                <input
+                  className={inputClass}
+                  value={state.outcome}
+                  onChange={(e) => update({ outcome: e.target.value })}
+                  placeholder="my students to calculate interest for a savings account"
+                />
+              </Field>
+            </div>
+          </>
+        )}
+
+        {criterion.id === "format" && (
+          <>
+            <Field label="Output format">
+              <select
+                className={inputClass}
+                value={state.formatPreset}
+                onChange={(e) => update({ formatPreset: e.target.value })}
+              >
+                <option value="">Choose a format…</option>
+                {FORMAT_PRESETS.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.label}
+                  </option>
+                ))}
+              </select>
+            </Field>
+            <Field label="Extra structure (optional)">
+              <input
+                className={inputClass}
+                value={state.formatDetails}
+                onChange={(e) => update({ formatDetails: e.target.value })}
+                placeholder="End with a one-line summary"
+              />
+            </Field>
+          </>
+        )}
+
+        {criterion.id === "constraints" && (
+          <>
+            <Field label="Tone">
+              <select
+                className={inputClass}
+                value={state.tone}
+                onChange={(e) => update({ tone: e.target.value })}
+              >
+                <option value="">Choose a tone…</option>
+                {TONES.map((t) => (
+                  <option key={t} value={t}>
+                    {t[0].toUpperCase() + t.slice(1)}
+                  </option>
+                ))}
+              </select>
+            </Field>
+            <Field label="Word limit">
+              <input
+                type="number"
+                min={1}
+                className={inputClass}
+                value={state.wordLimit}
+                onChange={(e) => update({ wordLimit: e.target.value })}
+                placeholder="300"
+              />
+            </Field>
+            <div className="sm:col-span-2">
+              <Field label="Rules: must include or avoid">
+                <input
+                  className={inputClass}
+                  value={state.rules}
+                  onChange={(e) => update({ rules: e.target.value })}
+                  placeholder="Avoid jargon and use one worked example"
+                />
+              </Field>
+            </div>
+          </>
+        )}
+
+        {criterion.id === "examples" && (
+          <div className="flex flex-col gap-2 sm:col-span-2">
+            {state.examples.map((example, i) => (
+              <Field key={i} label={`Example ${i + 1}`}>
+                <textarea
+                  className={`${inputClass} h-14 resize-none`}
+                  value={example}
+                  onChange={(e) => updateExample(i, e.target.value)}
+                  placeholder="Paste a short sample of the style or structure you like."
+                />
+              </Field>
+            ))}
+            {state.examples.length < MAX_EXAMPLE_SLOTS && (
+              <button
+                type="button"
+                onClick={() => update({ examples: [...state.examples, ""] })}
+                className="self-start rounded-full bg-white px-3 py-1 text-[11px] font-medium text-violet-700 hover:bg-violet-100"
+              >
+                Add another example
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-between">
+        <button
+          type="button"
+          onClick={() => setStep((s) => s - 1)}
+          disabled={step === 0}
+          className="rounded-full bg-white px-4 py-1 text-[11px] font-medium text-violet-700 hover:bg-violet-100 disabled:opacity-40"
+        >
+          Back
+        </button>
+        <button
+          type="button"
+          onClick={() => setStep((s) => s + 1)}
+          disabled={step === builderRubric.criteria.length - 1}
+          className="rounded-full bg-violet-500 px-4 py-1 text-[11px] font-medium text-white hover:bg-violet-400 disabled:opacity-40"
+        >
+          Next
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { useState } from "react";
+import type { Analysis } from "@/lib/analysis/types";
+import { reportMarkdown } from "@/lib/reports/markdown";
+
+type ReportExportProps = {
+  // The prompt that produced the analysis.
+  prompt: string;
+  analysis: Analysis | null;
+};
+
+const buttonClass =
+  "rounded-full bg-violet-50 px-3 py-1 font-medium text-violet-700 hover:bg-violet-100 disabled:cursor-not-allowed disabled:opacity-50";
+
+function download(filename: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Exports the current analysis as Markdown or JSON, or stores it on the
+ * server as a read-only report with a link to share.
+ */
+export default function ReportExport({ prompt, analysis }: ReportExportProps) {
+  const [link, setLink] = useState<string | null>(null);
+  const [verified, setVerified] = useState(true);
+  const [isSharing, setIsSharing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const report = analysis && {
+    id: "",
+    createdAt: new Date().toISOString(),
+    prompt,
+    analysis,
+    // The server checks the signature when sharing; locally its presence is enough.
+    verified: Boolean(analysis.signature),
+  };
+
+  async function share() {
+    if (!report) return;
+    setIsSharing(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/reports", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ prompt, analysis }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error ?? "Could not create the share link.");
+      const url = new URL(data.url, window.location.origin).toString();
+      setLink(url);
+      setVerified(data.verified === true);
+      await navigator.clipboard.writeText(url).catch(() => undefined);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not create the share link.");
+    } finally {
+      setIsSharing(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-1 text-[11px] text-slate-500">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-semibold">Export</span>
+        <button
+          type="button"
+          disabled={!report}
+          onClick={() =>
+            report && download("prompt-report.md", reportMarkdown(report), "text/markdown")
+          }
+          className={buttonClass}
+        >
+          Markdown
+        </button>
+        <button
+          type="button"
+          disabled={!report}
+          onClick={() =>
+            report &&
+            download(
+              "prompt-report.json",
+              JSON.stringify({ prompt, analysis }, null, 2),
+              "application/json",
+            )
+          }
+          className={buttonClass}
+        >
+          JSON
+        </button>
+        <button type="button" disabled={!report || isSharing} onClick={share} className={buttonClass}>
+          {isSharing ? "Sharing…" : "Share link"}
+        </button>
+      </div>
+      {link && (
+        <p>
+          Link copied:{" "}
+          <a href={link} target="_blank" rel="noreferrer" className="text-violet-600 underline">
+            {link}
+          </a>{" "}
+          (open it to print or save as PDF)
+          {!verified && (
+            <span className="block text-amber-600">
+              This analysis was not signed by the analyzer, so the report is marked unverified.
+            </span>
+          )}
+        </p>
+      )}
+      {error && <p className="text-rose-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+"use client";
+
+import { useState, type ReactNode } from "react";
+import { criterionColors } from "@/components/AnnotatedPrompt";
+import { useLocale } from "@/components/LocaleProvider";
+import { useWordDiff } from "@/components/useWordDiff";
+import { REWRITE_STYLE_LABELS } from "@/lib/analysis/rewrite";
+import type { Analysis, Rewrite } from "@/lib/analysis/types";
+import { applyHunks, diffHunks, type DiffHunk } from "@/lib/diff";
+
+type RewritePanelProps = {
+  analysis: Analysis | null;
+  // The prompt the analysis graded; rewrites are diffed against it.
+  original: string;
+  // What the textarea holds now.
+  prompt: string;
+  onChange: (prompt: string) => void;
+  disabled?: boolean;
+};
+
+// Which rewrite is shown and which of its hunks were accepted, for one analysis.
+type Selection = {
+  analysis: Analysis | null;
+  tab: number;
+  accepted: number[];
+};
+
+function rewritesOf(analysis: Analysis | null): Rewrite[] {
+  if (!analysis?.improvedPrompt.trim()) return [];
+  // Entries saved before rewrite styles existed only have the improvedPrompt.
+  return analysis.rewrites?.length
+    ? analysis.rewrites
+    : [{ style: "structured", prompt: analysis.improvedPrompt, changes: [] }];
+}
+
+/**
+ * The rewrites of an analysis as tabs, each with its changelog and a diff
+ * against the analyzed prompt whose hunks can be accepted one at a time.
+ */
+export default function RewritePanel({
+  analysis,
+  original,
+  prompt,
+  onChange,
+  disabled,
+}: RewritePanelProps) {
+  const { t } = useLocale();
+  const [selection, setSelection] = useState<Selection>({ analysis, tab: 0, accepted: [] });
+  const [copied, setCopied] = useState(false);
+
+  // A new analysis starts over on the first rewrite with nothing accepted.
+  const current =
+    selection.analysis === analysis ? selection : { analysis, tab: 0, accepted: [] };
+  const rewrites = rewritesOf(analysis);
+  const rewrite = rewrites[Math.min(current.tab, rewrites.length - 1)];
+
+  const parts = useWordDiff(rewrite ? original : "", rewrite?.prompt ?? "");
+  const hunks = rewrite ? diffHunks(parts) : [];
+  const acceptedHunks = hunks.filter((h) => current.accepted.includes(h.index));
+  // Single hunks only apply while the textarea holds exactly what they built.
+  const canAccept = !disabled && prompt === applyHunks(original, acceptedHunks);
+
+  function select(tab: number) {
+    setSelection({ analysis, tab, accepted: [] });
+    setCopied(false);
+  }
+
+  function toggle(hunk: DiffHunk) {
+    const accepted = current.accepted.includes(hunk.index)
+      ? current.accepted.filter((i) => i !== hunk.index)
+      : [...current.accepted, hunk.index];
+    setSelection({ ...current, accepted });
+    onChange(applyHunks(original, hunks.filter((h) => accepted.includes(h.index))));
+  }
+
+  function useWhole() {
+    if (!rewrite) return;
+    setSelection({ ...current, accepted: hunks.map((h) => h.index) });
+    onChange(rewrite.prompt);
+  }
+
+  async function copy() {
+    if (!rewrite) return;
+    try {
+      await navigator.clipboard.writeText(rewrite.prompt);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      setCopied(false);
+    }
+  }
+
+  const colorFor = (id: string) =>
+    criterionColors[
+      Math.max(0, analysis?.rubric.criteria.findIndex((c) => c.id === id) ?? 0) %
+        criterionColors.length
+    ];
+  const labelFor = (id: string) =>
+    t.criteria[id] ?? analysis?.rubric.criteria.find((c) => c.id === id)?.label ?? id;
+
+  // Unchanged text between hunks, then each hunk with its accept button.
+  const body: ReactNode[] = [];
+  let offset = 0;
+  for (const hunk of hunks) {
+    body.push(original.slice(offset, hunk.start));
+    const accepted = current.accepted.includes(hunk.index);
+    body.push(
+      <span key={hunk.index} className={accepted ? "opacity-60" : ""}>
+        {hunk.removed && (
+          <del className="bg-rose-100 text-rose-700">{hunk.removed}</del>
+        )}
+        {hunk.inserted && (
+          <ins className="bg-emerald-100 text-emerald-800 no-underline">{hunk.inserted}</ins>
+        )}
+        <button
+          type="button"
+          onClick={() => toggle(hunk)}
+          disabled={!canAccept}
+          className="mx-1 rounded-full bg-white px-1.5 align-middle font-sans text-[10px] font-medium text-violet-700 ring-1 ring-violet-200 transition hover:bg-violet-100 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          {accepted ? t.ui.undoChange : t.ui.acceptChange}
+        </button>
+      </span>,
+    );
+    offset = hunk.end;
+  }
+  body.push(original.slice(offset));
+
+  return (
+    <div className="mt-4 rounded-3xl bg-white p-6 shadow-md ring-1 ring-violet-100">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h2 className="text-sm font-semibold text-violet-700">{t.ui.readyToCopy}</h2>
+          <p className="text-xs text-slate-500">{t.ui.readyToCopyHint}</p>
+        </div>
+        <div className="flex shrink-0 gap-2">
+          <button
+            type="button"
+            onClick={useWhole}
+            disabled={!rewrite || disabled}
+            className="inline-flex items-center gap-2 rounded-full bg-violet-50 px-4 py-1.5 text-xs font-medium text-violet-700 shadow-sm transition hover:bg-violet-100 disabled:cursor-not-allowed disabled:bg-violet-50/60"
+          >
+            {t.ui.useImproved}
+          </button>
+          <button
+            type="button"
+            onClick={copy}
+            disabled={!rewrite}
+            className="inline-flex items-center gap-2 rounded-full bg-violet-500 px-4 py-1.5 text-xs font-medium text-white shadow-sm transition hover:bg-violet-400 disabled:cursor-not-allowed disabled:bg-violet-300/60"
+          >
+            {copied ? t.ui.copied : t.ui.copy}
+          </button>
+        </div>
+      </div>
+
+      {rewrites.length > 1 && (
+        <div className="mt-3 flex flex-wrap gap-1 text-[11px]">
+          {rewrites.map((r, i) => (
+            <button
+              key={r.style}
+              type="button"
+              onClick={() => select(i)}
+              className={`rounded-full px-3 py-1 font-medium transition ${
+                r === rewrite
+                  ? "bg-violet-500 text-white"
+                  : "bg-violet-50 text-violet-700 hover:bg-violet-100"
+              }`}
+            >
+              {REWRITE_STYLE_LABELS[r.style]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-3 rounded-2xl bg-violet-50 p-4 text-xs text-slate-800 ring-1 ring-violet-100">
+        {!rewrite ? (
+          <p className="text-slate-500">
+            Run an analysis first to generate an improved, export-ready prompt.
+          </p>
+        ) : (
+          <pre
+            dir="auto"
+            className="whitespace-pre-wrap break-words font-mono text-[11px] leading-relaxed"
+          >
+            {body}
+          </pre>
+        )}
+      </div>
+
+      {rewrite && !canAccept && !disabled && hunks.length > 0 && (
+        <p className="mt-2 text-[11px] text-amber-700">{t.ui.promptEditedSinceAnalysis}</p>
+      )}
+
+      {rewrite && rewrite.changes.length > 0 && (
+        <ul className="mt-3 space-y-1 text-[11px] text-slate-600">
+          {rewrite.changes.map((change, i) => (
+            <li key={i} className="flex items-start gap-2">
+              <span
+                className={`shrink-0 rounded-full px-2 py-0.5 font-medium text-slate-700 ${colorFor(change.criterionId)}`}
+              >
+                {labelFor(change.criterionId)}
+              </span>
+              <span>{change.change}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { createRemoteTemplateStore } from "@/lib/templates/remote";
+import { expandSnippets, renderTemplate, templateVariables } from "@/lib/templates/render";
+import type { TemplateLibrary, TemplateVariable } from "@/lib/templates/types";
+
+type TemplatePickerProps = {
+  // The editor's prompt, saved when the user stores it as a template.
+  prompt: string;
+  // Called with the rendered prompt whenever the template or a value changes.
+  onPromptChange: (prompt: string) => void;
+  // Analyzes the template body itself, placeholders included.
+  onAnalyzeTemplate: (body: string) => void;
+};
+
+const store = createRemoteTemplateStore();
+
+const inputClass =
+  "w-full rounded-xl border border-violet-100 bg-white px-3 py-1.5 text-xs text-slate-800 outline-none focus:border-violet-400";
+
+const chipClass =
+  "rounded-full bg-white px-3 py-1 text-[11px] font-medium text-violet-700 hover:bg-violet-100 disabled:cursor-not-allowed disabled:opacity-50";
+
+function VariableField({
+  variable,
+  value,
+  onChange,
+}: {
+  variable: TemplateVariable;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  const common = {
+    value,
+    placeholder: variable.default ?? `{{${variable.name}}}`,
+    onChange: (e: { target: { value: string } }) => onChange(e.target.value),
+    className: inputClass,
+  };
+  return (
+    <label className="flex flex-col gap-1 text-[11px] font-medium text-violet-700">
+      {variable.label}
+      {variable.type === "multiline" ? (
+        <textarea rows={2} {...common} className={`${inputClass} resize-y`} />
+      ) : variable.type === "select" ? (
+        <select {...common}>
+          <option value="">{variable.default ? `Default (${variable.default})` : "Choose…"}</option>
+          {variable.options?.map((o) => (
+            <option key={o} value={o}>
+              {o}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <input type={variable.type === "number" ? "number" : "text"} {...common} />
+      )}
+      {variable.description && (
+        <span className="font-normal text-slate-500">{variable.description}</span>
+      )}
+    </label>
+  );
+}
+
+/**
+ * Template library: pick a template, fill in its variables and the rendered
+ * prompt goes to the editor. Snippets can be appended to the prompt, and the
+ * editor's prompt can be saved back as a template or snippet.
+ */
+export default function TemplatePicker({
+  prompt,
+  onPromptChange,
+  onAnalyzeTemplate,
+}: TemplatePickerProps) {
+  const [library, setLibrary] = useState<TemplateLibrary | null>(null);
+  const [templateId, setTemplateId] = useState("");
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [saveName, setSaveName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    store
+      .load()
+      .then(setLibrary)
+      .catch((err) => setError(err instanceof Error ? err.message : "Could not load templates."));
+  }, []);
+
+  const snippets = useMemo(() => library?.snippets ?? [], [library]);
+  const template = library?.templates.find((t) => t.id === templateId) ?? null;
+  const variables = template ? templateVariables(template, snippets) : [];
+
+  async function run(task: () => Promise<TemplateLibrary | void>) {
+    setError(null);
+    try {
+      setLibrary((await task()) || (await store.load()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Template request failed.");
+    }
+  }
+
+  function select(id: string) {
+    setTemplateId(id);
+    setValues({});
+    const next = library?.templates.find((t) => t.id === id);
+    if (next) onPromptChange(renderTemplate(next, snippets));
+  }
+
+  function updateValue(name: string, value: string) {
+    const next = { ...values, [name]: value };
+    setValues(next);
+    if (template) onPromptChange(renderTemplate(template, snippets, next));
+  }
+
+  function saveAs(kind: "template" | "snippet") {
+    const name = saveName.trim();
+    if (!name || !prompt.trim()) return;
+    setSaveName("");
+    run(() =>
+      kind === "template"
+        ? store.saveTemplate({
+            id: "",
+            name,
+            description: "",
+            body: prompt,
+            variables: [],
+            updatedAt: "",
+          })
+        : store.saveSnippet({ id: "", name, body: prompt }),
+    );
+  }
+
+  async function importFile(file: File) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      setError(`${file.name} is not a JSON file.`);
+      return;
+    }
+    run(() => store.import(parsed as TemplateLibrary, "merge"));
+  }
+
+  return (
+    <div className="mt-4 flex flex-col gap-3 rounded-2xl bg-violet-50/60 p-4 ring-1 ring-violet-100">
+      <div className="flex flex-wrap items-center gap-2 text-[11px]">
+        <select
+          value={templateId}
+          onChange={(e) => select(e.target.value)}
+          className="flex-1 rounded-full bg-white px-3 py-1 text-violet-700 outline-none"
+        >
+          <option value="">{library ? "Choose a template…" : "Loading templates…"}</option>
+          {library?.templates.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          disabled={!template}
+          onClick={() => template && onAnalyzeTemplate(expandSnippets(template.body, snippets))}
+          title="Score the template itself; {{placeholders}} count as filled in."
+          className={chipClass}
+        >
+          Analyze template
+        </button>
+        <button
+          type="button"
+          disabled={!template}
+          onClick={() => {
+            if (!template) return;
+            setTemplateId("");
+            run(() => store.deleteTemplate(template.id));
+          }}
+          className={chipClass}
+        >
+          Delete
+        </button>
+      </div>
+
+      {template?.description && (
+        <p className="text-[11px] text-slate-500">{template.description}</p>
+      )}
+
+      {variables.length > 0 && (
+        <div className="grid gap-2 sm:grid-cols-2">
+          {variables.map((v) => (
+            <VariableField
+              key={v.name}
+              variable={v}
+              value={values[v.name] ?? ""}
+              onChange={(value) => updateValue(v.name, value)}
+            />
+          ))}
+        </div>
+      )}
+
+      {snippets.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 text-[11px] text-slate-500">
+          <span>Add snippet:</span>
+          {snippets.map((s) => (
+            <button
+              key={s.id}
+              type="button"
+              title={s.body}
+              onClick={() =>
+                onPromptChange(`${prompt.trimEnd()}\n${expandSnippets(s.body, snippets)}`)
+              }
+              className={chipClass}
+            >
+              {s.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 border-t border-violet-100 pt-3 text-[11px]">
+        <input
+          value={saveName}
+          onChange={(e) => setSaveName(e.target.value)}
+          placeholder="Name for the current prompt"
+          className="flex-1 rounded-full border border-violet-100 bg-white px-3 py-1 outline-none focus:border-violet-400"
+        />
+        <button
+          type="button"
+          disabled={!saveName.trim() || !prompt.trim()}
+          onClick={() => saveAs("template")}
+          className={chipClass}
+        >
+          Save as template
+        </button>
+        <button
+          type="button"
+          disabled={!saveName.trim() || !prompt.trim()}
+          onClick={() => saveAs("snippet")}
+          className={chipClass}
+        >
+          Save as snippet
+        </button>
+        <a href="/api/templates?download=1" className={chipClass}>
+          Export
+        </a>
+        <button type="button" onClick={() => importRef.current?.click()} className={chipClass}>
+          Import
+        </button>
+        <input
+          ref={importRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {error && <p className="text-[11px] text-rose-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import type { PromptEstimate } from "@/lib/tokens";
+
+type TokenEstimateProps = {
+  estimate: PromptEstimate;
+};
+
+function formatCost(usd: number): string {
+  return usd >= 0.01 ? `$${usd.toFixed(2)}` : `$${usd.toPrecision(2)}`;
+}
+
+function formatShare(share: number): string {
+  return share < 0.001 ? "<0.1%" : `${(share * 100).toFixed(share < 0.1 ? 1 : 0)}%`;
+}
+
+const sectionColors = {
+  instructions: "bg-violet-400",
+  context: "bg-sky-400",
+  examples: "bg-amber-400",
+};
+
+/**
+ * Expected answer length, how the prompt splits into instructions, context and
+ * examples, and the cost of one call on each catalog model, with warnings.
+ */
+export default function TokenEstimate({ estimate }: TokenEstimateProps) {
+  const { output, sections, models, warnings } = estimate;
+  const costs = models.map((m) => m.cost);
+  const total = sections.instructions + sections.context + sections.examples;
+
+  return (
+    <div className="mt-2 text-[11px] text-slate-500">
+      {warnings.length > 0 && (
+        <ul className="mb-2 list-disc rounded-2xl bg-amber-50 py-2 pe-3 ps-7 text-amber-800">
+          {warnings.map((w) => (
+            <li key={w.kind}>{w.message}</li>
+          ))}
+        </ul>
+      )}
+
+      <details className="rounded-2xl bg-slate-50 px-3 py-2">
+        <summary className="cursor-pointer">
+          Answer ~{output.tokens.toLocaleString("en-US")} tokens ({output.basis}) ·{" "}
+          {formatCost(Math.min(...costs))}–{formatCost(Math.max(...costs))} per call across{" "}
+          {models.length} models
+        </summary>
+
+        {total > 0 && (
+          <div className="mt-2">
+            <div className="flex h-1.5 overflow-hidden rounded-full bg-slate-200">
+              {(Object.keys(sectionColors) as (keyof typeof sectionColors)[]).map((key) => (
+                <span
+                  key={key}
+                  className={sectionColors[key]}
+                  style={{ width: `${(sections[key] / total) * 100}%` }}
+                />
+              ))}
+            </div>
+            <div className="mt-1 flex flex-wrap gap-3">
+              {(Object.keys(sectionColors) as (keyof typeof sectionColors)[]).map((key) => (
+                <span key={key} className="inline-flex items-center gap-1">
+                  <span className={`h-2 w-2 rounded-full ${sectionColors[key]}`} />
+                  {key} ~{sections[key].toLocaleString("en-US")}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <table className="mt-2 w-full text-start">
+          <thead className="text-slate-400">
+            <tr>
+              <th className="py-0.5 text-start font-medium">Model</th>
+              <th className="text-end font-medium">In</th>
+              <th className="text-end font-medium">Out</th>
+              <th className="text-end font-medium">Per call</th>
+              <th className="text-end font-medium">Per 1,000</th>
+              <th className="text-end font-medium">Context</th>
+            </tr>
+          </thead>
+          <tbody>
+            {models.map((m) => (
+              <tr key={m.model} className={m.fits ? "" : "text-rose-500"}>
+                <td className="py-0.5">{m.label}</td>
+                <td className="text-end">{m.inputTokens.toLocaleString("en-US")}</td>
+                <td className="text-end">{m.outputTokens.toLocaleString("en-US")}</td>
+                <td className="text-end">{formatCost(m.cost)}</td>
+                <td className="text-end">{formatCost(m.cost * 1000)}</td>
+                <td className="text-end">{formatShare(m.contextShare)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="mt-1 text-slate-400">
+          Local estimate at list prices; real tokenizers differ by 10–15%.
+        </p>
+      </details>
+    </div>
+  );
+}
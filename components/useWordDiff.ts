@@ -0,0 +1,10 @@
+import { useMemo } from "react";
+import { diffWords, type DiffPart } from "@/lib/diff";
+
+/**
+ * diffWords of two texts, recomputed only when one of them changes. The diff
+ * is quadratic in their lengths, and its callers re-render on every keystroke.
+ */
+export function useWordDiff(before: string, after: string): DiffPart[] {
+  return useMemo(() => diffWords(before, after), [before, after]);
+}
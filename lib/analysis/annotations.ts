@@ -0,0 +1,61 @@
+import type { ScanReport } from "@/lib/scanner";
+import type { Analysis, Annotation } from "./types";
+
+/**
+ * Finds the span an annotation refers to. Offsets are kept when they hold the
+ * quoted text; otherwise the occurrence of the quote nearest to `start` is
+ * used, since models count characters poorly but copy text well. Returns null
+ * when neither the range nor the quote can be found in the prompt.
+ */
+export function locateSpan(
+  prompt: string,
+  start: number,
+  end: number,
+  quote: string,
+): { start: number; end: number } | null {
+  const inRange =
+    Number.isInteger(start) &&
+    Number.isInteger(end) &&
+    start >= 0 &&
+    end <= prompt.length &&
+    start < end;
+  if (inRange && (!quote || prompt.slice(start, end) === quote)) {
+    return { start, end };
+  }
+  if (!quote) return null;
+
+  let best = -1;
+  for (let i = prompt.indexOf(quote); i >= 0; i = prompt.indexOf(quote, i + 1)) {
+    if (best < 0 || Math.abs(i - start) < Math.abs(best - start)) best = i;
+  }
+  return best < 0 ? null : { start: best, end: best + quote.length };
+}
+
+/**
+ * Moves annotations onto the given prompt, dropping any whose quote no longer
+ * occurs in it.
+ */
+export function anchorAnnotations(annotations: Annotation[], prompt: string): Annotation[] {
+  return annotations.flatMap((a) => {
+    const span = locateSpan(prompt, a.start, a.end, a.quote);
+    return span ? [{ ...a, ...span, quote: prompt.slice(span.start, span.end) }] : [];
+  });
+}
+
+/**
+ * Prepares an analysis for the user who submitted `submitted`. The model may
+ * have seen a redacted prompt, and a cached analysis may come from a prompt
+ * that differs in whitespace, so annotations are re-anchored on the submitted
+ * text; the scan report is attached as well.
+ */
+export function forSubmittedPrompt(
+  analysis: Analysis,
+  submitted: string,
+  scan: ScanReport,
+): Analysis {
+  return {
+    ...analysis,
+    annotations: anchorAnnotations(analysis.annotations ?? [], submitted),
+    scan,
+  };
+}
@@ -0,0 +1,106 @@
+import type { AnalysisProvider, AnalyzeOptions, Sampling } from "@/lib/providers/types";
+import { weightedScore } from "@/lib/rubrics";
+import type { Rubric } from "@/lib/rubrics/types";
+import type { Analysis, CriterionScore, CriterionSpread } from "./types";
+import { labelForScore, levelForScore } from "./validate";
+
+export const MAX_SAMPLES = 5;
+
+// Criteria whose samples differ by at least this many points are flagged.
+export const LOW_CONFIDENCE_SPREAD = 15;
+
+const SAMPLE_TEMPERATURE = 0.7;
+
+/**
+ * Generation settings for sample `index`. Seeds are fixed so the same prompt
+ * gets the same set of samples; the temperature keeps them independent.
+ */
+export function samplingFor(index: number): Sampling {
+  return { temperature: SAMPLE_TEMPERATURE, seed: index + 1 };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+function closestTo<T>(items: T[], target: number, value: (item: T) => number): T {
+  return items.reduce((best, item) =>
+    Math.abs(value(item) - target) < Math.abs(value(best) - target) ? item : best,
+  );
+}
+
+/**
+ * Combines several analyses of the same prompt. Each criterion gets the
+ * median of its sample scores, with the feedback of the sample closest to
+ * that median; the overall score is recomputed from those medians. The text
+ * parts (suggestions, improved prompt, annotations) come from the sample
+ * whose overall score is closest to the result.
+ */
+export function aggregateSamples(samples: Analysis[], rubric: Rubric): Analysis {
+  if (samples.length === 1) return samples[0];
+
+  const criteria: CriterionScore[] = [];
+  const spreads: CriterionSpread[] = [];
+  for (const definition of rubric.criteria) {
+    const scored = samples
+      .map((s) => s.criteria.find((c) => c.id === definition.id))
+      .filter((c): c is CriterionScore => c !== undefined);
+    if (!scored.length) continue;
+
+    const scores = scored.map((c) => c.score);
+    const score = median(scores);
+    criteria.push({
+      ...closestTo(scored, score, (c) => c.score),
+      score,
+      level: levelForScore(score),
+    });
+    const spread = Math.max(...scores) - Math.min(...scores);
+    spreads.push({
+      id: definition.id,
+      min: Math.min(...scores),
+      max: Math.max(...scores),
+      spread,
+      lowConfidence: spread >= LOW_CONFIDENCE_SPREAD,
+    });
+  }
+
+  const overallScore = weightedScore(rubric, criteria);
+  const overalls = samples.map((s) => s.overallScore);
+  const representative = closestTo(samples, overallScore, (s) => s.overallScore);
+
+  return {
+    ...representative,
+    overallScore,
+    overallLabel: labelForScore(overallScore),
+    criteria,
+    consistency: {
+      samples: samples.length,
+      criteria: spreads,
+      overallSpread: Math.max(...overalls) - Math.min(...overalls),
+    },
+  };
+}
+
+/**
+ * Runs `samples` analyses of the prompt in parallel, each with its own fixed
+ * sampling settings, and aggregates them. One sample is a plain analysis.
+ */
+export async function analyzeSamples(
+  provider: AnalysisProvider,
+  prompt: string,
+  rubric: Rubric,
+  samples: number,
+  options: Omit<AnalyzeOptions, "sampling"> = {},
+): Promise<Analysis> {
+  if (samples <= 1) return provider.analyze(prompt, rubric, options);
+  const results = await Promise.all(
+    Array.from({ length: samples }, (_, i) =>
+      provider.analyze(prompt, rubric, { ...options, sampling: samplingFor(i) }),
+    ),
+  );
+  return aggregateSamples(results, rubric);
+}
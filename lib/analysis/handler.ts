@@ -0,0 +1,301 @@
+import { ApiError, codeForStatus, errorBody, errorResponse, type ErrorStyle } from "@/lib/api/errors";
+import { analysisCache, analysisCacheKey } from "@/lib/cache/analysis";
+import { ClassroomError, enroll, recordSubmission, type Enrollment } from "@/lib/classroom";
+import { jsonResponse } from "@/lib/http";
+import { detectLanguage, resolveLanguageSettings } from "@/lib/i18n";
+import {
+  contentLengthError,
+  MAX_PROMPT_CHARS,
+  passcodeLockError,
+  promptTooLargeError,
+  recordPasscodeFailure,
+} from "@/lib/limits";
+import { log } from "@/lib/observability";
+import {
+  getProvider,
+  isModelBacked,
+  ProviderUnavailableError,
+  resolveProviderId,
+  type AnalysisProvider,
+} from "@/lib/providers";
+import { defaultScanMode, preparePrompt, promptBlockedError } from "@/lib/scanner";
+import { formatServerSentEvent } from "@/lib/sse";
+import { estimatePrompt } from "@/lib/tokens";
+import { forSubmittedPrompt } from "./annotations";
+import { analyzeSamples } from "./consistency";
+import { AnalysisSchemaError } from "./pipeline";
+import { readAnalyzeRequest } from "./request";
+import { rewriteSettings } from "./rewrite";
+import { signAnalysis } from "./signature";
+import { eventsFromAnalysis, streamAnalysis } from "./stream";
+import type { Analysis } from "./types";
+
+/**
+ * Rate limits a request about to send `prompts` to the provider; returns the
+ * 429 error or null.
+ */
+export type Limiter = (
+  prompts: string[],
+  options: { countsAgainstBudget: boolean },
+) => Promise<ApiError | null>;
+
+export type HandlerOptions = {
+  // Error bodies of the unversioned endpoints or the /api/v1 envelope.
+  style: ErrorStyle;
+  limit: Limiter;
+};
+
+function modelError(error: unknown): ApiError {
+  if (error instanceof AnalysisSchemaError) {
+    return new ApiError(
+      502,
+      "invalid_model_output",
+      "Gemini returned an analysis that does not match the expected schema.",
+      { violations: error.violations, raw: error.raw },
+    );
+  }
+  return new ApiError(500, "upstream_error", "Error while calling Gemini API.", {
+    cause: error instanceof Error ? error.message : "Unknown error while calling Gemini.",
+  });
+}
+
+/**
+ * Stores a graded classroom submission. The analysis itself succeeded, so a
+ * failure here is the server's own and is reported as such.
+ */
+async function storeSubmission(enrollment: Enrollment, prompt: string, analysis: Analysis) {
+  try {
+    return await recordSubmission(enrollment, prompt, analysis);
+  } catch (error) {
+    log("error", "classroom.submission_failed", { error });
+    throw new ApiError(
+      500,
+      "internal_error",
+      "The analysis succeeded but the submission could not be saved. Try again.",
+    );
+  }
+}
+
+/**
+ * Everything both analyze variants check before calling the provider, in
+ * order: body size, fields, prompt length, classroom enrollment (behind the
+ * wrong-passcode limit), the scanner, the provider, the cache and finally
+ * the rate limits.
+ */
+async function prepareAnalysis(request: Request, limit: Limiter) {
+  const tooLarge = contentLengthError(request);
+  if (tooLarge) throw tooLarge;
+
+  const parsed = await readAnalyzeRequest(request);
+  if (!parsed.ok) throw new ApiError(400, "invalid_request", parsed.error);
+
+  const { fresh, samples } = parsed.value;
+  if (parsed.value.prompt.length > MAX_PROMPT_CHARS) {
+    throw promptTooLargeError(parsed.value.prompt.length);
+  }
+
+  // Submissions to an assignment are graded with the assignment's rubric.
+  const ref = parsed.value.assignment;
+  let enrollment: Enrollment | undefined;
+  if (ref) {
+    const scope = `student:${ref.code.toUpperCase()}:${ref.student.toLowerCase()}`;
+    const locked = await passcodeLockError(request, scope);
+    if (locked) throw locked;
+    try {
+      enrollment = await enroll(ref);
+    } catch (error) {
+      if (error instanceof ClassroomError) {
+        if (error.status === 403) await recordPasscodeFailure(request, scope);
+        throw new ApiError(error.status, codeForStatus(error.status), error.message);
+      }
+      log("error", "classroom.enroll_failed", { error });
+      throw new ApiError(500, "internal_error", "Could not load the assignment. Try again.");
+    }
+  }
+  const rubric = enrollment?.rubric ?? parsed.value.rubric;
+  // Students pick neither their grader nor how injected text is handled: a
+  // submission always uses the server's provider and scan mode.
+  const scanMode = enrollment ? defaultScanMode() : parsed.value.scanMode;
+  const providerId = resolveProviderId(enrollment ? undefined : parsed.value.provider);
+
+  // Only the scanned (and, in redact mode, redacted) prompt leaves the server.
+  const { prompt, report: scan, blocked } = preparePrompt(parsed.value.prompt, scanMode);
+  if (blocked) throw promptBlockedError(scan);
+
+  let provider: AnalysisProvider;
+  try {
+    provider = getProvider(providerId);
+  } catch (error) {
+    if (error instanceof ProviderUnavailableError) {
+      throw new ApiError(500, "provider_unavailable", error.message);
+    }
+    throw error;
+  }
+
+  // Detected on what the model sees, so redacted spans don't sway it.
+  const detected = detectLanguage(prompt);
+  const language = resolveLanguageSettings(
+    detected,
+    parsed.value.language,
+    parsed.value.keepSourceLanguage,
+  );
+
+  const rewrite = rewriteSettings(parsed.value.rewriteStyle, parsed.value.alternatives);
+
+  const cacheKey = analysisCacheKey(provider, rubric, prompt, samples, language, rewrite);
+  const cached = fresh ? undefined : analysisCache.get(cacheKey);
+
+  // Every sample is a model call.
+  const limited = await limit(Array(samples).fill(prompt), {
+    countsAgainstBudget: isModelBacked(provider) && !cached,
+  });
+  if (limited) throw limited;
+
+  // Re-anchors the model's result on the prompt as the user submitted it.
+  const finish = (analysis: Analysis): Analysis =>
+    signAnalysis(parsed.value.prompt, {
+      ...forSubmittedPrompt(analysis, parsed.value.prompt, scan),
+      // A provider that could not write the requested languages says so.
+      language: { ...language, ...analysis.language, detected },
+      estimate: estimatePrompt(parsed.value.prompt),
+    });
+
+  return {
+    submitted: parsed.value.prompt,
+    prompt,
+    rubric,
+    samples,
+    language,
+    rewrite,
+    provider,
+    enrollment,
+    cacheKey,
+    cached,
+    finish,
+    headers: {
+      "X-Analyzer-Provider": provider.id,
+      "X-Analyzer-Model": provider.model,
+      "X-Cache": cached ? "HIT" : fresh ? "BYPASS" : "MISS",
+    },
+  };
+}
+
+/** Analyzes the prompt of a JSON request body and answers with the Analysis. */
+export async function handleAnalyze(request: Request, options: HandlerOptions): Promise<Response> {
+  let prepared: Awaited<ReturnType<typeof prepareAnalysis>>;
+  try {
+    prepared = await prepareAnalysis(request, options.limit);
+  } catch (error) {
+    if (error instanceof ApiError) return errorResponse(error, options.style);
+    throw error;
+  }
+  const { provider, prompt, rubric, samples, language, rewrite, enrollment, cacheKey, cached } =
+    prepared;
+
+  try {
+    let analysis = cached;
+    if (!analysis) {
+      analysis = await analyzeSamples(provider, prompt, rubric, samples, {
+        signal: request.signal,
+        language,
+        rewrite,
+      });
+      analysisCache.set(cacheKey, analysis);
+    }
+
+    const result = prepared.finish(analysis);
+    const submission =
+      enrollment && (await storeSubmission(enrollment, prepared.submitted, result));
+
+    return jsonResponse(result, 200, {
+      ...prepared.headers,
+      ...(submission && { "X-Submission-Id": submission.id }),
+    });
+  } catch (error) {
+    if (error instanceof ApiError) return errorResponse(error, options.style);
+    if (!(error instanceof AnalysisSchemaError)) {
+      log("error", "analyze.failed", { error });
+    }
+    return errorResponse(modelError(error), options.style);
+  }
+}
+
+/**
+ * Server-sent events variant of handleAnalyze. Emits "rubric", "criterion",
+ * "overall", "suggestion" and "improvedPrompt" events as they become
+ * available, then a final "done" (the validated Analysis with its scan report)
+ * or "error" event.
+ */
+export async function handleAnalyzeStream(
+  request: Request,
+  options: HandlerOptions,
+): Promise<Response> {
+  let prepared: Awaited<ReturnType<typeof prepareAnalysis>>;
+  try {
+    prepared = await prepareAnalysis(request, options.limit);
+  } catch (error) {
+    if (error instanceof ApiError) return errorResponse(error, options.style);
+    throw error;
+  }
+  const { provider, prompt, rubric, samples, language, rewrite, enrollment, cacheKey, cached } =
+    prepared;
+
+  // Aborted when the client disconnects or cancels the stream, which in turn
+  // cancels the upstream model request.
+  const upstream = new AbortController();
+  request.signal.addEventListener("abort", () => upstream.abort());
+
+  const events = cached
+    ? eventsFromAnalysis(cached)
+    : streamAnalysis(provider, prompt, rubric, {
+        signal: upstream.signal,
+        samples,
+        language,
+        rewrite,
+      });
+
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (let event of events) {
+          if (upstream.signal.aborted) break;
+          if (event.type === "done") {
+            if (!cached) analysisCache.set(cacheKey, event.analysis);
+            event = { ...event, analysis: prepared.finish(event.analysis) };
+            if (enrollment) {
+              await storeSubmission(enrollment, prepared.submitted, event.analysis);
+            }
+          }
+          const { type, ...data } = event;
+          controller.enqueue(encoder.encode(formatServerSentEvent(type, data)));
+        }
+      } catch (error) {
+        if (!upstream.signal.aborted) {
+          if (!(error instanceof ApiError)) log("error", "analyze.stream_failed", { error });
+          const failure = error instanceof ApiError ? error : modelError(error);
+          const payload = errorBody(failure, options.style);
+          controller.enqueue(encoder.encode(formatServerSentEvent("error", payload)));
+        }
+      }
+      try {
+        controller.close();
+      } catch {
+        // Already closed by a cancelled reader.
+      }
+    },
+    cancel() {
+      upstream.abort();
+    },
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      ...prepared.headers,
+    },
+  });
+}
@@ -0,0 +1,112 @@
+import { log, parseFailures, recordFailedOutput, span } from "@/lib/observability";
+import type { LanguageSettings } from "@/lib/i18n";
+import type { AnalyzeOptions, ProviderOptions } from "@/lib/providers/types";
+import type { Rubric } from "@/lib/rubrics/types";
+import { buildSystemInstruction } from "./instruction";
+import type { RewriteSettings } from "./rewrite";
+import type { Analysis } from "./types";
+import {
+  buildRepairPrompt,
+  extractJson,
+  validateAnalysis,
+  type Violation,
+} from "./validate";
+
+// How many times we ask the model to fix a response that fails validation
+// before giving up.
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+export class AnalysisSchemaError extends Error {
+  constructor(
+    readonly violations: Violation[],
+    readonly raw: string,
+  ) {
+    super("Model returned an analysis that does not match the expected schema.");
+    this.name = "AnalysisSchemaError";
+  }
+}
+
+export type GenerateText = (request: string, options?: ProviderOptions) => Promise<string>;
+
+export function buildAnalysisRequest(
+  prompt: string,
+  rubric: Rubric,
+  language?: LanguageSettings,
+  rewrite?: RewriteSettings,
+): string {
+  return `${buildSystemInstruction(rubric, language, rewrite)}\n\nUSER_PROMPT:\n<user_prompt>\n${prompt}\n</user_prompt>`;
+}
+
+/**
+ * Runs the grading instruction through a text model, validating and repairing
+ * the JSON it returns and re-prompting up to MAX_REPAIR_ATTEMPTS times.
+ */
+export async function runModelAnalysis(
+  generateText: GenerateText,
+  prompt: string,
+  rubric: Rubric,
+  options: AnalyzeOptions & {
+    // Raw text of an already generated first answer, e.g. from a stream.
+    firstResponse?: string;
+  } = {},
+): Promise<Analysis> {
+  const basePrompt = buildAnalysisRequest(prompt, rubric, options.language, options.rewrite);
+  let request = basePrompt;
+  let cleaned = "";
+  let violations: Violation[] = [];
+  let parsed = false;
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const text =
+      attempt === 0 && options.firstResponse !== undefined
+        ? options.firstResponse
+        : await span("model", () =>
+            generateText(request, { signal: options.signal, sampling: options.sampling }),
+          );
+    cleaned = extractJson(text);
+
+    let json: unknown;
+    try {
+      json = span("parse", () => JSON.parse(cleaned));
+      parsed = true;
+    } catch {
+      parsed = false;
+      parseFailures.inc({ reason: "json" });
+      recordFailedOutput("json", text);
+      log("warn", "model.invalid_json", { attempt: attempt + 1, chars: text.length });
+      violations = [
+        { path: "$", message: "Response is not valid JSON.", repaired: false },
+      ];
+      request = `${basePrompt}\n\n${buildRepairPrompt(cleaned, violations)}`;
+      continue;
+    }
+
+    const validation = span("validate", () => validateAnalysis(json, rubric, prompt, options.rewrite));
+    violations = validation.violations;
+
+    if (validation.analysis) {
+      if (violations.length > 0) {
+        log("warn", "model.repaired", {
+          violations: violations.map((v) => `${v.path}: ${v.message}`),
+        });
+      }
+      return validation.analysis;
+    }
+
+    log("warn", "model.invalid_schema", {
+      attempt: attempt + 1,
+      violations: violations.filter((v) => !v.repaired).length,
+    });
+    request = `${basePrompt}\n\n${buildRepairPrompt(cleaned, violations)}`;
+  }
+
+  // Invalid JSON was already counted and captured attempt by attempt.
+  if (parsed) {
+    parseFailures.inc({ reason: "schema" });
+    recordFailedOutput("schema", cleaned);
+  }
+  throw new AnalysisSchemaError(
+    violations.filter((v) => !v.repaired),
+    cleaned,
+  );
+}
@@ -0,0 +1,186 @@
+import { ClassroomError, parseAssignmentRef, type AssignmentRef } from "@/lib/classroom";
+import { MAX_SAMPLES } from "@/lib/analysis/consistency";
+import {
+  DEFAULT_ALTERNATIVES,
+  DEFAULT_REWRITE_STYLE,
+  isRewriteStyle,
+  MAX_ALTERNATIVES,
+} from "@/lib/analysis/rewrite";
+import { REWRITE_STYLES, type RewriteStyle } from "@/lib/analysis/types";
+import { isLocale, LOCALES, type Locale } from "@/lib/i18n";
+import { isProviderId, type ProviderId } from "@/lib/providers";
+import { DEFAULT_RUBRIC_ID, getRubric, rubrics } from "@/lib/rubrics";
+import type { Rubric } from "@/lib/rubrics/types";
+import { defaultScanMode, isScanMode, SCAN_MODES, type ScanMode } from "@/lib/scanner";
+
+export type AnalysisOptions = {
+  provider?: ProviderId;
+  rubric: Rubric;
+  scanMode: ScanMode;
+};
+
+export type AnalyzeRequest = AnalysisOptions & {
+  prompt: string;
+  // Skip the response cache and always ask the provider.
+  fresh: boolean;
+  // Submits the prompt to a classroom assignment.
+  assignment?: AssignmentRef;
+  // Analyses to run and aggregate by median; 1 is a single plain run.
+  samples: number;
+  // Language of the feedback; the prompt's own language when omitted.
+  language?: Locale;
+  // Write the improvedPrompt in the prompt's language, not `language`.
+  keepSourceLanguage: boolean;
+  // Style of the improvedPrompt, and how many rewrites in other styles to add.
+  rewriteStyle: RewriteStyle;
+  alternatives: number;
+};
+
+type Parsed<T> = { ok: true; value: T } | { ok: false; error: string };
+
+/**
+ * Checks the 'provider', 'rubric' and 'scanMode' fields shared by the analyze
+ * endpoints.
+ */
+export function parseAnalysisOptions(body: unknown): Parsed<AnalysisOptions> {
+  const {
+    provider,
+    rubric: rubricId = DEFAULT_RUBRIC_ID,
+    scanMode = defaultScanMode(),
+  } = (body || {}) as {
+    provider?: unknown;
+    rubric?: unknown;
+    scanMode?: unknown;
+  };
+
+  if (provider !== undefined && !isProviderId(provider)) {
+    return {
+      ok: false,
+      error: "Field 'provider' must be \"gemini\" or \"heuristic\".",
+    };
+  }
+
+  const rubric = typeof rubricId === "string" ? getRubric(rubricId) : undefined;
+  if (!rubric) {
+    return {
+      ok: false,
+      error: `Field 'rubric' must be one of: ${rubrics.map((r) => r.id).join(", ")}.`,
+    };
+  }
+
+  if (!isScanMode(scanMode)) {
+    return {
+      ok: false,
+      error: `Field 'scanMode' must be one of: ${SCAN_MODES.join(", ")}.`,
+    };
+  }
+
+  return { ok: true, value: { provider, rubric, scanMode } };
+}
+
+/**
+ * Reads and checks the JSON body shared by the analyze endpoints. Returns
+ * either the parsed request or a user-facing error for a 400 response.
+ */
+export async function readAnalyzeRequest(
+  request: Request,
+): Promise<Parsed<AnalyzeRequest>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { ok: false, error: "Invalid JSON body." };
+  }
+
+  const {
+    prompt,
+    fresh,
+    assignment,
+    samples = 1,
+    language,
+    keepSourceLanguage = false,
+    rewriteStyle = DEFAULT_REWRITE_STYLE,
+    alternatives = DEFAULT_ALTERNATIVES,
+  } = (body || {}) as {
+    prompt?: unknown;
+    fresh?: unknown;
+    assignment?: unknown;
+    samples?: unknown;
+    language?: unknown;
+    keepSourceLanguage?: unknown;
+    rewriteStyle?: unknown;
+    alternatives?: unknown;
+  };
+
+  if (!prompt || typeof prompt !== "string" || !prompt.trim()) {
+    return { ok: false, error: "Field 'prompt' (non-empty string) is required." };
+  }
+
+  const options = parseAnalysisOptions(body);
+  if (!options.ok) return options;
+
+  if (
+    typeof samples !== "number" ||
+    !Number.isInteger(samples) ||
+    samples < 1 ||
+    samples > MAX_SAMPLES
+  ) {
+    return {
+      ok: false,
+      error: `Field 'samples' must be a whole number from 1 to ${MAX_SAMPLES}.`,
+    };
+  }
+
+  if (language !== undefined && !isLocale(language)) {
+    return {
+      ok: false,
+      error: `Field 'language' must be one of: ${LOCALES.join(", ")}.`,
+    };
+  }
+
+  if (typeof keepSourceLanguage !== "boolean") {
+    return { ok: false, error: "Field 'keepSourceLanguage' must be a boolean." };
+  }
+
+  if (!isRewriteStyle(rewriteStyle)) {
+    return {
+      ok: false,
+      error: `Field 'rewriteStyle' must be one of: ${REWRITE_STYLES.join(", ")}.`,
+    };
+  }
+
+  if (
+    typeof alternatives !== "number" ||
+    !Number.isInteger(alternatives) ||
+    alternatives < 0 ||
+    alternatives > MAX_ALTERNATIVES
+  ) {
+    return {
+      ok: false,
+      error: `Field 'alternatives' must be a whole number from 0 to ${MAX_ALTERNATIVES}.`,
+    };
+  }
+
+  let ref: AssignmentRef | undefined;
+  try {
+    ref = assignment === undefined ? undefined : parseAssignmentRef(assignment);
+  } catch (error) {
+    if (error instanceof ClassroomError) return { ok: false, error: error.message };
+    throw error;
+  }
+
+  return {
+    ok: true,
+    value: {
+      prompt,
+      fresh: fresh === true || request.headers.get("Cache-Control") === "no-cache",
+      ...options.value,
+      assignment: ref,
+      samples,
+      language,
+      keepSourceLanguage,
+      rewriteStyle,
+      alternatives,
+    },
+  };
+}
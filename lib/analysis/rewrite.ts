@@ -0,0 +1,56 @@
+import { REWRITE_STYLES, type RewriteStyle } from "./types";
+
+export const DEFAULT_REWRITE_STYLE: RewriteStyle = "structured";
+
+// Alternatives per analysis; each is a full extra rewrite the model writes.
+// Alternatives are written in the same model call, but each one lengthens its
+// answer: callers that only want the improvedPrompt should send 0.
+export const DEFAULT_ALTERNATIVES = 2;
+export const MAX_ALTERNATIVES = REWRITE_STYLES.length - 1;
+
+// The rewrite written as the improvedPrompt and the styles of the alternatives.
+export type RewriteSettings = {
+  style: RewriteStyle;
+  alternatives: RewriteStyle[];
+};
+
+// Shown in the style picker and the rewrite tabs.
+export const REWRITE_STYLE_LABELS: Record<RewriteStyle, string> = {
+  minimal: "Minimal edit",
+  structured: "Structured sections",
+  concise: "Concise",
+  persona: "Role-play persona",
+  "chain-of-thought": "Step-by-step scaffold",
+};
+
+// What each style asks of the model.
+export const REWRITE_STYLE_GUIDANCE: Record<RewriteStyle, string> = {
+  minimal:
+    "change as little as possible: keep the user's wording, order and length, and only add or fix what the weakest criteria need",
+  structured:
+    "reorganize into labelled sections (e.g. Role, Task, Context, Output format, Constraints, Examples) that cover every criterion",
+  concise:
+    "make it as short as possible without losing information: cut filler and repetition, merge overlapping sentences, keep every requirement",
+  persona:
+    "open with a specific expert persona suited to the task and its audience, and write the rest as a briefing to that persona",
+  "chain-of-thought":
+    "add a short scaffold that has the model restate the goal, work through the steps or checks the task needs, and then give only the final answer",
+};
+
+export function isRewriteStyle(value: unknown): value is RewriteStyle {
+  return REWRITE_STYLES.includes(value as RewriteStyle);
+}
+
+/**
+ * The chosen style plus `alternatives` other styles, in the order of
+ * REWRITE_STYLES, so every style gets the same alternatives.
+ */
+export function rewriteSettings(
+  style: RewriteStyle = DEFAULT_REWRITE_STYLE,
+  alternatives = DEFAULT_ALTERNATIVES,
+): RewriteSettings {
+  return {
+    style,
+    alternatives: REWRITE_STYLES.filter((s) => s !== style).slice(0, alternatives),
+  };
+}
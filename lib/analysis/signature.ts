@@ -0,0 +1,44 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { appSecret } from "@/lib/secret";
+import type { Analysis } from "./types";
+
+// JSON with object keys sorted, so a client re-serializing the analysis in
+// another key order still matches.
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function digest(prompt: string, analysis: Omit<Analysis, "signature">): Buffer {
+  return createHmac("sha256", appSecret())
+    .update(`analysis:${canonicalJson({ prompt, analysis })}`)
+    .digest();
+}
+
+/** Attaches the server's signature over the submitted prompt and the analysis. */
+export function signAnalysis(prompt: string, analysis: Analysis): Analysis {
+  const unsigned = { ...analysis };
+  delete unsigned.signature;
+  return { ...unsigned, signature: digest(prompt, unsigned).toString("base64url") };
+}
+
+/**
+ * The analysis without its signature when this server signed it for exactly
+ * this prompt, else null: edited scores or a different prompt fail.
+ */
+export function verifyAnalysis(prompt: string, raw: unknown): Analysis | null {
+  if (!raw || typeof raw !== "object") return null;
+  const { signature, ...unsigned } = raw as Analysis;
+  if (typeof signature !== "string") return null;
+  const given = Buffer.from(signature, "base64url");
+  const expected = digest(prompt, unsigned);
+  return given.length === expected.length && timingSafeEqual(given, expected)
+    ? (unsigned as Analysis)
+    : null;
+}
@@ -0,0 +1,202 @@
+import type { AnalysisProvider, AnalyzeOptions } from "@/lib/providers/types";
+import { weightedScore } from "@/lib/rubrics";
+import type { Rubric } from "@/lib/rubrics/types";
+import { analyzeSamples } from "./consistency";
+import { buildAnalysisRequest, runModelAnalysis } from "./pipeline";
+import type { Analysis, CriterionScore } from "./types";
+import { labelForScore, repairCriterion } from "./validate";
+
+export type AnalysisEvent =
+  | { type: "rubric"; rubric: Rubric }
+  | { type: "overall"; overallScore: number; overallLabel: string }
+  | { type: "criterion"; criterion: CriterionScore }
+  | { type: "suggestion"; index: number; suggestion: string }
+  | { type: "improvedPrompt"; improvedPrompt: string }
+  | { type: "done"; analysis: Analysis };
+
+// A complete JSON string literal, including its quotes.
+const STRING = String.raw`"(?:[^"\\]|\\.)*"`;
+
+const improvedPromptPattern = new RegExp(String.raw`"improvedPrompt"\s*:\s*(${STRING})`);
+const suggestionsStartPattern = /"suggestions"\s*:\s*\[/;
+const criteriaStartPattern = /"criteria"\s*:\s*\[/;
+
+/**
+ * Returns the complete top-level objects of the array that starts at `from`,
+ * skipping braces inside string literals. An unfinished object is ignored.
+ */
+function completeArrayObjects(text: string, from: number): string[] {
+  const objects: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = from; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === "{") {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (ch === "}") {
+      depth--;
+      if (depth === 0) objects.push(text.slice(start, i + 1));
+    } else if (ch === "]" && depth === 0) {
+      break;
+    }
+  }
+  return objects;
+}
+
+/**
+ * Incrementally scans a streamed model answer and reports each part of the
+ * Analysis as soon as it is complete in the text received so far.
+ */
+export function createAnalysisScanner(rubric: Rubric) {
+  let text = "";
+  let overallSent = false;
+  let improvedSent = false;
+  const criteria: CriterionScore[] = [];
+  let suggestionsSent = 0;
+
+  function scanSuggestions(events: AnalysisEvent[]) {
+    const start = text.search(suggestionsStartPattern);
+    if (start < 0) return;
+    const literal = new RegExp(String.raw`\s*,?\s*(${STRING})`, "y");
+    literal.lastIndex = text.indexOf("[", start) + 1;
+
+    let index = 0;
+    let match: RegExpExecArray | null;
+    while ((match = literal.exec(text))) {
+      if (index >= suggestionsSent) {
+        const suggestion = JSON.parse(match[1]) as string;
+        if (suggestion.trim()) {
+          events.push({ type: "suggestion", index, suggestion });
+        }
+        suggestionsSent = index + 1;
+      }
+      index++;
+    }
+  }
+
+  return {
+    push(chunk: string): AnalysisEvent[] {
+      text += chunk;
+      const events: AnalysisEvent[] = [];
+
+      const criteriaStart = text.search(criteriaStartPattern);
+      if (criteriaStart >= 0) {
+        const from = text.indexOf("[", criteriaStart) + 1;
+        for (const object of completeArrayObjects(text, from)) {
+          let raw: unknown;
+          try {
+            raw = JSON.parse(object);
+          } catch {
+            continue;
+          }
+          const criterion = repairCriterion(raw, rubric);
+          if (criterion && !criteria.some((c) => c.id === criterion.id)) {
+            criteria.push(criterion);
+            events.push({ type: "criterion", criterion });
+          }
+        }
+      }
+
+      // The overall score is a weighted aggregate, so it is only known once
+      // every criterion has arrived.
+      if (!overallSent && criteria.length === rubric.criteria.length) {
+        const overallScore = weightedScore(rubric, criteria);
+        events.push({
+          type: "overall",
+          overallScore,
+          overallLabel: labelForScore(overallScore),
+        });
+        overallSent = true;
+      }
+
+      scanSuggestions(events);
+
+      if (!improvedSent) {
+        const improved = text.match(improvedPromptPattern);
+        if (improved) {
+          events.push({
+            type: "improvedPrompt",
+            improvedPrompt: JSON.parse(improved[1]) as string,
+          });
+          improvedSent = true;
+        }
+      }
+
+      return events;
+    },
+    get text() {
+      return text;
+    },
+  };
+}
+
+export function eventsFromAnalysis(analysis: Analysis): AnalysisEvent[] {
+  return [
+    { type: "rubric", rubric: analysis.rubric },
+    {
+      type: "overall",
+      overallScore: analysis.overallScore,
+      overallLabel: analysis.overallLabel,
+    },
+    ...analysis.criteria.map((criterion) => ({
+      type: "criterion" as const,
+      criterion,
+    })),
+    ...analysis.suggestions.map((suggestion, index) => ({
+      type: "suggestion" as const,
+      index,
+      suggestion,
+    })),
+    { type: "improvedPrompt", improvedPrompt: analysis.improvedPrompt },
+    { type: "done", analysis },
+  ];
+}
+
+/**
+ * Streams an analysis as events. Providers without streamText, and
+ * multi-sample runs, produce all events at once; model answers are validated (and repaired if needed) before
+ * the final "done" event, which always carries the authoritative Analysis.
+ */
+export async function* streamAnalysis(
+  provider: AnalysisProvider,
+  prompt: string,
+  rubric: Rubric,
+  options: Omit<AnalyzeOptions, "sampling"> & { samples?: number } = {},
+): AsyncGenerator<AnalysisEvent> {
+  const { samples = 1, ...providerOptions } = options;
+  if (!provider.streamText || !provider.generateText || samples > 1) {
+    yield* eventsFromAnalysis(
+      await analyzeSamples(provider, prompt, rubric, samples, providerOptions),
+    );
+    return;
+  }
+
+  yield { type: "rubric", rubric };
+  const scanner = createAnalysisScanner(rubric);
+  const request = buildAnalysisRequest(
+    prompt,
+    rubric,
+    providerOptions.language,
+    providerOptions.rewrite,
+  );
+  for await (const chunk of provider.streamText(request, providerOptions)) {
+    yield* scanner.push(chunk);
+  }
+
+  const analysis = await runModelAnalysis(provider.generateText, prompt, rubric, {
+    ...providerOptions,
+    firstResponse: scanner.text,
+  });
+  yield { type: "done", analysis };
+}
@@ -0,0 +1,103 @@
+import type { DetectedLanguage, LanguageSettings } from "@/lib/i18n";
+import type { Rubric } from "@/lib/rubrics/types";
+import type { ScanReport } from "@/lib/scanner";
+import type { PromptEstimate } from "@/lib/tokens";
+
+// Criterion ids are declared by the rubric, e.g. "context" or "goal".
+export type CriterionId = string;
+
+export type CriterionLevel = "missing" | "weak" | "ok" | "strong";
+
+export type CriterionScore = {
+  id: CriterionId;
+  label: string;
+  score: number;
+  level: CriterionLevel;
+  feedback: string;
+};
+
+export type AnnotationSeverity = "info" | "warning" | "error";
+
+// A comment on a span of the graded prompt. start/end are character offsets
+// into the prompt the user submitted (end exclusive); quote is that text.
+export type Annotation = {
+  criterionId: CriterionId;
+  start: number;
+  end: number;
+  quote: string;
+  severity: AnnotationSeverity;
+  comment: string;
+};
+
+export type RewriteStyle = "minimal" | "structured" | "concise" | "persona" | "chain-of-thought";
+
+// One edit of a rewrite and the criterion it addresses.
+export type RewriteChange = {
+  criterionId: CriterionId;
+  change: string;
+};
+
+export type Rewrite = {
+  style: RewriteStyle;
+  prompt: string;
+  changes: RewriteChange[];
+};
+
+// How much one criterion's score varied across samples of the same analysis.
+export type CriterionSpread = {
+  id: CriterionId;
+  min: number;
+  max: number;
+  // max - min
+  spread: number;
+  lowConfidence: boolean;
+};
+
+export type Consistency = {
+  samples: number;
+  criteria: CriterionSpread[];
+  // Spread of the samples' overall scores.
+  overallSpread: number;
+};
+
+export type Analysis = {
+  overallScore: number;
+  overallLabel: string;
+  criteria: CriterionScore[];
+  suggestions: string[];
+  improvedPrompt: string;
+  annotations: Annotation[];
+  // The rubric the prompt was graded against; filled in by the server.
+  rubric: Rubric;
+  // Pre-flight scan of the submitted prompt; offsets refer to the original
+  // text, not the redacted one the model saw.
+  scan?: ScanReport;
+  // Present when the analysis aggregates several samples.
+  consistency?: Consistency;
+  // The prompt's detected language and the languages the analysis is
+  // written in: the requested ones unless the provider could not write them
+  // (the offline heuristic only writes English). Filled in by the analyze
+  // endpoints.
+  language?: LanguageSettings & { detected: DetectedLanguage };
+  // The improvedPrompt in the requested style, then alternative rewrites in
+  // other styles, each with its changelog; present when a style was requested.
+  rewrites?: Rewrite[];
+  // Token, cost and model-fit estimate of the submitted prompt; filled in by
+  // the analyze endpoints.
+  estimate?: PromptEstimate;
+  // The server's signature over the submitted prompt and this analysis;
+  // shared reports are only marked verified when it checks out.
+  signature?: string;
+};
+
+export const CRITERION_LEVELS: CriterionLevel[] = ["missing", "weak", "ok", "strong"];
+
+export const ANNOTATION_SEVERITIES: AnnotationSeverity[] = ["info", "warning", "error"];
+
+export const REWRITE_STYLES: RewriteStyle[] = [
+  "minimal",
+  "structured",
+  "concise",
+  "persona",
+  "chain-of-thought",
+];
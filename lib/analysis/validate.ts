@@ -0,0 +1,536 @@
+import { weightedScore } from "@/lib/rubrics";
+import type { Rubric, RubricCriterion } from "@/lib/rubrics/types";
+import { locateSpan } from "./annotations";
+import type { RewriteSettings } from "./rewrite";
+import {
+  ANNOTATION_SEVERITIES,
+  CRITERION_LEVELS,
+  type Analysis,
+  type Annotation,
+  type AnnotationSeverity,
+  type CriterionLevel,
+  type CriterionScore,
+  type Rewrite,
+  type RewriteChange,
+  type RewriteStyle,
+} from "./types";
+
+// More than this and the annotated view becomes noise.
+const MAX_ANNOTATIONS = 30;
+
+export type Violation = {
+  path: string;
+  message: string;
+  // Repaired violations were fixed in place; unrepaired ones make the analysis unusable.
+  repaired: boolean;
+};
+
+export type ValidationResult = {
+  analysis: Analysis | null;
+  violations: Violation[];
+};
+
+export function levelForScore(score: number): CriterionLevel {
+  if (score < 20) return "missing";
+  if (score < 50) return "weak";
+  if (score < 80) return "ok";
+  return "strong";
+}
+
+export function labelForScore(score: number): string {
+  if (score >= 85) return "Excellent prompt";
+  if (score >= 70) return "Good prompt";
+  if (score >= 50) return "Needs work";
+  return "Needs major work";
+}
+
+/**
+ * Strips markdown code fences and surrounding chatter so that the JSON object
+ * returned by the model can be parsed: prose before the object, after it
+ * (`{...} Hope this helps`) or both is dropped.
+ */
+export function extractJson(text: string): string {
+  const cleaned = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/```$/i, "")
+    .trim();
+
+  const start = cleaned.indexOf("{");
+  const end = cleaned.lastIndexOf("}");
+  if (start >= 0 && end > start) {
+    return cleaned.slice(start, end + 1);
+  }
+  return cleaned;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function coerceScore(value: unknown): number | null {
+  const n =
+    typeof value === "number"
+      ? value
+      : typeof value === "string" && value.trim() !== ""
+        ? Number(value.trim().replace(/(\/100|%)$/, ""))
+        : NaN;
+  if (!Number.isFinite(n)) return null;
+  return Math.round(Math.min(100, Math.max(0, n)));
+}
+
+function validateScore(
+  value: unknown,
+  path: string,
+  violations: Violation[],
+): number | null {
+  const score = coerceScore(value);
+  if (score === null) {
+    violations.push({
+      path,
+      message: `Expected a number between 0 and 100, got ${JSON.stringify(value)}.`,
+      repaired: false,
+    });
+    return null;
+  }
+  if (typeof value !== "number") {
+    violations.push({
+      path,
+      message: `Expected a number, got ${JSON.stringify(value)}; coerced to ${score}.`,
+      repaired: true,
+    });
+  } else if (score !== value) {
+    violations.push({
+      path,
+      message: `Score ${value} is outside 0-100 or not an integer; clamped to ${score}.`,
+      repaired: true,
+    });
+  }
+  return score;
+}
+
+function validateCriterion(
+  definition: RubricCriterion,
+  raw: Record<string, unknown> | undefined,
+  path: string,
+  violations: Violation[],
+): CriterionScore | null {
+  const { id } = definition;
+  if (!raw) {
+    violations.push({
+      path,
+      message: `Criterion "${id}" is missing; filled in as not assessed.`,
+      repaired: true,
+    });
+    return {
+      id,
+      label: definition.label,
+      score: 0,
+      level: "missing",
+      feedback: "The model did not assess this criterion.",
+    };
+  }
+
+  const score = validateScore(raw.score, `${path}.score`, violations);
+  if (score === null) return null;
+
+  let label = definition.label;
+  if (typeof raw.label === "string" && raw.label.trim()) {
+    label = raw.label.trim();
+  } else {
+    violations.push({
+      path: `${path}.label`,
+      message: `Missing label; defaulted to "${label}".`,
+      repaired: true,
+    });
+  }
+
+  const derived = levelForScore(score);
+  let level = derived;
+  const rawLevel = typeof raw.level === "string" ? raw.level.trim().toLowerCase() : raw.level;
+  if (!CRITERION_LEVELS.includes(rawLevel as CriterionLevel)) {
+    violations.push({
+      path: `${path}.level`,
+      message: `Invalid level ${JSON.stringify(raw.level)}; derived "${derived}" from score.`,
+      repaired: true,
+    });
+  } else if (rawLevel !== derived) {
+    violations.push({
+      path: `${path}.level`,
+      message: `Level "${rawLevel}" does not match score ${score}; derived "${derived}".`,
+      repaired: true,
+    });
+  } else {
+    level = rawLevel as CriterionLevel;
+  }
+
+  let feedback = "";
+  if (typeof raw.feedback === "string" && raw.feedback.trim()) {
+    feedback = raw.feedback.trim();
+  } else {
+    violations.push({
+      path: `${path}.feedback`,
+      message: "Missing feedback; left empty.",
+      repaired: true,
+    });
+  }
+
+  return { id, label, score, level, feedback };
+}
+
+/**
+ * Validates a single criterion object on its own, e.g. one that arrived early
+ * in a streamed response. Returns null when it cannot be repaired.
+ */
+export function repairCriterion(
+  raw: unknown,
+  rubric: Rubric,
+): CriterionScore | null {
+  if (!isRecord(raw)) return null;
+  const definition = findCriterion(rubric, raw.id);
+  if (!definition) return null;
+  return validateCriterion(definition, raw, "criterion", []);
+}
+
+function findCriterion(rubric: Rubric, id: unknown): RubricCriterion | undefined {
+  if (typeof id !== "string") return undefined;
+  const normalized = id.trim().toLowerCase();
+  return rubric.criteria.find((c) => c.id === normalized);
+}
+
+/**
+ * Keeps the annotations whose range lies inside the prompt (moving them onto
+ * their quote when the offsets are off) and drops the rest. Annotations are
+ * optional, so every problem here is repaired rather than fatal.
+ */
+function validateAnnotations(
+  raw: unknown,
+  rubric: Rubric,
+  prompt: string,
+  violations: Violation[],
+): Annotation[] {
+  if (raw === undefined) {
+    violations.push({
+      path: "annotations",
+      message: "Missing annotations; defaulted to [].",
+      repaired: true,
+    });
+    return [];
+  }
+  if (!Array.isArray(raw)) {
+    violations.push({
+      path: "annotations",
+      message: "Expected an array of annotations; defaulted to [].",
+      repaired: true,
+    });
+    return [];
+  }
+
+  const annotations: Annotation[] = [];
+  raw.forEach((item, index) => {
+    const path = `annotations[${index}]`;
+    const drop = (message: string) =>
+      violations.push({ path, message: `${message}; dropped.`, repaired: true });
+
+    if (!isRecord(item)) return drop("Expected an object");
+    const definition = findCriterion(rubric, item.criterionId);
+    if (!definition) {
+      return drop(`Unknown criterion id ${JSON.stringify(item.criterionId)}`);
+    }
+    const comment = typeof item.comment === "string" ? item.comment.trim() : "";
+    if (!comment) return drop("Missing comment");
+
+    const start = Number(item.start);
+    const end = Number(item.end);
+    const quote = typeof item.quote === "string" ? item.quote : "";
+    const span = locateSpan(prompt, start, end, quote);
+    if (!span) {
+      return drop(`Range ${item.start}-${item.end} is not inside the prompt`);
+    }
+    if (span.start !== start || span.end !== end) {
+      violations.push({
+        path,
+        message: `Range ${item.start}-${item.end} does not match its quote; moved to ${span.start}-${span.end}.`,
+        repaired: true,
+      });
+    }
+
+    const rawSeverity =
+      typeof item.severity === "string" ? item.severity.trim().toLowerCase() : "";
+    let severity: AnnotationSeverity = "warning";
+    if (ANNOTATION_SEVERITIES.includes(rawSeverity as AnnotationSeverity)) {
+      severity = rawSeverity as AnnotationSeverity;
+    } else {
+      violations.push({
+        path: `${path}.severity`,
+        message: `Invalid severity ${JSON.stringify(item.severity)}; defaulted to "warning".`,
+        repaired: true,
+      });
+    }
+
+    annotations.push({
+      criterionId: definition.id,
+      ...span,
+      quote: prompt.slice(span.start, span.end),
+      severity,
+      comment,
+    });
+  });
+
+  if (annotations.length > MAX_ANNOTATIONS) {
+    violations.push({
+      path: "annotations",
+      message: `Kept the first ${MAX_ANNOTATIONS} of ${annotations.length} annotations.`,
+      repaired: true,
+    });
+  }
+  return annotations.slice(0, MAX_ANNOTATIONS).sort((a, b) => a.start - b.start);
+}
+
+function validateChanges(
+  raw: unknown,
+  rubric: Rubric,
+  path: string,
+  violations: Violation[],
+): RewriteChange[] {
+  if (!Array.isArray(raw)) {
+    violations.push({
+      path,
+      message: "Expected an array of changes; defaulted to [].",
+      repaired: true,
+    });
+    return [];
+  }
+  const changes: RewriteChange[] = [];
+  raw.forEach((item, index) => {
+    const definition = isRecord(item) ? findCriterion(rubric, item.criterionId) : undefined;
+    const change = isRecord(item) && typeof item.change === "string" ? item.change.trim() : "";
+    if (!definition || !change) {
+      violations.push({
+        path: `${path}[${index}]`,
+        message: "Expected a known criterionId and a change; dropped.",
+        repaired: true,
+      });
+      return;
+    }
+    changes.push({ criterionId: definition.id, change });
+  });
+  return changes;
+}
+
+/**
+ * Assembles the rewrites: the improvedPrompt with its changelog, then one
+ * alternative per requested style. Alternatives are optional, so a missing or
+ * broken one is dropped rather than failing the analysis.
+ */
+function validateRewrites(
+  raw: Record<string, unknown>,
+  improvedPrompt: string,
+  rewrite: RewriteSettings,
+  rubric: Rubric,
+  violations: Violation[],
+): Rewrite[] {
+  const rewrites: Rewrite[] = [
+    {
+      style: rewrite.style,
+      prompt: improvedPrompt,
+      changes: validateChanges(raw.improvedPromptChanges, rubric, "improvedPromptChanges", violations),
+    },
+  ];
+
+  const alternatives = Array.isArray(raw.alternatives) ? raw.alternatives : [];
+  if (!Array.isArray(raw.alternatives) && rewrite.alternatives.length) {
+    violations.push({
+      path: "alternatives",
+      message: "Expected an array of alternative rewrites; defaulted to [].",
+      repaired: true,
+    });
+  }
+
+  alternatives.forEach((item, index) => {
+    const path = `alternatives[${index}]`;
+    const prompt = isRecord(item) && typeof item.prompt === "string" ? item.prompt.trim() : "";
+    // A missing or unknown style is taken from the requested order.
+    const style = (
+      isRecord(item) && rewrite.alternatives.includes(item.style as RewriteStyle)
+        ? item.style
+        : rewrite.alternatives[index]
+    ) as RewriteStyle | undefined;
+    if (!isRecord(item) || !prompt || !style || rewrites.some((r) => r.style === style)) {
+      violations.push({
+        path,
+        message: "Expected a rewrite in one of the requested styles; dropped.",
+        repaired: true,
+      });
+      return;
+    }
+    rewrites.push({
+      style,
+      prompt,
+      changes: validateChanges(item.changes, rubric, `${path}.changes`, violations),
+    });
+  });
+
+  return rewrites;
+}
+
+/**
+ * Checks a parsed model response against the Analysis contract. Anything that
+ * can be fixed without guessing (clamping, coercion, missing criteria, derived
+ * levels) is repaired in place and the overall score is recomputed from the
+ * rubric weights; the rest is reported as unrepaired and leaves
+ * `analysis` null. `prompt` is the graded text the annotation ranges refer to.
+ * With rewrite settings, the changelog and alternatives become `rewrites`.
+ */
+export function validateAnalysis(
+  raw: unknown,
+  rubric: Rubric,
+  prompt: string,
+  rewrite?: RewriteSettings,
+): ValidationResult {
+  const violations: Violation[] = [];
+
+  if (!isRecord(raw)) {
+    violations.push({
+      path: "$",
+      message: "Expected a JSON object at the top level.",
+      repaired: false,
+    });
+    return { analysis: null, violations };
+  }
+
+  const byId = new Map<string, { item: Record<string, unknown>; index: number }>();
+  if (!Array.isArray(raw.criteria)) {
+    violations.push({
+      path: "criteria",
+      message: "Expected an array of criterion scores.",
+      repaired: false,
+    });
+  } else {
+    raw.criteria.forEach((item, index) => {
+      const path = `criteria[${index}]`;
+      if (!isRecord(item)) {
+        violations.push({ path, message: "Expected an object.", repaired: true });
+        return;
+      }
+      const definition = findCriterion(rubric, item.id);
+      if (!definition) {
+        violations.push({
+          path: `${path}.id`,
+          message: `Unknown criterion id ${JSON.stringify(item.id)}; dropped.`,
+          repaired: true,
+        });
+        return;
+      }
+      if (byId.has(definition.id)) {
+        violations.push({
+          path: `${path}.id`,
+          message: `Duplicate criterion "${definition.id}"; kept the first one.`,
+          repaired: true,
+        });
+        return;
+      }
+      byId.set(definition.id, { item, index });
+    });
+
+    if (byId.size === 0) {
+      violations.push({
+        path: "criteria",
+        message: "No valid criteria were returned.",
+        repaired: false,
+      });
+    }
+  }
+
+  const criteria: CriterionScore[] = [];
+  if (byId.size > 0) {
+    rubric.criteria.forEach((definition) => {
+      const found = byId.get(definition.id);
+      const path = found ? `criteria[${found.index}]` : `criteria.${definition.id}`;
+      const criterion = validateCriterion(definition, found?.item, path, violations);
+      if (criterion) criteria.push(criterion);
+    });
+  }
+
+  // The overall score is always the rubric's weighted aggregate, so the
+  // model's own number (if any) is not trusted.
+  const overallScore = weightedScore(rubric, criteria);
+  const overallLabel = labelForScore(overallScore);
+
+  let suggestions: string[] = [];
+  if (Array.isArray(raw.suggestions)) {
+    suggestions = raw.suggestions.filter(
+      (s): s is string => typeof s === "string" && s.trim() !== "",
+    );
+    if (suggestions.length !== raw.suggestions.length) {
+      violations.push({
+        path: "suggestions",
+        message: "Dropped suggestions that were not non-empty strings.",
+        repaired: true,
+      });
+    }
+  } else {
+    violations.push({
+      path: "suggestions",
+      message: "Expected an array of strings; defaulted to [].",
+      repaired: true,
+    });
+  }
+
+  const improvedPrompt =
+    typeof raw.improvedPrompt === "string" ? raw.improvedPrompt.trim() : "";
+  if (!improvedPrompt) {
+    violations.push({
+      path: "improvedPrompt",
+      message: "Expected a non-empty rewritten prompt.",
+      repaired: false,
+    });
+  }
+
+  const annotations = validateAnnotations(raw.annotations, rubric, prompt, violations);
+  const rewrites =
+    rewrite && improvedPrompt
+      ? validateRewrites(raw, improvedPrompt, rewrite, rubric, violations)
+      : undefined;
+
+  const usable =
+    violations.every((v) => v.repaired) &&
+    criteria.length === rubric.criteria.length;
+
+  return {
+    analysis: usable
+      ? {
+          overallScore,
+          overallLabel,
+          criteria,
+          suggestions,
+          improvedPrompt,
+          annotations,
+          rubric,
+          ...(rewrites && { rewrites }),
+        }
+      : null,
+    violations,
+  };
+}
+
+/**
+ * Builds the follow-up instruction sent to the model when its previous answer
+ * could not be repaired.
+ */
+export function buildRepairPrompt(previous: string, violations: Violation[]): string {
+  const problems = violations
+    .filter((v) => !v.repaired)
+    .map((v) => `- ${v.path}: ${v.message}`)
+    .join("\n");
+
+  return `Your previous response did not match the required JSON schema.
+
+Problems:
+${problems}
+
+Previous response:
+${previous}
+
+Return the corrected JSON object only, with every listed criterion, numeric 0-100 scores and a non-empty improvedPrompt.`;
+}
@@ -0,0 +1,47 @@
+import type { Limiter } from "@/lib/analysis/handler";
+import { apiKeyLimitError, rateLimitError } from "@/lib/limits";
+import { readVisitorId } from "@/lib/visitor";
+import { ApiError } from "./errors";
+import { readApiKey, verifyApiKey, type ApiKey } from "./keys";
+
+// Who is calling /api/v1: a holder of an API key, or this app's own page.
+export type Caller = { kind: "key"; key: ApiKey } | { kind: "page" };
+
+function unauthorized(message: string): ApiError {
+  return new ApiError(401, "unauthorized", message, undefined, { "WWW-Authenticate": "Bearer" });
+}
+
+/**
+ * Whether a request comes from this app's own page: it carries the signed
+ * visitor cookie, which SameSite=Strict keeps off other sites' requests, and
+ * an Origin that is this app's. Headers such as Sec-Fetch-Site are not
+ * checked; any client can send them.
+ */
+function fromOwnPage(request: Request): boolean {
+  const origin = request.headers.get("Origin");
+  return origin === new URL(request.url).origin && readVisitorId(request) !== null;
+}
+
+/**
+ * Identifies the caller of an /api/v1 endpoint. Requests without a key are
+ * only accepted from this app's own pages; they get the same per-IP and
+ * per-session limits as the unversioned endpoints, so passing as the page
+ * grants nothing those endpoints don't already.
+ */
+export async function authenticate(request: Request): Promise<Caller> {
+  const secret = readApiKey(request);
+  if (secret) {
+    const key = await verifyApiKey(secret);
+    if (!key) throw unauthorized("The API key is invalid or has been revoked.");
+    return { kind: "key", key };
+  }
+  if (fromOwnPage(request)) return { kind: "page" };
+  throw unauthorized("An API key is required: send 'Authorization: Bearer <key>'.");
+}
+
+/** Key holders are limited by their key's quota, the page per IP and session. */
+export function limiterFor(caller: Caller, request: Request): Limiter {
+  return caller.kind === "key"
+    ? (prompts, options) => apiKeyLimitError(caller.key, prompts, options)
+    : (prompts, options) => rateLimitError(request, prompts, options);
+}
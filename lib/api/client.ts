@@ -0,0 +1,156 @@
+import type { AnalysisEvent } from "@/lib/analysis/stream";
+import type { Analysis, RewriteStyle } from "@/lib/analysis/types";
+import type { AssignmentRef } from "@/lib/classroom/types";
+import type { Locale } from "@/lib/i18n";
+import type { ProviderId } from "@/lib/providers/types";
+import type { Rubric } from "@/lib/rubrics/types";
+import type { ScanMode } from "@/lib/scanner";
+import { readServerSentEvents } from "@/lib/sse";
+import { codeForStatus, type ErrorCode, type ErrorEnvelope } from "./errors";
+
+// The body of POST /api/v1/analyze; see the AnalyzeRequest schema.
+export type AnalyzeInput = {
+  prompt: string;
+  provider?: ProviderId;
+  rubric?: string;
+  scanMode?: ScanMode;
+  fresh?: boolean;
+  samples?: number;
+  language?: Locale;
+  keepSourceLanguage?: boolean;
+  rewriteStyle?: RewriteStyle;
+  alternatives?: number;
+  assignment?: AssignmentRef;
+};
+
+export type ResponseMeta = {
+  provider: ProviderId | null;
+  model: string | null;
+  cache: "HIT" | "MISS" | "BYPASS" | null;
+  requestId: string | null;
+  submissionId: string | null;
+};
+
+/**
+ * An error answered by the API. `status` is the HTTP status, or 200 for an
+ * error event inside a stream.
+ */
+export class ApiClientError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ErrorCode,
+    message: string,
+    readonly details: Record<string, unknown> = {},
+    // Seconds to wait before retrying, for 429 responses.
+    readonly retryAfter?: number,
+  ) {
+    super(message);
+    this.name = "ApiClientError";
+  }
+}
+
+export type ApiClientOptions = {
+  // Origin of the server; empty for the same origin.
+  baseUrl?: string;
+  apiKey?: string;
+  // Extra headers computed per request, e.g. a session id.
+  headers?: () => Record<string, string>;
+  // Replaces the global fetch, e.g. to call the handlers in-process.
+  fetch?: typeof fetch;
+};
+
+function metaOf(response: Response): ResponseMeta {
+  const header = (name: string) => response.headers.get(name);
+  return {
+    provider: header("X-Analyzer-Provider") as ProviderId | null,
+    model: header("X-Analyzer-Model"),
+    cache: header("X-Cache") as ResponseMeta["cache"],
+    requestId: header("X-Request-Id"),
+    submissionId: header("X-Submission-Id"),
+  };
+}
+
+async function errorOf(response: Response): Promise<ApiClientError> {
+  const body = (await response.json().catch(() => null)) as ErrorEnvelope | null;
+  const error = body?.error;
+  const retryAfter = Number(response.headers.get("Retry-After") ?? error?.details?.retryAfter);
+  return new ApiClientError(
+    response.status,
+    error?.code ?? codeForStatus(response.status),
+    error?.message ?? `Request failed (${response.status}).`,
+    error?.details,
+    Number.isFinite(retryAfter) ? retryAfter : undefined,
+  );
+}
+
+/**
+ * Typed client for /api/v1. Works in the browser, where the app's own page
+ * needs no key, and in Node 18+ with an API key.
+ */
+export function createApiClient(options: ApiClientOptions = {}) {
+  const baseUrl = options.baseUrl ?? "";
+  const send = options.fetch ?? fetch;
+
+  async function request(path: string, init: RequestInit = {}): Promise<Response> {
+    const response = await send(`${baseUrl}${path}`, {
+      ...init,
+      headers: {
+        ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+        ...options.headers?.(),
+        ...init.headers,
+      },
+    });
+    if (!response.ok) throw await errorOf(response);
+    return response;
+  }
+
+  function postAnalyze(input: AnalyzeInput, accept: string, signal?: AbortSignal) {
+    return request("/api/v1/analyze", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: accept },
+      body: JSON.stringify(input),
+      signal,
+    });
+  }
+
+  async function* events(body: ReadableStream<Uint8Array>): AsyncGenerator<AnalysisEvent> {
+    for await (const message of readServerSentEvents(body)) {
+      const data = JSON.parse(message.data);
+      if (message.event === "error") {
+        const { error } = data as ErrorEnvelope;
+        throw new ApiClientError(200, error.code, error.message, error.details);
+      }
+      yield { type: message.event, ...data } as AnalysisEvent;
+    }
+  }
+
+  return {
+    async analyze(
+      input: AnalyzeInput,
+      init: { signal?: AbortSignal } = {},
+    ): Promise<{ analysis: Analysis; meta: ResponseMeta }> {
+      const response = await postAnalyze(input, "application/json", init.signal);
+      return { analysis: (await response.json()) as Analysis, meta: metaOf(response) };
+    },
+
+    /**
+     * Streams the analysis as events; the last one is "done" with the full
+     * Analysis. Errors after the stream started are thrown while iterating.
+     */
+    async analyzeStream(
+      input: AnalyzeInput,
+      init: { signal?: AbortSignal } = {},
+    ): Promise<{ events: AsyncGenerator<AnalysisEvent>; meta: ResponseMeta }> {
+      const response = await postAnalyze(input, "text/event-stream", init.signal);
+      if (!response.body) throw new ApiClientError(502, "upstream_error", "Empty response.");
+      return { events: events(response.body), meta: metaOf(response) };
+    },
+
+    async rubrics(): Promise<Rubric[]> {
+      const response = await request("/api/v1/rubrics");
+      return ((await response.json()) as { rubrics: Rubric[] }).rubrics;
+    },
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
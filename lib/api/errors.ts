@@ -0,0 +1,87 @@
+import { jsonResponse } from "@/lib/http";
+
+export const ERROR_CODES = [
+  "invalid_request",
+  "unauthorized",
+  "forbidden",
+  "not_found",
+  "payload_too_large",
+  "prompt_blocked",
+  "rate_limited",
+  "quota_exceeded",
+  "budget_exhausted",
+  "provider_unavailable",
+  "invalid_model_output",
+  "upstream_error",
+  "internal_error",
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+// The body of every /api/v1 error response.
+export type ErrorEnvelope = {
+  error: { code: ErrorCode; message: string; details?: Record<string, unknown> };
+};
+
+/**
+ * A failed request, rendered either as the /api/v1 error envelope or as the
+ * flat `{ error, ...details }` body of the unversioned endpoints.
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ErrorCode,
+    message: string,
+    readonly details?: Record<string, unknown>,
+    readonly headers: Record<string, string> = {},
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export type ErrorStyle = "v1" | "legacy";
+
+export function errorBody(error: ApiError, style: ErrorStyle): unknown {
+  if (style === "v1") {
+    const envelope: ErrorEnvelope = {
+      error: {
+        code: error.code,
+        message: error.message,
+        ...(error.details && { details: error.details }),
+      },
+    };
+    return envelope;
+  }
+  // The unversioned endpoints have always called an upstream cause "details".
+  const { cause, ...rest } = error.details ?? {};
+  return {
+    error: error.message,
+    ...rest,
+    ...(cause !== undefined && { details: cause }),
+  };
+}
+
+export function errorResponse(error: ApiError, style: ErrorStyle): Response {
+  return jsonResponse(errorBody(error, style), error.status, error.headers);
+}
+
+// Generic codes for statuses raised by code that only knows the status.
+export function codeForStatus(status: number): ErrorCode {
+  switch (status) {
+    case 400:
+      return "invalid_request";
+    case 401:
+      return "unauthorized";
+    case 403:
+      return "forbidden";
+    case 404:
+      return "not_found";
+    case 413:
+      return "payload_too_large";
+    case 429:
+      return "rate_limited";
+    default:
+      return status >= 500 ? "internal_error" : "invalid_request";
+  }
+}
@@ -0,0 +1,38 @@
+import { dataPath, readJsonFile, writeJsonFile } from "@/lib/storage/json-file";
+import type { ApiKey, ApiKeyStore } from "./types";
+
+/**
+ * API keys kept in one JSON file (API_KEYS_FILE, default .data/api-keys.json).
+ * Writes are serialized like the history store's.
+ */
+export function createFileApiKeyStore(
+  file = process.env.API_KEYS_FILE ?? dataPath("api-keys.json"),
+): ApiKeyStore {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  function serialize<T>(task: () => Promise<T>): Promise<T> {
+    const next = queue.then(task, task);
+    queue = next.catch(() => undefined);
+    return next;
+  }
+
+  const load = () => readJsonFile<ApiKey[]>(file, []);
+
+  return {
+    list: load,
+    get: async (id) => (await load()).find((k) => k.id === id) ?? null,
+    add: (key) =>
+      serialize(async () => {
+        await writeJsonFile(file, [...(await load()), key]);
+      }),
+    revoke: (id) =>
+      serialize(async () => {
+        const keys = await load();
+        const key = keys.find((k) => k.id === id);
+        if (!key) return false;
+        if (!key.revokedAt) key.revokedAt = new Date().toISOString();
+        await writeJsonFile(file, keys);
+        return true;
+      }),
+  };
+}
@@ -0,0 +1,65 @@
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { createFileApiKeyStore } from "./file";
+import type { ApiKey, ApiKeyQuota } from "./types";
+
+export type { ApiKey, ApiKeyQuota, ApiKeyStore } from "./types";
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export const DEFAULT_QUOTA: ApiKeyQuota = {
+  perMinute: envNumber("API_KEY_PER_MINUTE", 30),
+  perDay: envNumber("API_KEY_PER_DAY", 1000),
+};
+
+export const apiKeyStore = createFileApiKeyStore();
+
+// Keys look like "pa_<id>_<secret>".
+const KEY_PATTERN = /^pa_([0-9a-f]{8})_[\w-]{32,}$/;
+
+// Keys are long random secrets, so a plain hash is enough; slow hashing is
+// for guessable secrets such as passcodes.
+function hashKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Creates and stores a key. The returned secret is the only copy; only its
+ * hash is kept.
+ */
+export async function createApiKey(
+  name: string,
+  quota: ApiKeyQuota = DEFAULT_QUOTA,
+): Promise<{ key: ApiKey; secret: string }> {
+  const id = randomBytes(4).toString("hex");
+  const secret = `pa_${id}_${randomBytes(24).toString("base64url")}`;
+  const key: ApiKey = {
+    id,
+    name,
+    hash: hashKey(secret),
+    prefix: secret.slice(0, 16),
+    quota,
+    createdAt: new Date().toISOString(),
+  };
+  await apiKeyStore.add(key);
+  return { key, secret };
+}
+
+/** Reads the key from `Authorization: Bearer <key>` or `X-Api-Key`. */
+export function readApiKey(request: Request): string | null {
+  const authorization = request.headers.get("Authorization");
+  if (authorization?.match(/^Bearer\s+/i)) return authorization.replace(/^Bearer\s+/i, "").trim();
+  return request.headers.get("X-Api-Key")?.trim() || null;
+}
+
+/** Returns the stored key a secret belongs to, or null if unknown or revoked. */
+export async function verifyApiKey(secret: string): Promise<ApiKey | null> {
+  const id = KEY_PATTERN.exec(secret)?.[1];
+  if (!id) return null;
+  const key = await apiKeyStore.get(id);
+  if (!key || key.revokedAt) return null;
+  const matches = timingSafeEqual(Buffer.from(hashKey(secret), "hex"), Buffer.from(key.hash, "hex"));
+  return matches ? key : null;
+}
@@ -0,0 +1,27 @@
+export type ApiKeyQuota = {
+  // Burst and sustained rate; each prompt sample is one request.
+  perMinute: number;
+  // Requests per UTC day.
+  perDay: number;
+};
+
+export type ApiKey = {
+  // Also embedded in the key itself, so lookups don't scan every hash.
+  id: string;
+  name: string;
+  // SHA-256 of the full key, hex encoded; the key itself is never stored.
+  hash: string;
+  // Leading characters of the key, shown in listings to tell keys apart.
+  prefix: string;
+  quota: ApiKeyQuota;
+  createdAt: string;
+  revokedAt?: string;
+};
+
+export interface ApiKeyStore {
+  list(): Promise<ApiKey[]>;
+  get(id: string): Promise<ApiKey | null>;
+  add(key: ApiKey): Promise<void>;
+  // Returns false when there is no such key.
+  revoke(id: string): Promise<boolean>;
+}
@@ -0,0 +1,356 @@
+import { MAX_SAMPLES } from "@/lib/analysis/consistency";
+import { DEFAULT_ALTERNATIVES, DEFAULT_REWRITE_STYLE, MAX_ALTERNATIVES } from "@/lib/analysis/rewrite";
+import { ANNOTATION_SEVERITIES, CRITERION_LEVELS, REWRITE_STYLES } from "@/lib/analysis/types";
+import { LOCALES } from "@/lib/i18n";
+import { MAX_PROMPT_CHARS } from "@/lib/limits";
+import { PROVIDER_IDS } from "@/lib/providers";
+import { rubrics } from "@/lib/rubrics";
+import { SCAN_MODES } from "@/lib/scanner";
+import { TOKEN_WARNING_KINDS } from "@/lib/tokens";
+import { ERROR_CODES } from "./errors";
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const integer = (minimum: number, maximum: number) => ({ type: "integer", minimum, maximum });
+
+const score = integer(0, 100);
+
+const schemas = {
+  CriterionScore: {
+    type: "object",
+    required: ["id", "label", "score", "level", "feedback"],
+    properties: {
+      id: { type: "string", description: "Criterion id declared by the rubric." },
+      label: { type: "string" },
+      score,
+      level: { enum: CRITERION_LEVELS },
+      feedback: { type: "string" },
+    },
+  },
+  Annotation: {
+    type: "object",
+    required: ["criterionId", "start", "end", "quote", "severity", "comment"],
+    properties: {
+      criterionId: { type: "string" },
+      start: { type: "integer", minimum: 0, description: "Offset into the submitted prompt." },
+      end: { type: "integer", minimum: 0, description: "Exclusive end offset." },
+      quote: { type: "string" },
+      severity: { enum: ANNOTATION_SEVERITIES },
+      comment: { type: "string" },
+    },
+  },
+  Rewrite: {
+    type: "object",
+    required: ["style", "prompt", "changes"],
+    properties: {
+      style: { enum: REWRITE_STYLES },
+      prompt: { type: "string" },
+      changes: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["criterionId", "change"],
+          properties: {
+            criterionId: { type: "string" },
+            change: { type: "string", description: "One edit and how it serves the criterion." },
+          },
+        },
+      },
+    },
+  },
+  RubricCriterion: {
+    type: "object",
+    required: ["id", "label", "description", "hint", "weight", "guidance"],
+    properties: {
+      id: { type: "string" },
+      label: { type: "string" },
+      description: { type: "string" },
+      hint: { type: "string" },
+      weight: { type: "number", exclusiveMinimum: 0 },
+      guidance: { type: "string" },
+      keywords: { type: "array", items: { type: "string" } },
+    },
+  },
+  Rubric: {
+    type: "object",
+    required: ["id", "name", "description", "criteria"],
+    properties: {
+      id: { type: "string" },
+      name: { type: "string" },
+      description: { type: "string" },
+      criteria: { type: "array", items: ref("RubricCriterion") },
+    },
+  },
+  ScanReport: {
+    type: "object",
+    required: ["mode", "findings", "redacted"],
+    properties: {
+      mode: { enum: SCAN_MODES },
+      findings: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["kind", "type", "start", "end", "message"],
+          properties: {
+            kind: { enum: ["secret", "pii", "injection"] },
+            type: { type: "string" },
+            start: { type: "integer" },
+            end: { type: "integer" },
+            message: { type: "string" },
+          },
+        },
+      },
+      redacted: { type: "boolean" },
+    },
+  },
+  Consistency: {
+    type: "object",
+    required: ["samples", "criteria", "overallSpread"],
+    properties: {
+      samples: integer(2, MAX_SAMPLES),
+      criteria: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["id", "min", "max", "spread", "lowConfidence"],
+          properties: {
+            id: { type: "string" },
+            min: score,
+            max: score,
+            spread: score,
+            lowConfidence: { type: "boolean" },
+          },
+        },
+      },
+      overallSpread: score,
+    },
+  },
+  Estimate: {
+    type: "object",
+    description: "Local estimate; real tokenizers differ by 10-15%.",
+    required: ["inputTokens", "output", "sections", "models", "warnings"],
+    properties: {
+      inputTokens: { type: "integer", minimum: 0 },
+      output: {
+        type: "object",
+        required: ["tokens", "basis"],
+        properties: {
+          tokens: { type: "integer", minimum: 0 },
+          basis: { type: "string", description: "What the length was inferred from." },
+        },
+      },
+      sections: {
+        type: "object",
+        required: ["instructions", "context", "examples"],
+        properties: {
+          instructions: { type: "integer", minimum: 0 },
+          context: { type: "integer", minimum: 0 },
+          examples: { type: "integer", minimum: 0 },
+        },
+      },
+      models: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["model", "label", "inputTokens", "outputTokens", "cost", "contextShare", "fits"],
+          properties: {
+            model: { type: "string" },
+            label: { type: "string" },
+            inputTokens: { type: "integer", minimum: 0 },
+            outputTokens: { type: "integer", minimum: 0 },
+            cost: { type: "number", minimum: 0, description: "USD per call at list prices." },
+            contextShare: { type: "number", minimum: 0 },
+            fits: { type: "boolean" },
+          },
+        },
+      },
+      warnings: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["kind", "message"],
+          properties: {
+            kind: { enum: TOKEN_WARNING_KINDS },
+            message: { type: "string" },
+          },
+        },
+      },
+    },
+  },
+  Analysis: {
+    type: "object",
+    required: [
+      "overallScore",
+      "overallLabel",
+      "criteria",
+      "suggestions",
+      "improvedPrompt",
+      "annotations",
+      "rubric",
+    ],
+    properties: {
+      overallScore: { ...score, description: "Weighted by the rubric's criterion weights." },
+      overallLabel: { type: "string" },
+      criteria: { type: "array", items: ref("CriterionScore") },
+      suggestions: { type: "array", items: { type: "string" } },
+      improvedPrompt: { type: "string" },
+      annotations: { type: "array", items: ref("Annotation") },
+      rewrites: {
+        type: "array",
+        items: ref("Rewrite"),
+        description: "The requested style first (its prompt is improvedPrompt), then the alternatives.",
+      },
+      rubric: ref("Rubric"),
+      scan: ref("ScanReport"),
+      consistency: ref("Consistency"),
+      language: {
+        type: "object",
+        required: ["detected", "feedback", "improvedPrompt"],
+        properties: {
+          detected: { enum: [...LOCALES, "unknown"] },
+          feedback: { enum: [...LOCALES, "source"] },
+          improvedPrompt: { enum: [...LOCALES, "source"] },
+        },
+      },
+      estimate: ref("Estimate"),
+      signature: {
+        type: "string",
+        description: "Server signature over the submitted prompt and this analysis.",
+      },
+    },
+  },
+  AnalyzeRequest: {
+    type: "object",
+    required: ["prompt"],
+    properties: {
+      prompt: { type: "string", minLength: 1, maxLength: MAX_PROMPT_CHARS },
+      provider: { enum: PROVIDER_IDS, description: "Server default when omitted." },
+      rubric: { enum: rubrics.map((r) => r.id), default: rubrics[0].id },
+      scanMode: { enum: SCAN_MODES },
+      fresh: { type: "boolean", default: false, description: "Skip the response cache." },
+      samples: { ...integer(1, MAX_SAMPLES), default: 1 },
+      language: { enum: LOCALES, description: "Feedback language; the prompt's own by default." },
+      keepSourceLanguage: { type: "boolean", default: false },
+      rewriteStyle: { enum: REWRITE_STYLES, default: DEFAULT_REWRITE_STYLE },
+      alternatives: {
+        ...integer(0, MAX_ALTERNATIVES),
+        default: DEFAULT_ALTERNATIVES,
+        description: "Extra rewrites in other styles.",
+      },
+      assignment: {
+        type: "object",
+        required: ["code", "student", "passcode"],
+        properties: {
+          code: { type: "string" },
+          student: { type: "string" },
+          passcode: { type: "string" },
+        },
+      },
+    },
+  },
+  Error: {
+    type: "object",
+    required: ["error"],
+    properties: {
+      error: {
+        type: "object",
+        required: ["code", "message"],
+        properties: {
+          code: { enum: ERROR_CODES },
+          message: { type: "string" },
+          details: { type: "object", additionalProperties: true },
+        },
+      },
+    },
+  },
+};
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: ref("Error") } },
+});
+
+/**
+ * The OpenAPI 3.1 document for /api/v1, generated from the same constants
+ * the endpoints validate against.
+ */
+export function buildOpenApiDocument() {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Prompt Analyzer API",
+      version: "1.0.0",
+      description:
+        "Grades prompts against a rubric. Every error uses the Error envelope; 429 responses carry Retry-After.",
+    },
+    servers: [{ url: "/" }],
+    security: [{ apiKey: [] }, { apiKeyHeader: [] }],
+    paths: {
+      "/api/v1/analyze": {
+        post: {
+          operationId: "analyze",
+          summary: "Grade a prompt",
+          description:
+            "Send 'Accept: text/event-stream' to receive rubric, criterion, overall, suggestion and improvedPrompt events followed by done (the Analysis) or error (the Error envelope).",
+          requestBody: {
+            required: true,
+            content: { "application/json": { schema: ref("AnalyzeRequest") } },
+          },
+          responses: {
+            200: {
+              description: "The analysis.",
+              headers: {
+                "X-Cache": { schema: { enum: ["HIT", "MISS", "BYPASS"] } },
+                "X-Analyzer-Provider": { schema: { type: "string" } },
+                "X-Request-Id": { schema: { type: "string" } },
+              },
+              content: {
+                "application/json": { schema: ref("Analysis") },
+                "text/event-stream": { schema: { type: "string" } },
+              },
+            },
+            400: errorResponse("invalid_request"),
+            401: errorResponse("unauthorized"),
+            413: errorResponse("payload_too_large"),
+            422: errorResponse("prompt_blocked"),
+            429: errorResponse("quota_exceeded, rate_limited or budget_exhausted"),
+            500: errorResponse("provider_unavailable, upstream_error or internal_error"),
+            502: errorResponse("invalid_model_output"),
+          },
+        },
+      },
+      "/api/v1/rubrics": {
+        get: {
+          operationId: "listRubrics",
+          summary: "List the rubrics",
+          security: [],
+          responses: {
+            200: {
+              description: "The built-in rubrics.",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    required: ["rubrics"],
+                    properties: { rubrics: { type: "array", items: ref("Rubric") } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    components: {
+      schemas,
+      securitySchemes: {
+        apiKey: {
+          type: "http",
+          scheme: "bearer",
+          description: "A key created with `npm run api-keys -- create <name>`.",
+        },
+        apiKeyHeader: { type: "apiKey", in: "header", name: "X-Api-Key" },
+      },
+    },
+  };
+}
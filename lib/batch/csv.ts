@@ -0,0 +1,87 @@
+import type { Rubric } from "@/lib/rubrics/types";
+import type { BatchResult } from "./types";
+
+/**
+ * Parses RFC 4180 style CSV: comma separated, fields optionally quoted with
+ * doubled quotes as escapes, and newlines allowed inside quoted fields.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+// Spreadsheets run cells starting with these as formulas.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function escapeCsv(value: string | number): string {
+  // Prompts and model text are quoted out of formulas; scores stay numbers.
+  const text =
+    typeof value === "string" && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per item with one column per criterion score of the rubric.
+ */
+export function toResultsCsv(results: BatchResult[], rubric: Rubric): string {
+  const header = [
+    "id",
+    "prompt",
+    "status",
+    "overallScore",
+    ...rubric.criteria.map((c) => c.id),
+    "error",
+  ];
+
+  const rows = results.map((r) =>
+    r.status === "ok"
+      ? [
+          r.id,
+          r.prompt,
+          r.status,
+          r.analysis.overallScore,
+          ...rubric.criteria.map(
+            (c) => r.analysis.criteria.find((s) => s.id === c.id)?.score ?? "",
+          ),
+          "",
+        ]
+      : [r.id, r.prompt, r.status, "", ...rubric.criteria.map(() => ""), r.error],
+  );
+
+  return [header, ...rows].map((row) => row.map(escapeCsv).join(",")).join("\r\n");
+}
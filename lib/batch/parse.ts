@@ -0,0 +1,75 @@
+import { parseCsv } from "./csv";
+import type { BatchItem } from "./types";
+
+export class BatchInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BatchInputError";
+  }
+}
+
+function toItem(raw: unknown, index: number): BatchItem {
+  if (typeof raw === "string") {
+    return { id: String(index + 1), prompt: raw };
+  }
+  const record = (raw ?? {}) as { id?: unknown; prompt?: unknown };
+  if (typeof record.prompt !== "string") {
+    throw new BatchInputError(`Item ${index + 1} has no 'prompt' string.`);
+  }
+  const id =
+    typeof record.id === "string" || typeof record.id === "number"
+      ? String(record.id)
+      : String(index + 1);
+  return { id, prompt: record.prompt };
+}
+
+/**
+ * Accepts either plain strings or { id, prompt } objects. Items with an empty
+ * prompt are kept so they show up as per-item errors.
+ */
+export function normalizeBatchItems(raw: unknown): BatchItem[] {
+  if (!Array.isArray(raw)) {
+    throw new BatchInputError("Field 'prompts' must be an array.");
+  }
+  return raw.map(toItem);
+}
+
+function parseJsonl(text: string): BatchItem[] {
+  return text
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: line.trim(), index }))
+    .filter(({ line }) => line !== "")
+    .map(({ line, index }) => {
+      try {
+        return JSON.parse(line) as unknown;
+      } catch {
+        throw new BatchInputError(`Line ${index + 1} is not valid JSON.`);
+      }
+    })
+    .map(toItem);
+}
+
+function parseCsvItems(text: string): BatchItem[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const columns = header.map((h) => h.trim().toLowerCase());
+  const promptColumn = columns.indexOf("prompt");
+  const idColumn = columns.indexOf("id");
+  if (promptColumn < 0) {
+    throw new BatchInputError("CSV needs a 'prompt' column (and optionally 'id').");
+  }
+  return rows.map((row, index) => ({
+    id: (idColumn >= 0 && row[idColumn]?.trim()) || String(index + 1),
+    prompt: row[promptColumn] ?? "",
+  }));
+}
+
+/**
+ * Parses an uploaded batch file. JSONL is detected from the file name or from
+ * the first non-blank character; anything else is read as CSV.
+ */
+export function parseBatchFile(name: string, text: string): BatchItem[] {
+  const isJsonl =
+    /\.(jsonl|ndjson)$/i.test(name) || (!/\.csv$/i.test(name) && text.trimStart().startsWith("{"));
+  return isJsonl ? parseJsonl(text) : parseCsvItems(text);
+}
@@ -0,0 +1,76 @@
+import type { Analysis } from "@/lib/analysis/types";
+import type { BatchItem, BatchResult } from "./types";
+
+export type BatchOptions = {
+  concurrency: number;
+  // Extra attempts per item after the first failure.
+  retries: number;
+  signal?: AbortSignal;
+  onResult?: (result: BatchResult, index: number) => void;
+  // Errors for which retrying cannot help, e.g. invalid input.
+  isRetryable?: (error: unknown) => boolean;
+};
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Analyzes items with at most `concurrency` in flight, retrying failures with
+ * exponential backoff. Results keep the order of the input.
+ */
+export async function runBatch(
+  items: BatchItem[],
+  analyze: (prompt: string) => Promise<Analysis>,
+  options: BatchOptions,
+): Promise<BatchResult[]> {
+  const results: BatchResult[] = new Array(items.length);
+  let next = 0;
+
+  async function runItem(item: BatchItem): Promise<BatchResult> {
+    if (!item.prompt.trim()) {
+      return { ...item, status: "error", error: "Prompt is empty.", attempts: 0 };
+    }
+
+    let attempts = 0;
+    while (true) {
+      attempts++;
+      try {
+        return { ...item, status: "ok", analysis: await analyze(item.prompt), attempts };
+      } catch (error) {
+        const retryable = options.isRetryable?.(error) ?? true;
+        if (!retryable || attempts > options.retries || options.signal?.aborted) {
+          return {
+            ...item,
+            status: "error",
+            error: error instanceof Error ? error.message : String(error),
+            attempts,
+          };
+        }
+        await delay(500 * 2 ** (attempts - 1), options.signal);
+      }
+    }
+  }
+
+  async function worker() {
+    while (next < items.length && !options.signal?.aborted) {
+      const index = next++;
+      results[index] = await runItem(items[index]);
+      options.onResult?.(results[index], index);
+    }
+  }
+
+  const workers = Math.max(1, Math.min(options.concurrency, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results.filter(Boolean);
+}
@@ -0,0 +1,10 @@
+import type { Analysis } from "@/lib/analysis/types";
+
+export type BatchItem = {
+  id: string;
+  prompt: string;
+};
+
+export type BatchResult =
+  | { id: string; prompt: string; status: "ok"; analysis: Analysis; attempts: number }
+  | { id: string; prompt: string; status: "error"; error: string; attempts: number };
@@ -0,0 +1,155 @@
+import type { CriterionLevel } from "@/lib/analysis/types";
+import { levelForScore } from "@/lib/analysis/validate";
+import { weightedScore } from "@/lib/rubrics";
+import { generalRubric } from "@/lib/rubrics/builtin";
+
+// The builder walks through the criteria of the general rubric, one step each.
+export const builderRubric = generalRubric;
+
+export type BuilderState = {
+  // Context
+  role: string;
+  audience: string;
+  background: string;
+  // Goal
+  task: string;
+  outcome: string;
+  // Format
+  formatPreset: string;
+  formatDetails: string;
+  // Constraints
+  tone: string;
+  wordLimit: string;
+  rules: string;
+  // Examples, one per slot
+  examples: string[];
+};
+
+export const AUDIENCES = [
+  "complete beginners",
+  "high-school students",
+  "university students",
+  "working professionals",
+  "domain experts",
+  "children",
+  "the general public",
+];
+
+export const FORMAT_PRESETS: { id: string; label: string; text: string }[] = [
+  { id: "bullets", label: "Bullet list", text: "A bullet-point list with short explanations." },
+  { id: "steps", label: "Numbered steps", text: "Numbered steps, one action per step." },
+  { id: "table", label: "Table", text: "A markdown table with a header row." },
+  { id: "essay", label: "Short essay", text: "A few short paragraphs with a title." },
+  { id: "email", label: "Email", text: "An email with a subject line, greeting and sign-off." },
+  { id: "slides", label: "Slide outline", text: "A slide outline: a title and 3-5 bullets per slide." },
+  { id: "json", label: "JSON", text: "A JSON object only, no prose around it." },
+];
+
+export const TONES = ["simple", "friendly", "formal", "professional", "playful", "concise"];
+
+export const MAX_EXAMPLE_SLOTS = 3;
+
+export function emptyBuilderState(): BuilderState {
+  return {
+    role: "",
+    audience: "",
+    background: "",
+    task: "",
+    outcome: "",
+    formatPreset: "",
+    formatDetails: "",
+    tone: "",
+    wordLimit: "",
+    rules: "",
+    examples: [""],
+  };
+}
+
+function sentence(text: string): string {
+  const trimmed = text.trim();
+  return !trimmed || /[.!?:]$/.test(trimmed) ? trimmed : `${trimmed}.`;
+}
+
+/**
+ * Assembles the builder fields into a prompt laid out like the sample prompt:
+ * a role line followed by labelled sections. Empty fields are left out.
+ */
+export function assembleBuilderPrompt(state: BuilderState): string {
+  const lines: string[] = [];
+  const role = state.role.trim().replace(/^(you are|act as)\s+/i, "");
+  if (role) lines.push(`You are ${sentence(role)}`, "");
+
+  const context = [
+    sentence(state.background),
+    state.audience ? `The audience is ${state.audience}.` : "",
+  ].filter(Boolean);
+  if (context.length) lines.push(`Context: ${context.join(" ")}`);
+
+  if (state.task.trim()) lines.push(`Task: ${sentence(state.task)}`);
+  const outcome = state.outcome.trim().replace(/^by the end,?\s*(i want\s+)?/i, "");
+  if (outcome) lines.push(`Goal: By the end, I want ${sentence(outcome)}`);
+
+  const preset = FORMAT_PRESETS.find((p) => p.id === state.formatPreset);
+  const format = [preset?.text ?? "", sentence(state.formatDetails)].filter(Boolean);
+  if (format.length) lines.push(`Output format: ${format.join(" ")}`);
+
+  if (state.tone) {
+    lines.push(`Tone/style: ${state.tone[0].toUpperCase()}${state.tone.slice(1)}.`);
+  }
+
+  const limit = Number(state.wordLimit);
+  const constraints = [
+    Number.isFinite(limit) && limit > 0 ? `Keep it under ${Math.round(limit)} words.` : "",
+    sentence(state.rules),
+  ].filter(Boolean);
+  if (constraints.length) lines.push(`Constraints: ${constraints.join(" ")}`);
+
+  const examples = state.examples.map((e) => e.trim()).filter(Boolean);
+  if (examples.length === 1) {
+    lines.push(`Examples: ${examples[0]}`);
+  } else if (examples.length > 1) {
+    lines.push("Examples:", ...examples.map((e, i) => `${i + 1}. ${e}`));
+  }
+
+  return lines.join("\n").trim();
+}
+
+export type StepCompleteness = {
+  id: string;
+  score: number;
+  level: CriterionLevel;
+};
+
+const filled = (value: string) => value.trim().length > 0;
+
+/**
+ * Instant, local completeness of the builder fields per criterion (0-100) and
+ * overall, using the rubric weights. This only measures which fields are
+ * filled in; the analyzer still judges how good they are.
+ */
+export function builderCompleteness(state: BuilderState): {
+  steps: StepCompleteness[];
+  overall: number;
+} {
+  const examples = state.examples.filter(filled).length;
+  const points: Record<string, number> = {
+    context:
+      (filled(state.role) ? 40 : 0) +
+      (filled(state.audience) ? 30 : 0) +
+      (filled(state.background) ? 30 : 0),
+    goal: (filled(state.task) ? 70 : 0) + (filled(state.outcome) ? 30 : 0),
+    format: (filled(state.formatPreset) ? 70 : 0) + (filled(state.formatDetails) ? 30 : 0),
+    constraints:
+      (filled(state.tone) ? 40 : 0) +
+      (Number(state.wordLimit) > 0 ? 40 : 0) +
+      (filled(state.rules) ? 20 : 0),
+    examples: examples >= 2 ? 100 : examples === 1 ? 70 : 0,
+  };
+
+  const steps = builderRubric.criteria.map((c) => ({
+    id: c.id,
+    score: points[c.id] ?? 0,
+    level: levelForScore(points[c.id] ?? 0),
+  }));
+  return { steps, overall: weightedScore(builderRubric, steps) };
+}
@@ -0,0 +1,77 @@
+import { createHash } from "node:crypto";
+import { buildSystemInstruction } from "@/lib/analysis/instruction";
+import type { RewriteSettings } from "@/lib/analysis/rewrite";
+import type { Analysis } from "@/lib/analysis/types";
+import type { LanguageSettings } from "@/lib/i18n";
+import { cacheLookups } from "@/lib/observability";
+import type { AnalysisProvider } from "@/lib/providers/types";
+import type { Rubric } from "@/lib/rubrics/types";
+import { createLruCache, type LruCache } from "./lru";
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const entries = createLruCache<Analysis>({
+  maxEntries: envNumber("ANALYSIS_CACHE_MAX_ENTRIES", 500),
+  ttlMs: envNumber("ANALYSIS_CACHE_TTL_SECONDS", 3600) * 1000,
+});
+
+// Counts hits and misses for /api/metrics; fresh requests never look up.
+export const analysisCache: LruCache<Analysis> = {
+  get(key) {
+    const value = entries.get(key);
+    cacheLookups.inc({ result: value ? "hit" : "miss" });
+    return value;
+  },
+  set: (key, value) => entries.set(key, value),
+  delete: (key) => entries.delete(key),
+  get size() {
+    return entries.size;
+  },
+};
+
+function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Identifies the grading instruction a rubric produces, so editing either the
+ * instruction template or the rubric invalidates earlier cache entries.
+ */
+export function instructionVersion(rubric: Rubric): string {
+  return sha256(buildSystemInstruction(rubric)).slice(0, 12);
+}
+
+export function normalizePrompt(prompt: string): string {
+  return prompt.trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Multi-sample results are cached separately per sample count. The analyze
+ * endpoints always pass their language and rewrite settings, so their entries
+ * are keyed per language, style and alternatives; only batch and coach runs,
+ * which pass neither, use the shorter key, and never share entries with them.
+ */
+export function analysisCacheKey(
+  provider: AnalysisProvider,
+  rubric: Rubric,
+  prompt: string,
+  samples = 1,
+  language?: LanguageSettings,
+  rewrite?: RewriteSettings,
+): string {
+  return sha256(
+    JSON.stringify([
+      provider.id,
+      provider.model,
+      rubric.id,
+      instructionVersion(rubric),
+      normalizePrompt(prompt),
+      ...(samples > 1 ? [samples] : []),
+      ...(language ? [language.feedback, language.improvedPrompt] : []),
+      ...(rewrite ? [rewrite.style, ...rewrite.alternatives] : []),
+    ]),
+  );
+}
@@ -0,0 +1,42 @@
+export type LruCache<V> = {
+  get(key: string): V | undefined;
+  set(key: string, value: V): void;
+  delete(key: string): void;
+  readonly size: number;
+};
+
+/**
+ * Size-bounded LRU cache with a per-entry time to live. Relies on Map keeping
+ * insertion order: reads re-insert the entry, so the first key is always the
+ * least recently used one.
+ */
+export function createLruCache<V>(options: {
+  maxEntries: number;
+  ttlMs: number;
+}): LruCache<V> {
+  const entries = new Map<string, { value: V; expiresAt: number }>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return undefined;
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set(key, value) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + options.ttlMs });
+      while (entries.size > options.maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+    delete(key) {
+      entries.delete(key);
+    },
+    get size() {
+      return entries.size;
+    },
+  };
+}
@@ -0,0 +1,112 @@
+import type { Rubric } from "@/lib/rubrics/types";
+import { publicAssignment } from "./index";
+import { passes } from "./passing";
+import type { Assignment, PublicAssignment, Submission } from "./types";
+
+export type CriterionSummary = {
+  id: string;
+  label: string;
+  // Mean over each student's latest submission.
+  average: number;
+  passingScore: number;
+  // Share of students whose latest submission meets the passing score.
+  passRate: number;
+};
+
+export type SubmissionSummary = {
+  id: string;
+  createdAt: string;
+  prompt: string;
+  overallScore: number;
+  passed: boolean;
+};
+
+export type StudentSummary = {
+  name: string;
+  submissions: number;
+  best: SubmissionSummary;
+  latest: SubmissionSummary;
+};
+
+export type Dashboard = {
+  assignment: PublicAssignment;
+  submissions: number;
+  criteria: CriterionSummary[];
+  // Up to three criteria furthest below (or least above) their passing score.
+  weakest: CriterionSummary[];
+  students: StudentSummary[];
+};
+
+const WEAKEST_COUNT = 3;
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Aggregates an assignment's submissions for its instructor. Class averages
+ * use each student's latest submission, so they track where the class stands
+ * now rather than every early draft.
+ */
+export function buildDashboard(
+  assignment: Assignment,
+  rubric: Rubric,
+  submissions: Submission[],
+): Dashboard {
+  const byStudent = new Map<string, Submission[]>();
+  for (const s of [...submissions].sort((a, b) => a.createdAt.localeCompare(b.createdAt))) {
+    const key = s.student.toLowerCase();
+    byStudent.set(key, [...(byStudent.get(key) ?? []), s]);
+  }
+
+  const summarize = (s: Submission): SubmissionSummary => ({
+    id: s.id,
+    createdAt: s.createdAt,
+    prompt: s.prompt,
+    overallScore: s.analysis.overallScore,
+    passed: passes(assignment, s.analysis),
+  });
+
+  const students: StudentSummary[] = [...byStudent.values()]
+    .map((list) => {
+      const latest = list[list.length - 1];
+      const best = list.reduce((a, b) =>
+        b.analysis.overallScore > a.analysis.overallScore ? b : a,
+      );
+      return {
+        name: latest.student,
+        submissions: list.length,
+        best: summarize(best),
+        latest: summarize(latest),
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const latest = [...byStudent.values()].map((list) => list[list.length - 1]);
+  const criteria: CriterionSummary[] = rubric.criteria.map((c) => {
+    const scores = latest.map((s) => s.analysis.criteria.find((x) => x.id === c.id)?.score ?? 0);
+    const passingScore = assignment.passingScores[c.id] ?? 0;
+    const passing = scores.filter((score) => score >= passingScore).length;
+    return {
+      id: c.id,
+      label: c.label,
+      average: scores.length ? round(scores.reduce((a, b) => a + b, 0) / scores.length) : 0,
+      passingScore,
+      passRate: scores.length ? Math.round((passing / scores.length) * 100) / 100 : 0,
+    };
+  });
+
+  const weakest = latest.length
+    ? [...criteria]
+        .sort((a, b) => a.average - a.passingScore - (b.average - b.passingScore))
+        .slice(0, WEAKEST_COUNT)
+    : [];
+
+  return {
+    assignment: publicAssignment(assignment),
+    submissions: submissions.length,
+    criteria,
+    weakest,
+    students,
+  };
+}
@@ -0,0 +1,60 @@
+import { dataPath, readJsonFile, writeJsonFile } from "@/lib/storage/json-file";
+import type { Assignment, ClassroomStore, Student, Submission } from "./types";
+
+type ClassroomData = {
+  assignments: Assignment[];
+  students: Student[];
+  submissions: Submission[];
+};
+
+const empty: ClassroomData = { assignments: [], students: [], submissions: [] };
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Assignments, students and submissions kept in one JSON file
+ * (CLASSROOM_FILE, default .data/classroom.json). Writes are serialized like
+ * the history store's.
+ */
+export function createFileClassroomStore(
+  file = process.env.CLASSROOM_FILE ?? dataPath("classroom.json"),
+): ClassroomStore {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  function serialize<T>(task: () => Promise<T>): Promise<T> {
+    const next = queue.then(task, task);
+    queue = next.catch(() => undefined);
+    return next;
+  }
+
+  const load = () => readJsonFile<ClassroomData>(file, empty);
+
+  return {
+    createAssignment: (assignment) =>
+      serialize(async () => {
+        const data = await load();
+        await writeJsonFile(file, { ...data, assignments: [...data.assignments, assignment] });
+      }),
+    findAssignment: async (code) =>
+      (await load()).assignments.find((a) => a.code === code.trim().toUpperCase()) ?? null,
+    registerStudent: (student) =>
+      serialize(async () => {
+        const data = await load();
+        const existing = data.students.find(
+          (s) => s.assignmentId === student.assignmentId && sameName(s.name, student.name),
+        );
+        if (existing) return existing;
+        await writeJsonFile(file, { ...data, students: [...data.students, student] });
+        return student;
+      }),
+    addSubmission: (submission) =>
+      serialize(async () => {
+        const data = await load();
+        await writeJsonFile(file, { ...data, submissions: [...data.submissions, submission] });
+      }),
+    submissions: async (assignmentId) =>
+      (await load()).submissions.filter((s) => s.assignmentId === assignmentId),
+  };
+}
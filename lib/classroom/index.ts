@@ -0,0 +1,205 @@
+import { randomInt } from "node:crypto";
+import type { Analysis } from "@/lib/analysis/types";
+import { getRubric, rubrics } from "@/lib/rubrics";
+import type { Rubric } from "@/lib/rubrics/types";
+import { createFileClassroomStore } from "./file";
+import { hashPasscode, verifyPasscode } from "./passcode";
+import type {
+  Assignment,
+  AssignmentRef,
+  PublicAssignment,
+  Student,
+  Submission,
+} from "./types";
+
+export { passes } from "./passing";
+export type { Assignment, AssignmentRef, PublicAssignment, Submission } from "./types";
+
+/**
+ * A classroom request that cannot be served; `status` is the HTTP status to
+ * answer with.
+ */
+export class ClassroomError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "ClassroomError";
+  }
+}
+
+// One store per process so the analyze and classroom routes share its write
+// queue.
+export const classroomStore = createFileClassroomStore();
+
+// Long enough that guessing, at the rate limit's pace, is hopeless.
+const MIN_PASSCODE_LENGTH = 8;
+const MAX_NAME_LENGTH = 60;
+// No 0/O or 1/I, which are easy to mix up when read aloud.
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 6;
+
+function field(raw: Record<string, unknown>, key: string, max = 4000): string {
+  const value = raw[key];
+  if (typeof value !== "string" || !value.trim()) {
+    throw new ClassroomError(`Field '${key}' (non-empty string) is required.`, 400);
+  }
+  if (value.length > max) {
+    throw new ClassroomError(`Field '${key}' is longer than ${max} characters.`, 400);
+  }
+  return value.trim();
+}
+
+function passcodeField(raw: Record<string, unknown>): string {
+  const passcode = raw.passcode;
+  if (typeof passcode !== "string" || passcode.length < MIN_PASSCODE_LENGTH) {
+    throw new ClassroomError(
+      `Field 'passcode' must be at least ${MIN_PASSCODE_LENGTH} characters.`,
+      400,
+    );
+  }
+  return passcode;
+}
+
+export function publicAssignment(assignment: Assignment): PublicAssignment {
+  const { id, code, title, task, rubricId, passingScores, createdAt } = assignment;
+  return { id, code, title, task, rubricId, passingScores, createdAt };
+}
+
+async function newCode(): Promise<string> {
+  for (;;) {
+    const code = Array.from(
+      { length: CODE_LENGTH },
+      () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)],
+    ).join("");
+    if (!(await classroomStore.findAssignment(code))) return code;
+  }
+}
+
+/**
+ * Creates an assignment from an instructor's request body:
+ * { title, task, rubric, passingScores?, passcode }.
+ */
+export async function createAssignment(body: unknown): Promise<Assignment> {
+  const raw = (body || {}) as Record<string, unknown>;
+  const title = field(raw, "title", 200);
+  const task = field(raw, "task");
+  const passcode = passcodeField(raw);
+
+  const rubric = typeof raw.rubric === "string" ? getRubric(raw.rubric) : undefined;
+  if (!rubric) {
+    throw new ClassroomError(
+      `Field 'rubric' must be one of: ${rubrics.map((r) => r.id).join(", ")}.`,
+      400,
+    );
+  }
+
+  const passingScores: Record<string, number> = {};
+  const rawScores = (raw.passingScores ?? {}) as Record<string, unknown>;
+  for (const [id, score] of Object.entries(rawScores)) {
+    if (!rubric.criteria.some((c) => c.id === id)) {
+      throw new ClassroomError(`Unknown criterion "${id}" in 'passingScores'.`, 400);
+    }
+    if (typeof score !== "number" || score < 0 || score > 100) {
+      throw new ClassroomError(`Passing score for "${id}" must be a number from 0 to 100.`, 400);
+    }
+    if (score > 0) passingScores[id] = Math.round(score);
+  }
+
+  const assignment: Assignment = {
+    id: crypto.randomUUID(),
+    code: await newCode(),
+    title,
+    task,
+    rubricId: rubric.id,
+    passingScores,
+    instructorPasscode: await hashPasscode(passcode),
+    createdAt: new Date().toISOString(),
+  };
+  await classroomStore.createAssignment(assignment);
+  return assignment;
+}
+
+export async function findAssignment(code: string): Promise<Assignment> {
+  const assignment = await classroomStore.findAssignment(code);
+  if (!assignment) throw new ClassroomError(`No assignment with code "${code}".`, 404);
+  return assignment;
+}
+
+/**
+ * Looks up an assignment for its instructor, checking their passcode.
+ */
+export async function openAssignment(code: string, passcode: string): Promise<Assignment> {
+  const assignment = await findAssignment(code);
+  if (!(await verifyPasscode(passcode, assignment.instructorPasscode))) {
+    throw new ClassroomError("Wrong instructor passcode.", 403);
+  }
+  return assignment;
+}
+
+/**
+ * Checks the 'assignment' field of an analyze request.
+ */
+export function parseAssignmentRef(value: unknown): AssignmentRef {
+  if (typeof value !== "object" || value === null) {
+    throw new ClassroomError(
+      "Field 'assignment' must be { code, student, passcode }.",
+      400,
+    );
+  }
+  const raw = value as Record<string, unknown>;
+  return {
+    code: field(raw, "code", 20),
+    student: field(raw, "student", MAX_NAME_LENGTH),
+    passcode: passcodeField(raw),
+  };
+}
+
+export type Enrollment = {
+  assignment: Assignment;
+  student: Student;
+  rubric: Rubric;
+};
+
+/**
+ * Resolves a student's submission target. The first submission under a name
+ * sets that student's passcode; later ones must match it.
+ */
+export async function enroll(ref: AssignmentRef): Promise<Enrollment> {
+  const assignment = await findAssignment(ref.code);
+  const rubric = getRubric(assignment.rubricId);
+  if (!rubric) {
+    throw new ClassroomError(`Assignment rubric "${assignment.rubricId}" no longer exists.`, 409);
+  }
+  const student = await classroomStore.registerStudent({
+    assignmentId: assignment.id,
+    name: ref.student,
+    passcode: await hashPasscode(ref.passcode),
+    joinedAt: new Date().toISOString(),
+  });
+  if (!(await verifyPasscode(ref.passcode, student.passcode))) {
+    throw new ClassroomError(
+      `The name "${ref.student}" is taken in this class and the passcode does not match.`,
+      403,
+    );
+  }
+  return { assignment, student, rubric };
+}
+
+export async function recordSubmission(
+  { assignment, student }: Enrollment,
+  prompt: string,
+  analysis: Analysis,
+): Promise<Submission> {
+  const submission: Submission = {
+    id: crypto.randomUUID(),
+    assignmentId: assignment.id,
+    student: student.name,
+    createdAt: new Date().toISOString(),
+    prompt,
+    analysis,
+  };
+  await classroomStore.addSubmission(submission);
+  return submission;
+}
@@ -0,0 +1,29 @@
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+
+const KEY_LENGTH = 32;
+
+// Async so hashing doesn't block the event loop for other requests.
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+) => Promise<Buffer>;
+
+/**
+ * Salted scrypt hash of a passcode, stored as "salt:hash" in hex.
+ */
+export async function hashPasscode(passcode: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(passcode, salt, KEY_LENGTH);
+  return `${salt.toString("hex")}:${hash.toString("hex")}`;
+}
+
+export async function verifyPasscode(passcode: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  if (expected.length !== KEY_LENGTH) return false;
+  const actual = await scryptAsync(passcode, Buffer.from(salt, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
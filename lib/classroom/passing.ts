@@ -0,0 +1,12 @@
+import type { Analysis } from "@/lib/analysis/types";
+import type { PublicAssignment } from "./types";
+
+/**
+ * Whether an analysis meets every passing score of the assignment. Kept free
+ * of server imports so the page can show the same verdict.
+ */
+export function passes(assignment: PublicAssignment, analysis: Analysis): boolean {
+  return Object.entries(assignment.passingScores).every(
+    ([id, min]) => (analysis.criteria.find((c) => c.id === id)?.score ?? 0) >= min,
+  );
+}
@@ -0,0 +1,53 @@
+import type { Analysis } from "@/lib/analysis/types";
+
+export type Assignment = {
+  id: string;
+  // Short code students enter to join.
+  code: string;
+  title: string;
+  task: string;
+  rubricId: string;
+  // Minimum score per criterion id; criteria without one always pass.
+  passingScores: Record<string, number>;
+  // Hashed; see passcode.ts.
+  instructorPasscode: string;
+  createdAt: string;
+};
+
+// What students (and anyone with the code) may see.
+export type PublicAssignment = Omit<Assignment, "instructorPasscode">;
+
+// Students are identified by name within an assignment; the passcode set on
+// their first submission guards later ones.
+export type Student = {
+  assignmentId: string;
+  name: string;
+  passcode: string;
+  joinedAt: string;
+};
+
+export type Submission = {
+  id: string;
+  assignmentId: string;
+  student: string;
+  createdAt: string;
+  prompt: string;
+  analysis: Analysis;
+};
+
+// The 'assignment' field of an analyze request.
+export type AssignmentRef = {
+  code: string;
+  student: string;
+  passcode: string;
+};
+
+export interface ClassroomStore {
+  createAssignment(assignment: Assignment): Promise<void>;
+  findAssignment(code: string): Promise<Assignment | null>;
+  // Registers the student unless one with the same name exists; returns
+  // whichever is stored.
+  registerStudent(student: Student): Promise<Student>;
+  addSubmission(submission: Submission): Promise<void>;
+  submissions(assignmentId: string): Promise<Submission[]>;
+}
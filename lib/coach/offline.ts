@@ -0,0 +1,97 @@
+import { TONES } from "@/lib/builder";
+import type { RubricCriterion } from "@/lib/rubrics/types";
+import type { CoachTurn } from "./types";
+
+const questionPattern = /\b(why|explain|what|how come|how do|how can|which)\b|\?\s*$/i;
+const changePattern =
+  /\b(make|rewrite|change|add|set|use|keep|limit|shorten|shorter|improve|turn|give it|include)\b/i;
+const wordLimitPattern = /\b(\d{2,5})\s*words?\b/i;
+const existingLimitPattern = /\b(under|at most|no more than|within|less than)\s+\d+\s*words?\.?/i;
+
+function mentionedCriterion(turn: CoachTurn, message: string): RubricCriterion | undefined {
+  const lower = message.toLowerCase();
+  return turn.analysis.rubric.criteria.find(
+    (c) => lower.includes(c.label.toLowerCase()) || lower.includes(c.id),
+  );
+}
+
+function setLine(prompt: string, pattern: RegExp, line: string): string {
+  return pattern.test(prompt) ? prompt.replace(pattern, line) : `${prompt.trimEnd()}\n${line}`;
+}
+
+function explain(turn: CoachTurn, criterion: RubricCriterion): string {
+  const score = turn.analysis.criteria.find((c) => c.id === criterion.id);
+  if (!score) return `${criterion.label}: ${criterion.description}`;
+  return [
+    `**${criterion.label}: ${score.score}/100 (${score.level}).** ${score.feedback}`,
+    criterion.guidance,
+    score.level === "strong" || score.feedback.includes(criterion.hint)
+      ? ""
+      : `To improve it: ${criterion.hint}`,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Rule-based coach used when the provider is not model-backed. It explains
+ * criterion scores from the analysis and handles a few common edits (tone,
+ * word limit, adding a missing section); anything else gets the analysis's
+ * improved prompt.
+ */
+export function offlineCoachReply(turn: CoachTurn): { content: string; revisedPrompt?: string } {
+  const message = [...turn.messages].reverse().find((m) => m.role === "user")?.content ?? "";
+  const latest =
+    [...turn.messages].reverse().find((m) => m.revisedPrompt)?.revisedPrompt ?? turn.prompt;
+  const criterion = mentionedCriterion(turn, message);
+
+  if (!changePattern.test(message) || questionPattern.test(message)) {
+    if (criterion) return { content: explain(turn, criterion) };
+    const weakest = [...turn.analysis.criteria].sort((a, b) => a.score - b.score).slice(0, 2);
+    return {
+      content: [
+        `Your prompt scores ${turn.analysis.overallScore}/100. The biggest gains are in:`,
+        ...weakest.map((c) => {
+          const definition = turn.analysis.rubric.criteria.find((d) => d.id === c.id);
+          return `- **${c.label}** (${c.score}/100): ${definition?.hint ?? c.feedback}`;
+        }),
+        "",
+        "Ask me why a criterion scored as it did, or ask for a change such as \"make it more formal\".",
+      ].join("\n"),
+    };
+  }
+
+  const tone = TONES.find((t) => new RegExp(`\\b${t}\\b`, "i").test(message));
+  if (tone) {
+    return {
+      content: `I set the tone to ${tone}.`,
+      revisedPrompt: setLine(
+        latest,
+        /^\s*(tone|style|tone\/style)\s*:.*$/im,
+        `Tone/style: ${tone[0].toUpperCase()}${tone.slice(1)}.`,
+      ),
+    };
+  }
+
+  const limit = message.match(wordLimitPattern);
+  if (limit) {
+    // Rewrite an existing limit in place, or lead the Constraints line with one.
+    const revised = existingLimitPattern.test(latest)
+      ? latest.replace(existingLimitPattern, `under ${limit[1]} words.`)
+      : setLine(latest, /^\s*constraints?\s*:/im, `Constraints: Keep it under ${limit[1]} words.`);
+    return { content: `I set the length limit to ${limit[1]} words.`, revisedPrompt: revised };
+  }
+
+  if (criterion) {
+    return {
+      content: `I added a "${criterion.label}:" line for you to fill in. ${criterion.hint}`,
+      revisedPrompt: `${latest.trimEnd()}\n${criterion.label}: [${criterion.description}]`,
+    };
+  }
+
+  return {
+    content:
+      "Offline, I can set the tone, a word limit or add a missing section. Here is the analyzer's improved version of your prompt.",
+    revisedPrompt: turn.analysis.improvedPrompt,
+  };
+}
@@ -0,0 +1,28 @@
+import type { Analysis } from "@/lib/analysis/types";
+import type { AnalysisProvider } from "@/lib/providers";
+import { buildCoachRequest, parseCoachReply } from "./instruction";
+import { offlineCoachReply } from "./offline";
+import type { CoachReply, CoachTurn } from "./types";
+
+/**
+ * Answers the last learner message. Model-backed providers reply in free
+ * form; others fall back to the rule-based coach. A proposed rewrite is
+ * analyzed with `analyze` so it can be applied together with its scores.
+ */
+export async function runCoachTurn(
+  provider: AnalysisProvider,
+  turn: CoachTurn,
+  options: {
+    analyze: (prompt: string) => Promise<Analysis>;
+    signal?: AbortSignal;
+  },
+): Promise<CoachReply> {
+  const reply = provider.generateText
+    ? parseCoachReply(
+        await provider.generateText(buildCoachRequest(turn), { signal: options.signal }),
+      )
+    : offlineCoachReply(turn);
+
+  if (!reply.revisedPrompt) return { content: reply.content };
+  return { ...reply, analysis: await options.analyze(reply.revisedPrompt) };
+}
@@ -0,0 +1,24 @@
+import type { Analysis } from "@/lib/analysis/types";
+
+export type CoachRole = "user" | "assistant";
+
+export type CoachMessage = {
+  role: CoachRole;
+  content: string;
+  // Set on assistant messages that propose a rewrite.
+  revisedPrompt?: string;
+};
+
+export type CoachReply = {
+  content: string;
+  // A complete rewritten prompt, when the learner asked for a change.
+  revisedPrompt?: string;
+  // Fresh analysis of revisedPrompt.
+  analysis?: Analysis;
+};
+
+export type CoachTurn = {
+  prompt: string;
+  analysis: Analysis;
+  messages: CoachMessage[];
+};
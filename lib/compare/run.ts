@@ -0,0 +1,61 @@
+import { log } from "@/lib/observability";
+import type { AnalysisProvider } from "@/lib/providers";
+import { buildJudgePrompt, parseVerdict } from "./judge";
+import type { CompareOutput, CompareResult, CompareSide } from "./types";
+
+async function timed(
+  provider: AnalysisProvider,
+  prompt: string,
+  signal?: AbortSignal,
+): Promise<CompareOutput> {
+  const started = Date.now();
+  const text = await provider.generateText!(prompt, { signal });
+  return { text, durationMs: Date.now() - started };
+}
+
+function describe(provider: AnalysisProvider) {
+  return { provider: provider.id, model: provider.model, label: provider.label };
+}
+
+/**
+ * Runs the original and improved prompts on the target model in parallel and,
+ * when a judge is given, asks it which output better fits the original task.
+ * A failed judge call is reported in judgeError rather than thrown, so the
+ * two outputs are never lost.
+ */
+export async function runComparison(
+  prompts: Record<CompareSide, string>,
+  target: AnalysisProvider,
+  options: { judge?: AnalysisProvider; signal?: AbortSignal } = {},
+): Promise<CompareResult> {
+  const [original, improved] = await Promise.all([
+    timed(target, prompts.original, options.signal),
+    timed(target, prompts.improved, options.signal),
+  ]);
+  const result: CompareResult = { target: describe(target), original, improved };
+
+  const { judge } = options;
+  if (!judge) return result;
+
+  const aSide: CompareSide = Math.random() < 0.5 ? "original" : "improved";
+  const bSide: CompareSide = aSide === "original" ? "improved" : "original";
+  const outputs = { original: original.text, improved: improved.text };
+
+  try {
+    const answer = await judge.generateText!(
+      buildJudgePrompt(prompts.original, outputs[aSide], outputs[bSide]),
+      { signal: options.signal },
+    );
+    const verdict = parseVerdict(answer, aSide);
+    if (verdict) {
+      result.verdict = { ...verdict, judge: describe(judge) };
+    } else {
+      result.judgeError = "The judge returned an unreadable verdict.";
+    }
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    log("error", "compare.judge_failed", { error });
+    result.judgeError = error instanceof Error ? error.message : String(error);
+  }
+  return result;
+}
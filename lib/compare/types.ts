@@ -0,0 +1,27 @@
+import type { TargetModel } from "@/lib/providers";
+
+export type CompareSide = "original" | "improved";
+
+export type CompareOutput = {
+  text: string;
+  durationMs: number;
+};
+
+export type JudgeVerdict = {
+  winner: CompareSide | "tie";
+  // 0-100 per side: how well the output satisfies the goal, format and
+  // constraints stated in the original prompt.
+  scores: Record<CompareSide, number>;
+  reasoning: string;
+  judge: TargetModel;
+};
+
+export type CompareResult = {
+  target: TargetModel;
+  original: CompareOutput;
+  improved: CompareOutput;
+  // Absent when no judge was requested.
+  verdict?: JudgeVerdict;
+  // Set instead of verdict when the judge's answer could not be used.
+  judgeError?: string;
+};
@@ -0,0 +1,109 @@
+export type DiffPart = {
+  type: "equal" | "insert" | "delete";
+  text: string;
+};
+
+// Words and the whitespace between them are separate tokens, so joining the
+// tokens of a side reproduces its text exactly.
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+/**
+ * Word-level diff of two texts based on the longest common subsequence of
+ * their tokens. Adjacent parts of the same type are merged.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  function push(type: DiffPart["type"], text: string) {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) last.text += text;
+    else parts.push({ type, text });
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("equal", a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push("delete", a[i++]);
+    } else {
+      push("insert", b[j++]);
+    }
+  }
+  while (i < a.length) push("delete", a[i++]);
+  while (j < b.length) push("insert", b[j++]);
+
+  return parts;
+}
+
+// One change of a diff: `removed` is before[start, end), replaced by `inserted`.
+export type DiffHunk = {
+  index: number;
+  start: number;
+  end: number;
+  removed: string;
+  inserted: string;
+};
+
+/**
+ * Groups a diff of `before` into hunks that can be accepted one at a time.
+ * Changes separated only by whitespace form a single hunk.
+ */
+export function diffHunks(parts: DiffPart[]): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let offset = 0;
+  let current: DiffHunk | null = null;
+
+  parts.forEach((part, i) => {
+    const next = parts[i + 1];
+    const bridges = part.type === "equal" && current && next && !part.text.trim();
+    if (part.type === "equal" && !bridges) {
+      current = null;
+      offset += part.text.length;
+      return;
+    }
+    if (!current) {
+      current = { index: hunks.length, start: offset, end: offset, removed: "", inserted: "" };
+      hunks.push(current);
+    }
+    if (part.type !== "insert") {
+      current.removed += part.text;
+      offset += part.text.length;
+      current.end = offset;
+    }
+    if (part.type !== "delete") current.inserted += part.text;
+  });
+
+  return hunks;
+}
+
+/** Applies the given hunks of a diff of `before`, leaving the rest as it was. */
+export function applyHunks(before: string, hunks: DiffHunk[]): string {
+  let result = "";
+  let offset = 0;
+  for (const hunk of [...hunks].sort((a, b) => a.start - b.start)) {
+    result += before.slice(offset, hunk.start) + hunk.inserted;
+    offset = hunk.end;
+  }
+  return result + before.slice(offset);
+}
@@ -0,0 +1,57 @@
+import { ApiError, errorResponse } from "@/lib/api/errors";
+import { embedOrigins } from "./origins";
+
+// A browser request from another site, allowed or not; null otherwise.
+function crossOrigin(request: Request): string | null {
+  const origin = request.headers.get("Origin");
+  if (!origin || request.headers.get("Sec-Fetch-Site") === "same-origin") return null;
+  return origin === new URL(request.url).origin ? null : origin;
+}
+
+/**
+ * Rejects browser requests from sites outside EMBED_ORIGINS with a 403.
+ * Requests without an Origin header (scripts, server-to-server) and those
+ * from this app's own pages, including the embed page, pass.
+ */
+export function originError(request: Request): ApiError | null {
+  const origin = crossOrigin(request);
+  if (!origin || embedOrigins().includes(origin)) return null;
+  return new ApiError(403, "forbidden", `Origin ${origin} may not call this endpoint.`, {
+    origin,
+  });
+}
+
+/** Same as originError, rendered as the unversioned endpoints' 403 response. */
+export function checkOrigin(request: Request): Response | null {
+  const error = originError(request);
+  return error && errorResponse(error, "legacy");
+}
+
+function corsHeaders(origin: string): Record<string, string> {
+  return { "Access-Control-Allow-Origin": origin, Vary: "Origin" };
+}
+
+/** Lets an allowed site read the response; call after originError passed. */
+export function withCors(request: Request, response: Response): Response {
+  const origin = crossOrigin(request);
+  if (!origin) return response;
+  for (const [name, value] of Object.entries(corsHeaders(origin))) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+/** Answers the CORS preflight of a POST with a JSON body. */
+export function preflightResponse(request: Request): Response {
+  const origin = crossOrigin(request);
+  if (!origin || !embedOrigins().includes(origin)) return new Response(null, { status: 403 });
+  return new Response(null, {
+    status: 204,
+    headers: {
+      ...corsHeaders(origin),
+      "Access-Control-Allow-Methods": "POST",
+      "Access-Control-Allow-Headers": "Content-Type",
+      "Access-Control-Max-Age": "600",
+    },
+  });
+}
@@ -0,0 +1,24 @@
+/**
+ * Origins other than this app's own that may embed the widget and call
+ * /api/analyze from a browser: EMBED_ORIGINS, comma or space separated, e.g.
+ * "https://club.example, https://www.club.example". Entries that are not
+ * http(s) origins are ignored.
+ */
+export function embedOrigins(value = process.env.EMBED_ORIGINS ?? ""): string[] {
+  const origins = new Set<string>();
+  for (const entry of value.split(/[\s,]+/)) {
+    if (!entry) continue;
+    try {
+      const url = new URL(entry);
+      if (url.protocol === "https:" || url.protocol === "http:") origins.add(url.origin);
+    } catch {
+      // Not a URL.
+    }
+  }
+  return [...origins];
+}
+
+/** The Content-Security-Policy that lets only this app and EMBED_ORIGINS frame a page. */
+export function frameAncestors(origins = embedOrigins()): string {
+  return ["frame-ancestors 'self'", ...origins].join(" ");
+}
@@ -0,0 +1,43 @@
+import { DEFAULT_RUBRIC_ID, getRubric } from "@/lib/rubrics";
+
+export const EMBED_THEMES = ["light", "dark"] as const;
+export type EmbedTheme = (typeof EMBED_THEMES)[number];
+
+export const EMBED_ACCENTS = ["violet", "sky", "emerald", "amber", "rose"] as const;
+export type EmbedAccent = (typeof EMBED_ACCENTS)[number];
+
+// How a site configures the widget through the iframe's query string.
+export type EmbedSettings = {
+  theme: EmbedTheme;
+  accent: EmbedAccent;
+  rubric: string;
+  // Hides the header with the analyzer's name and the rubric.
+  compact: boolean;
+};
+
+// The message the widget posts to its parent whenever its height changes.
+export const EMBED_RESIZE_MESSAGE = "prompt-analyzer:resize";
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+function first(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function oneOf<T extends string>(values: readonly T[], value: string | undefined, fallback: T): T {
+  return values.includes(value as T) ? (value as T) : fallback;
+}
+
+/**
+ * Reads ?theme=, ?accent=, ?rubric= and ?compact=1 of the embed page.
+ * Unknown values fall back to the defaults so a typo never breaks a site.
+ */
+export function embedSettings(params: SearchParams): EmbedSettings {
+  const rubric = first(params.rubric);
+  return {
+    theme: oneOf(EMBED_THEMES, first(params.theme), "light"),
+    accent: oneOf(EMBED_ACCENTS, first(params.accent), "violet"),
+    rubric: rubric && getRubric(rubric) ? rubric : DEFAULT_RUBRIC_ID,
+    compact: first(params.compact) === "1",
+  };
+}
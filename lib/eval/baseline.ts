@@ -0,0 +1,54 @@
+import type { EvalMetrics, Regression } from "./types";
+
+// How much worse than the baseline a run may be before it fails. Single
+// criteria have fewer labels and move in bigger steps, so they get more room.
+export const TOLERANCE = {
+  overall: { mae: 3, levelAccuracy: 0.05, rankCorrelation: 0.1 },
+  criterion: { mae: 6, levelAccuracy: 0.15 },
+};
+
+export function baselineKey(dataset: string, provider: string, model: string): string {
+  return `${dataset}@${provider}/${model}`;
+}
+
+/**
+ * Metrics that got worse than the baseline by more than TOLERANCE. Lower is
+ * better for MAE; higher is better for accuracy and correlation.
+ */
+export function findRegressions(baseline: EvalMetrics, current: EvalMetrics): Regression[] {
+  const regressions: Regression[] = [];
+  const check = (
+    metric: string,
+    before: number | null,
+    after: number | null,
+    tolerance: number,
+    lowerIsBetter = false,
+  ) => {
+    if (before === null) return;
+    // A correlation that can no longer be computed counts as zero.
+    const value = after ?? 0;
+    const worse = lowerIsBetter ? value - before : before - value;
+    if (worse > tolerance) regressions.push({ metric, baseline: before, current: value });
+  };
+
+  check("mae", baseline.mae, current.mae, TOLERANCE.overall.mae, true);
+  check("levelAccuracy", baseline.levelAccuracy, current.levelAccuracy, TOLERANCE.overall.levelAccuracy);
+  check(
+    "rankCorrelation",
+    baseline.rankCorrelation,
+    current.rankCorrelation,
+    TOLERANCE.overall.rankCorrelation,
+  );
+  for (const before of baseline.criteria) {
+    const after = current.criteria.find((c) => c.id === before.id);
+    if (!after) continue;
+    check(`${before.id}.mae`, before.mae, after.mae, TOLERANCE.criterion.mae, true);
+    check(
+      `${before.id}.levelAccuracy`,
+      before.levelAccuracy,
+      after.levelAccuracy,
+      TOLERANCE.criterion.levelAccuracy,
+    );
+  }
+  return regressions;
+}
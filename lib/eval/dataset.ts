@@ -0,0 +1,49 @@
+import { CRITERION_LEVELS, type CriterionLevel } from "@/lib/analysis/types";
+import { getRubric } from "@/lib/rubrics";
+import type { Rubric } from "@/lib/rubrics/types";
+import type { GoldenDataset } from "./types";
+
+export class DatasetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DatasetError";
+  }
+}
+
+/**
+ * Checks a golden dataset file and returns it with its rubric. Every item
+ * must label every criterion with a 0-100 range and a level.
+ */
+export function parseDataset(raw: unknown): { dataset: GoldenDataset; rubric: Rubric } {
+  const data = (raw || {}) as Partial<GoldenDataset>;
+  if (typeof data.id !== "string" || typeof data.version !== "number") {
+    throw new DatasetError("Dataset needs a string 'id' and a numeric 'version'.");
+  }
+  const rubric = typeof data.rubric === "string" ? getRubric(data.rubric) : undefined;
+  if (!rubric) throw new DatasetError(`Unknown rubric ${JSON.stringify(data.rubric)}.`);
+  if (!Array.isArray(data.items) || data.items.length === 0) {
+    throw new DatasetError("Dataset needs a non-empty 'items' array.");
+  }
+
+  const ids = new Set<string>();
+  for (const item of data.items) {
+    if (typeof item?.id !== "string" || typeof item.prompt !== "string" || !item.prompt) {
+      throw new DatasetError("Every item needs a string 'id' and a non-empty 'prompt'.");
+    }
+    if (ids.has(item.id)) throw new DatasetError(`Duplicate item id "${item.id}".`);
+    ids.add(item.id);
+    for (const criterion of rubric.criteria) {
+      const expected = item.expected?.[criterion.id];
+      if (
+        !expected ||
+        !(expected.min >= 0 && expected.min <= expected.max && expected.max <= 100) ||
+        !CRITERION_LEVELS.includes(expected.level as CriterionLevel)
+      ) {
+        throw new DatasetError(
+          `Item "${item.id}": '${criterion.id}' needs { min, max, level } with 0 <= min <= max <= 100.`,
+        );
+      }
+    }
+  }
+  return { dataset: data as GoldenDataset, rubric };
+}
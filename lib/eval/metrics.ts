@@ -0,0 +1,101 @@
+import type { Analysis } from "@/lib/analysis/types";
+import { weightedScore } from "@/lib/rubrics";
+import type { Rubric } from "@/lib/rubrics/types";
+import type { CriterionMetrics, EvalMetrics, ExpectedScore, GoldenDataset } from "./types";
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function round(value: number, digits = 3): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// 1-based ranks; ties share the average of their ranks.
+function ranks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const result = new Array<number>(values.length);
+  for (let i = 0; i < order.length; ) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    for (let k = i; k <= j; k++) result[order[k].index] = (i + j) / 2 + 1;
+    i = j + 1;
+  }
+  return result;
+}
+
+/**
+ * Spearman's rank correlation, or null when either series is constant.
+ */
+export function spearman(xs: number[], ys: number[]): number | null {
+  const rx = ranks(xs);
+  const ry = ranks(ys);
+  const mx = mean(rx);
+  const my = mean(ry);
+  let covariance = 0;
+  let vx = 0;
+  let vy = 0;
+  for (let i = 0; i < rx.length; i++) {
+    covariance += (rx[i] - mx) * (ry[i] - my);
+    vx += (rx[i] - mx) ** 2;
+    vy += (ry[i] - my) ** 2;
+  }
+  return vx && vy ? round(covariance / Math.sqrt(vx * vy)) : null;
+}
+
+function rangeError(score: number, { min, max }: ExpectedScore): number {
+  return score < min ? min - score : score > max ? score - max : 0;
+}
+
+function midpoint({ min, max }: ExpectedScore): number {
+  return (min + max) / 2;
+}
+
+/**
+ * Agreement between the analyzer's answers and the dataset labels. Items
+ * without an answer are left out.
+ */
+export function computeMetrics(
+  dataset: GoldenDataset,
+  rubric: Rubric,
+  answers: Record<string, Analysis>,
+): EvalMetrics {
+  const items = dataset.items.filter((item) => answers[item.id]);
+
+  const criteria: CriterionMetrics[] = rubric.criteria.map(({ id }) => {
+    const pairs = items.map((item) => ({
+      expected: item.expected[id],
+      actual: answers[item.id].criteria.find((c) => c.id === id) ?? { score: 0, level: "missing" },
+    }));
+    return {
+      id,
+      mae: round(mean(pairs.map((p) => rangeError(p.actual.score, p.expected))), 2),
+      levelAccuracy: round(mean(pairs.map((p) => Number(p.actual.level === p.expected.level)))),
+      inRangeRate: round(mean(pairs.map((p) => Number(rangeError(p.actual.score, p.expected) === 0)))),
+      rankCorrelation: spearman(
+        pairs.map((p) => midpoint(p.expected)),
+        pairs.map((p) => p.actual.score),
+      ),
+    };
+  });
+
+  const expectedOverall = items.map((item) =>
+    weightedScore(
+      rubric,
+      rubric.criteria.map(({ id }) => ({ id, score: midpoint(item.expected[id]) })),
+    ),
+  );
+
+  return {
+    items: items.length,
+    mae: round(mean(criteria.map((c) => c.mae)), 2),
+    levelAccuracy: round(mean(criteria.map((c) => c.levelAccuracy))),
+    inRangeRate: round(mean(criteria.map((c) => c.inRangeRate))),
+    rankCorrelation: spearman(
+      expectedOverall,
+      items.map((item) => answers[item.id].overallScore),
+    ),
+    criteria,
+  };
+}
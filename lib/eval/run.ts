@@ -0,0 +1,46 @@
+import type { Analysis } from "@/lib/analysis/types";
+import type { GoldenDataset, GoldenItem, Recording } from "./types";
+
+export type Answer = (item: GoldenItem) => Promise<Analysis>;
+
+export type EvalRun = {
+  answers: Record<string, Analysis>;
+  failures: { id: string; error: string }[];
+};
+
+/**
+ * Grades every item of the dataset, one at a time to stay within provider
+ * rate limits. Items that fail are reported, not retried.
+ */
+export async function runDataset(
+  dataset: GoldenDataset,
+  answer: Answer,
+  onItem?: (item: GoldenItem, analysis: Analysis | null) => void,
+): Promise<EvalRun> {
+  const run: EvalRun = { answers: {}, failures: [] };
+  for (const item of dataset.items) {
+    try {
+      const analysis = await answer(item);
+      run.answers[item.id] = analysis;
+      onItem?.(item, analysis);
+    } catch (error) {
+      run.failures.push({
+        id: item.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      onItem?.(item, null);
+    }
+  }
+  return run;
+}
+
+/**
+ * Answers from a recording, for running without network access.
+ */
+export function replay(recording: Recording): Answer {
+  return async (item) => {
+    const analysis = recording.responses[item.id];
+    if (!analysis) throw new Error(`No recorded response for "${item.id}"; re-record.`);
+    return analysis;
+  };
+}
@@ -0,0 +1,71 @@
+import type { Analysis, CriterionLevel } from "@/lib/analysis/types";
+
+// A human label for one criterion of a golden prompt.
+export type ExpectedScore = {
+  min: number;
+  max: number;
+  level: CriterionLevel;
+};
+
+export type GoldenItem = {
+  id: string;
+  prompt: string;
+  // Keyed by criterion id; every criterion of the rubric is labeled.
+  expected: Record<string, ExpectedScore>;
+  note?: string;
+};
+
+// A versioned, labeled set of prompts graded against one rubric.
+export type GoldenDataset = {
+  id: string;
+  version: number;
+  rubric: string;
+  items: GoldenItem[];
+};
+
+export type CriterionMetrics = {
+  id: string;
+  // Mean distance outside the expected range (0 when inside it).
+  mae: number;
+  levelAccuracy: number;
+  inRangeRate: number;
+  // Spearman correlation between expected midpoints and actual scores; null
+  // when either side is constant.
+  rankCorrelation: number | null;
+};
+
+export type EvalMetrics = {
+  items: number;
+  mae: number;
+  levelAccuracy: number;
+  inRangeRate: number;
+  // Across items, expected overall (weighted midpoints) vs actual overall.
+  rankCorrelation: number | null;
+  criteria: CriterionMetrics[];
+};
+
+// Analyzer answers saved for offline replay.
+export type Recording = {
+  dataset: string;
+  provider: string;
+  model: string;
+  // Of the grading instruction the answers were recorded with.
+  instructionVersion: string;
+  recordedAt: string;
+  responses: Record<string, Analysis>;
+};
+
+export type BaselineEntry = {
+  instructionVersion: string;
+  updatedAt: string;
+  metrics: EvalMetrics;
+};
+
+// Keyed by baselineKey(): dataset, provider and model.
+export type Baseline = Record<string, BaselineEntry>;
+
+export type Regression = {
+  metric: string;
+  baseline: number;
+  current: number;
+};
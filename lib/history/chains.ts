@@ -0,0 +1,67 @@
+import type { Analysis } from "@/lib/analysis/types";
+import type { HistoryEntry } from "./types";
+
+export type RevisionChain = {
+  chainId: string;
+  entries: HistoryEntry[];
+};
+
+/**
+ * Creates the entry for a new analysis run. Passing the previous entry makes
+ * the run the next revision of that chain; otherwise a new chain starts.
+ */
+export function createHistoryEntry(
+  prompt: string,
+  analysis: Analysis,
+  parent: HistoryEntry | null,
+): HistoryEntry {
+  const id = crypto.randomUUID();
+  return {
+    id,
+    chainId: parent?.chainId ?? id,
+    parentId: parent?.id ?? null,
+    createdAt: new Date().toISOString(),
+    prompt,
+    analysis,
+  };
+}
+
+/**
+ * Groups entries into revision chains, oldest revision first within a chain
+ * and the most recently updated chain first overall.
+ */
+export function groupIntoChains(entries: HistoryEntry[]): RevisionChain[] {
+  const chains = new Map<string, HistoryEntry[]>();
+  for (const entry of entries) {
+    const list = chains.get(entry.chainId) ?? [];
+    list.push(entry);
+    chains.set(entry.chainId, list);
+  }
+
+  return [...chains.entries()]
+    .map(([chainId, list]) => ({
+      chainId,
+      entries: list.sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+    }))
+    .sort((a, b) =>
+      b.entries[b.entries.length - 1].createdAt.localeCompare(
+        a.entries[a.entries.length - 1].createdAt,
+      ),
+    );
+}
+
+export function isHistoryEntry(value: unknown): value is HistoryEntry {
+  const entry = value as HistoryEntry;
+  return (
+    typeof entry === "object" &&
+    entry !== null &&
+    typeof entry.id === "string" &&
+    typeof entry.chainId === "string" &&
+    (entry.parentId === null || typeof entry.parentId === "string") &&
+    typeof entry.createdAt === "string" &&
+    typeof entry.prompt === "string" &&
+    typeof entry.analysis === "object" &&
+    entry.analysis !== null &&
+    Array.isArray(entry.analysis.criteria)
+  );
+}
@@ -0,0 +1,60 @@
+import { dataPath, readJsonFile, writeJsonFile } from "@/lib/storage/json-file";
+import type { HistoryEntry, HistoryStore } from "./types";
+
+// Per visitor, like the browser's own history, so no visitor can push out
+// another's entries.
+const MAX_ENTRIES_PER_OWNER = 200;
+
+// Entries of every visitor share the file; each is tagged with its owner.
+type StoredEntry = HistoryEntry & { owner: string };
+
+/**
+ * Server-side history of one visitor, kept in a JSON file shared by all
+ * visitors (HISTORY_FILE, default .data/history.json). Writes are
+ * serialized so concurrent saves don't overwrite each other.
+ */
+export function createFileHistoryStore(
+  owner: string,
+  file = process.env.HISTORY_FILE ?? dataPath("history.json"),
+): HistoryStore {
+  const read = () => readJsonFile<StoredEntry[]>(file, []);
+
+  return {
+    list: async () =>
+      (await read())
+        .filter((e) => e.owner === owner)
+        .map(({ id, chainId, parentId, createdAt, prompt, analysis }) => ({
+          id,
+          chainId,
+          parentId,
+          createdAt,
+          prompt,
+          analysis,
+        })),
+    save: (entry) =>
+      serialize(file, async () => {
+        const entries = (await read()).filter((e) => !(e.owner === owner && e.id === entry.id));
+        const own = entries.filter((e) => e.owner === owner);
+        // The visitor's oldest entries make room for the new one.
+        const excess = Math.max(0, own.length + 1 - MAX_ENTRIES_PER_OWNER);
+        const dropped = new Set(own.slice(0, excess));
+        await writeJsonFile(file, [
+          ...entries.filter((e) => !dropped.has(e)),
+          { ...entry, owner },
+        ]);
+      }),
+    clear: () =>
+      serialize(file, async () => {
+        await writeJsonFile(file, (await read()).filter((e) => e.owner !== owner));
+      }),
+  };
+}
+
+// One queue per file: every request creates its own store.
+const queues = new Map<string, Promise<unknown>>();
+
+function serialize<T>(file: string, task: () => Promise<T>): Promise<T> {
+  const next = (queues.get(file) ?? Promise.resolve()).then(task, task);
+  queues.set(file, next.catch(() => undefined));
+  return next;
+}
@@ -0,0 +1,37 @@
+import { isHistoryEntry } from "./chains";
+import type { HistoryEntry, HistoryStore } from "./types";
+
+const STORAGE_KEY = "prompt-analyzer:history";
+
+// Oldest entries are dropped beyond this to stay well within storage quotas.
+const MAX_ENTRIES = 200;
+
+function read(): HistoryEntry[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(parsed) ? parsed.filter(isHistoryEntry) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * History kept in the browser's localStorage.
+ */
+export function createLocalHistoryStore(): HistoryStore {
+  return {
+    async list() {
+      return read();
+    },
+    async save(entry) {
+      const entries = [...read().filter((e) => e.id !== entry.id), entry];
+      localStorage.setItem(
+        STORAGE_KEY,
+        JSON.stringify(entries.slice(-MAX_ENTRIES)),
+      );
+    },
+    async clear() {
+      localStorage.removeItem(STORAGE_KEY);
+    },
+  };
+}
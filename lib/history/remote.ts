@@ -0,0 +1,33 @@
+import type { HistoryEntry, HistoryStore } from "./types";
+
+async function check(response: Response): Promise<Response> {
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error ?? `History request failed (${response.status}).`);
+  }
+  return response;
+}
+
+/**
+ * History kept on the server through /api/history.
+ */
+export function createRemoteHistoryStore(url = "/api/history"): HistoryStore {
+  return {
+    async list() {
+      const response = await check(await fetch(url));
+      return ((await response.json()) as { entries: HistoryEntry[] }).entries;
+    },
+    async save(entry) {
+      await check(
+        await fetch(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(entry),
+        }),
+      );
+    },
+    async clear() {
+      await check(await fetch(url, { method: "DELETE" }));
+    },
+  };
+}
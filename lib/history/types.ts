@@ -0,0 +1,17 @@
+import type { Analysis } from "@/lib/analysis/types";
+
+export type HistoryEntry = {
+  id: string;
+  // All revisions of one prompt share a chain id.
+  chainId: string;
+  parentId: string | null;
+  createdAt: string;
+  prompt: string;
+  analysis: Analysis;
+};
+
+export interface HistoryStore {
+  list(): Promise<HistoryEntry[]>;
+  save(entry: HistoryEntry): Promise<void>;
+  clear(): Promise<void>;
+}
@@ -0,0 +1,49 @@
+import type { DetectedLanguage } from "./index";
+
+const ARABIC_LETTER = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/g;
+const LETTER = /\p{L}/gu;
+
+// Frequent short words that rarely occur in the other language.
+const STOPWORDS: Record<"en" | "fr", Set<string>> = {
+  en: new Set(
+    "the and you your to of is are for with that this it be on as an or what how write give please make should about from into which".split(
+      " ",
+    ),
+  ),
+  fr: new Set(
+    "le la les et des un une est sont pour avec que qui vous votre vos ce cette il elle du dans au aux pas ne sur par plus écris écrivez donne donnez fais faites comme être".split(
+      " ",
+    ),
+  ),
+};
+
+const FRENCH_ACCENT = /[àâæçéèêëîïôœùûüÿ]/g;
+
+// Below this many stopword hits the text is too short or in another language.
+const MIN_HITS = 2;
+
+/**
+ * Guesses whether a prompt is written in English, French or Arabic from its
+ * script and common words. Anything else, or too little text to tell, is
+ * "unknown".
+ */
+export function detectLanguage(text: string): DetectedLanguage {
+  const letters = text.match(LETTER)?.length ?? 0;
+  if (letters === 0) return "unknown";
+  const arabic = text.match(ARABIC_LETTER)?.length ?? 0;
+  if (arabic / letters > 0.3) return "ar";
+
+  const lower = text.toLowerCase();
+  // Elisions such as l', d' and qu' are split off so "l'image" counts "l".
+  const words = lower.split(/[^\p{L}]+/u).filter(Boolean);
+  const hits = { en: 0, fr: 0 };
+  for (const word of words) {
+    if (STOPWORDS.en.has(word)) hits.en++;
+    if (STOPWORDS.fr.has(word)) hits.fr++;
+  }
+  // Accented letters tip short French prompts over the line.
+  hits.fr += (lower.match(FRENCH_ACCENT)?.length ?? 0) / 2;
+
+  if (Math.max(hits.en, hits.fr) < MIN_HITS) return "unknown";
+  return hits.fr > hits.en ? "fr" : "en";
+}
@@ -0,0 +1,76 @@
+export const LOCALES = ["en", "fr", "ar"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Cookie the page stores the chosen locale in, read by the root layout.
+export const LOCALE_COOKIE = "locale";
+
+// Names in the language itself, for the language picker.
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  fr: "Français",
+  ar: "العربية",
+};
+
+// English names, for the grading instruction.
+export const LANGUAGE_NAMES: Record<Locale, string> = {
+  en: "English",
+  fr: "French",
+  ar: "Arabic",
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+export function localeDirection(locale: Locale): "ltr" | "rtl" {
+  return locale === "ar" ? "rtl" : "ltr";
+}
+
+/**
+ * Picks the first supported language of an Accept-Language header, ignoring
+ * region subtags ("fr-CA" is "fr").
+ */
+export function negotiateLocale(acceptLanguage: string | null): Locale {
+  const ranked = (acceptLanguage ?? "")
+    .split(",")
+    .map((part) => {
+      const [tag, q] = part.trim().split(";q=");
+      return { tag: tag.toLowerCase().split("-")[0], q: q === undefined ? 1 : Number(q) };
+    })
+    .filter(({ q }) => q > 0)
+    .sort((a, b) => b.q - a.q);
+  const match = ranked.find(({ tag }) => isLocale(tag));
+  return match ? (match.tag as Locale) : DEFAULT_LOCALE;
+}
+
+// A language the analysis is written in; "source" is whatever language the
+// prompt uses when detection could not tell.
+export type OutputLanguage = Locale | "source";
+
+export type LanguageSettings = {
+  // Feedback, suggestions and annotation comments.
+  feedback: OutputLanguage;
+  improvedPrompt: OutputLanguage;
+};
+
+export type DetectedLanguage = Locale | "unknown";
+
+/**
+ * Decides which languages an analysis is written in. Without a chosen
+ * language the feedback follows the prompt; `keepSourceLanguage` keeps the
+ * rewrite in the prompt's language whatever the feedback language is.
+ */
+export function resolveLanguageSettings(
+  detected: DetectedLanguage,
+  chosen: Locale | undefined,
+  keepSourceLanguage: boolean,
+): LanguageSettings {
+  const source: OutputLanguage = detected === "unknown" ? "source" : detected;
+  const feedback = chosen ?? source;
+  return { feedback, improvedPrompt: keepSourceLanguage ? source : feedback };
+}
+
+export { detectLanguage } from "./detect";
@@ -0,0 +1,225 @@
+import type { CriterionLevel } from "@/lib/analysis/types";
+import type { DetectedLanguage, Locale } from "./index";
+
+export type Messages = {
+  // Criterion labels by id, across the built-in rubrics. Criteria without an
+  // entry (e.g. from a custom rubric) keep their rubric label.
+  criteria: Record<string, string>;
+  levels: Record<CriterionLevel, string>;
+  // Overall labels by the English label the analyzer returns.
+  overall: Record<string, string>;
+  tips: string[];
+  languages: Record<DetectedLanguage, string>;
+  ui: {
+    overview: string;
+    overallScore: string;
+    notAnalyzed: string;
+    analyze: string;
+    analyzing: string;
+    useImproved: string;
+    readyToCopy: string;
+    readyToCopyHint: string;
+    copy: string;
+    copied: string;
+    suggestions: string;
+    tips: string;
+    feedbackLanguage: string;
+    keepSourceLanguage: string;
+    promptLanguage: string;
+    writtenIn: string;
+    rewriteStyle: string;
+    acceptChange: string;
+    undoChange: string;
+    promptEditedSinceAnalysis: string;
+  };
+};
+
+export const messages: Record<Locale, Messages> = {
+  en: {
+    criteria: {
+      context: "Context",
+      goal: "Goal",
+      format: "Format",
+      constraints: "Constraints",
+      examples: "Examples",
+      environment: "Environment",
+      task: "Task",
+      "code-context": "Existing code",
+      acceptance: "Acceptance criteria",
+      output: "Output shape",
+      subject: "Subject",
+      style: "Style",
+      composition: "Composition",
+      lighting: "Lighting & mood",
+      negative: "Exclusions",
+      role: "Role",
+      scope: "Scope",
+      tools: "Tools",
+      safety: "Safety & policies",
+      "response-style": "Response style",
+    },
+    levels: { missing: "missing", weak: "weak", ok: "ok", strong: "strong" },
+    overall: {
+      "Excellent prompt": "Excellent prompt",
+      "Good prompt": "Good prompt",
+      "Needs work": "Needs work",
+      "Needs major work": "Needs major work",
+    },
+    tips: [
+      "Use step-by-step or numbered instructions for complex tasks.",
+      "Give at least one short example of the style you want.",
+      "Ask the AI to think out loud or explain its reasoning.",
+      "Iterate: ask the AI to improve or refine its previous answer.",
+      "Be specific with tone and formatting (titles, bullets, tables).",
+    ],
+    languages: { en: "English", fr: "French", ar: "Arabic", unknown: "not detected" },
+    ui: {
+      overview: "Overview",
+      overallScore: "Overall score",
+      notAnalyzed: "Not analyzed yet",
+      analyze: "Analyze prompt",
+      analyzing: "Analyzing…",
+      useImproved: "Use improved prompt",
+      readyToCopy: "Ready-to-copy prompt",
+      readyToCopyHint: "Use this upgraded version as input for any other AI model or tool.",
+      copy: "Copy prompt",
+      copied: "Copied",
+      suggestions: "Targeted suggestions",
+      tips: "Quick tips",
+      feedbackLanguage: "Feedback language",
+      keepSourceLanguage: "Keep the rewrite in my prompt's language",
+      promptLanguage: "Prompt language",
+      writtenIn: "Feedback written in",
+      rewriteStyle: "Rewrite style",
+      acceptChange: "Accept",
+      undoChange: "Undo",
+      promptEditedSinceAnalysis:
+        "The prompt was edited after this analysis. Re-analyze to accept single changes, or use the whole rewrite.",
+    },
+  },
+  fr: {
+    criteria: {
+      context: "Contexte",
+      goal: "Objectif",
+      format: "Format",
+      constraints: "Contraintes",
+      examples: "Exemples",
+      environment: "Environnement",
+      task: "Tâche",
+      "code-context": "Code existant",
+      acceptance: "Critères d'acceptation",
+      output: "Forme de la réponse",
+      subject: "Sujet",
+      style: "Style",
+      composition: "Composition",
+      lighting: "Lumière et ambiance",
+      negative: "Exclusions",
+      role: "Rôle",
+      scope: "Périmètre",
+      tools: "Outils",
+      safety: "Sécurité et règles",
+      "response-style": "Style de réponse",
+    },
+    levels: { missing: "absent", weak: "faible", ok: "correct", strong: "solide" },
+    overall: {
+      "Excellent prompt": "Excellent prompt",
+      "Good prompt": "Bon prompt",
+      "Needs work": "À retravailler",
+      "Needs major work": "À reprendre en profondeur",
+    },
+    tips: [
+      "Donnez des instructions étape par étape ou numérotées pour les tâches complexes.",
+      "Fournissez au moins un court exemple du style attendu.",
+      "Demandez à l'IA de réfléchir à voix haute ou d'expliquer son raisonnement.",
+      "Itérez : demandez à l'IA d'améliorer ou d'affiner sa réponse précédente.",
+      "Précisez le ton et la mise en forme (titres, puces, tableaux).",
+    ],
+    languages: { en: "anglais", fr: "français", ar: "arabe", unknown: "non détectée" },
+    ui: {
+      overview: "Aperçu",
+      overallScore: "Score global",
+      notAnalyzed: "Pas encore analysé",
+      analyze: "Analyser le prompt",
+      analyzing: "Analyse en cours…",
+      useImproved: "Utiliser le prompt amélioré",
+      readyToCopy: "Prompt prêt à copier",
+      readyToCopyHint:
+        "Utilisez cette version améliorée avec n'importe quel autre modèle ou outil d'IA.",
+      copy: "Copier le prompt",
+      copied: "Copié",
+      suggestions: "Suggestions ciblées",
+      tips: "Astuces",
+      feedbackLanguage: "Langue des retours",
+      keepSourceLanguage: "Garder la réécriture dans la langue de mon prompt",
+      promptLanguage: "Langue du prompt",
+      writtenIn: "Retours rédigés en",
+      rewriteStyle: "Style de réécriture",
+      acceptChange: "Accepter",
+      undoChange: "Annuler",
+      promptEditedSinceAnalysis:
+        "Le prompt a été modifié après cette analyse. Relancez l'analyse pour accepter les changements un par un, ou utilisez la réécriture entière.",
+    },
+  },
+  ar: {
+    criteria: {
+      context: "السياق",
+      goal: "الهدف",
+      format: "التنسيق",
+      constraints: "القيود",
+      examples: "الأمثلة",
+      environment: "البيئة",
+      task: "المهمة",
+      "code-context": "الشيفرة الحالية",
+      acceptance: "معايير القبول",
+      output: "شكل المخرجات",
+      subject: "الموضوع",
+      style: "الأسلوب",
+      composition: "التكوين",
+      lighting: "الإضاءة والأجواء",
+      negative: "الاستثناءات",
+      role: "الدور",
+      scope: "النطاق",
+      tools: "الأدوات",
+      safety: "السلامة والسياسات",
+      "response-style": "أسلوب الرد",
+    },
+    levels: { missing: "غائب", weak: "ضعيف", ok: "مقبول", strong: "قوي" },
+    overall: {
+      "Excellent prompt": "موجّه ممتاز",
+      "Good prompt": "موجّه جيد",
+      "Needs work": "يحتاج إلى تحسين",
+      "Needs major work": "يحتاج إلى تحسين كبير",
+    },
+    tips: [
+      "استخدم تعليمات مرقّمة أو خطوة بخطوة للمهام المعقدة.",
+      "قدّم مثالًا قصيرًا واحدًا على الأقل للأسلوب الذي تريده.",
+      "اطلب من الذكاء الاصطناعي أن يفكر بصوت عالٍ أو يشرح طريقة تفكيره.",
+      "كرّر المحاولة: اطلب من الذكاء الاصطناعي تحسين إجابته السابقة أو صقلها.",
+      "كن دقيقًا في تحديد النبرة والتنسيق (العناوين، النقاط، الجداول).",
+    ],
+    languages: { en: "الإنجليزية", fr: "الفرنسية", ar: "العربية", unknown: "غير محددة" },
+    ui: {
+      overview: "نظرة عامة",
+      overallScore: "النتيجة الإجمالية",
+      notAnalyzed: "لم يُحلَّل بعد",
+      analyze: "حلّل الموجّه",
+      analyzing: "جارٍ التحليل…",
+      useImproved: "استخدم الموجّه المحسّن",
+      readyToCopy: "موجّه جاهز للنسخ",
+      readyToCopyHint: "استخدم هذه النسخة المحسّنة مع أي نموذج أو أداة ذكاء اصطناعي أخرى.",
+      copy: "انسخ الموجّه",
+      copied: "تم النسخ",
+      suggestions: "اقتراحات موجّهة",
+      tips: "نصائح سريعة",
+      feedbackLanguage: "لغة الملاحظات",
+      keepSourceLanguage: "أبقِ إعادة الصياغة بلغة الموجّه الأصلية",
+      promptLanguage: "لغة الموجّه",
+      writtenIn: "لغة الملاحظات المكتوبة",
+      rewriteStyle: "أسلوب إعادة الصياغة",
+      acceptChange: "قبول",
+      undoChange: "تراجع",
+      promptEditedSinceAnalysis:
+        "تم تعديل الموجّه بعد هذا التحليل. أعد التحليل لقبول التغييرات واحدًا تلو الآخر، أو استخدم إعادة الصياغة كاملة.",
+    },
+  },
+};
@@ -0,0 +1,290 @@
+import { ApiError, errorResponse } from "@/lib/api/errors";
+import type { ApiKey } from "@/lib/api/keys";
+import { log } from "@/lib/observability";
+import { estimateTokens } from "@/lib/tokens";
+import { createMemoryLimitStore, type LimitStore } from "./store";
+import { peekTokens, takeTokens, type BucketConfig } from "./token-bucket";
+
+export type { LimitStore } from "./store";
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export const MAX_PROMPT_CHARS = envNumber("MAX_PROMPT_CHARS", 8000);
+
+const ipBucket: BucketConfig = {
+  capacity: envNumber("RATE_LIMIT_IP_BURST", 10),
+  refillPerSecond: envNumber("RATE_LIMIT_IP_PER_MINUTE", 10) / 60,
+};
+
+const sessionBucket: BucketConfig = {
+  capacity: envNumber("RATE_LIMIT_SESSION_BURST", 5),
+  refillPerSecond: envNumber("RATE_LIMIT_SESSION_PER_MINUTE", 5) / 60,
+};
+
+// Wrong classroom passcodes, kept apart from the analyze buckets so that API
+// keys and cached results don't lift it.
+const passcodeBucket: BucketConfig = {
+  capacity: envNumber("RATE_LIMIT_PASSCODE_BURST", 10),
+  refillPerSecond: envNumber("RATE_LIMIT_PASSCODE_PER_MINUTE", 10) / 60,
+};
+
+const DAILY_TOKEN_BUDGET = envNumber("DAILY_TOKEN_BUDGET", 2_000_000);
+
+// Rough per-call overhead: the grading instruction plus a typical JSON answer.
+const INSTRUCTION_TOKENS = 600;
+const OUTPUT_TOKENS = 900;
+
+let store: LimitStore = createMemoryLimitStore();
+
+/**
+ * Swaps the limit state backend, e.g. for a Redis adapter.
+ */
+export function setLimitStore(next: LimitStore) {
+  store = next;
+}
+
+export function estimateCallTokens(prompt: string): number {
+  return estimateTokens(prompt) + INSTRUCTION_TOKENS + OUTPUT_TOKENS;
+}
+
+// Proxies in front of the app that append the address they saw to
+// X-Forwarded-For; 0 when clients connect to the app directly.
+const TRUSTED_PROXY_HOPS = Math.floor(envNumber("TRUSTED_PROXY_HOPS", 0));
+
+if (!TRUSTED_PROXY_HOPS) {
+  log("warn", "limits.no_trusted_proxy", {
+    message:
+      "TRUSTED_PROXY_HOPS is not set, so every client shares one per-IP rate limit. Set it to the number of proxies in front of the app.",
+  });
+}
+
+/**
+ * The client address for the per-IP bucket. X-Forwarded-For is only read
+ * behind TRUSTED_PROXY_HOPS proxies: the entry that many places from the end
+ * was written by the first trusted proxy, whatever the client sent before it.
+ * Without trusted proxies the header may be forged, so every client shares
+ * one bucket.
+ */
+export function clientIp(request: Request): string {
+  if (!TRUSTED_PROXY_HOPS) return "direct";
+  const forwarded = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return (
+    forwarded[forwarded.length - TRUSTED_PROXY_HOPS] ??
+    forwarded[0] ??
+    request.headers.get("x-real-ip") ??
+    "unknown"
+  );
+}
+
+/**
+ * A 413 for a request sending more prompts than a bucket holds: it could
+ * never be allowed, so no Retry-After would help.
+ */
+function burstError(cost: number, capacity: number, who: string): ApiError | null {
+  if (cost <= capacity) return null;
+  return new ApiError(
+    413,
+    "payload_too_large",
+    `This request sends ${cost} prompts, but ${who} may send at most ${capacity} at once. Split it into smaller batches.`,
+    { maxPrompts: capacity },
+  );
+}
+
+function tooManyRequests(
+  message: string,
+  limit: "ip" | "session" | "passcode" | "budget" | "key-minute" | "key-day",
+  retryAfter: number,
+): ApiError {
+  const code =
+    limit === "budget" ? "budget_exhausted" : limit.startsWith("key") ? "quota_exceeded" : "rate_limited";
+  return new ApiError(429, code, message, { limit, retryAfter }, {
+    "Retry-After": String(retryAfter),
+  });
+}
+
+export function promptTooLargeError(length: number): ApiError {
+  return new ApiError(
+    413,
+    "payload_too_large",
+    `Prompt is ${length.toLocaleString("en-US")} characters; the limit is ${MAX_PROMPT_CHARS.toLocaleString("en-US")}.`,
+    { maxLength: MAX_PROMPT_CHARS },
+  );
+}
+
+export function promptTooLarge(length: number): Response {
+  return errorResponse(promptTooLargeError(length), "legacy");
+}
+
+export function contentLengthError(request: Request, maxPrompts = 1): ApiError | null {
+  const length = Number(request.headers.get("content-length"));
+  // JSON escaping can grow a prompt; allow generous headroom per prompt.
+  if (Number.isFinite(length) && length > maxPrompts * (MAX_PROMPT_CHARS * 6 + 1024)) {
+    return new ApiError(413, "payload_too_large", "Request body is too large.");
+  }
+  return null;
+}
+
+/**
+ * Rejects request bodies that are clearly too large before they are parsed.
+ */
+export function checkContentLength(request: Request, maxPrompts = 1): Response | null {
+  const error = contentLengthError(request, maxPrompts);
+  return error && errorResponse(error, "legacy");
+}
+
+async function budgetError(prompts: string[]): Promise<ApiError | null> {
+  const now = new Date();
+  const day = now.toISOString().slice(0, 10);
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  const tokens = prompts.reduce((sum, p) => sum + estimateCallTokens(p), 0);
+  const used = await store.incrBy(`budget:${day}`, tokens, midnight - now.getTime());
+  if (used > DAILY_TOKEN_BUDGET) {
+    // Give the reservation back so rejected requests don't eat the budget.
+    await store.incrBy(`budget:${day}`, -tokens, midnight - now.getTime());
+    return tooManyRequests(
+      "The analyzer has used up today's model budget.",
+      "budget",
+      Math.ceil((midnight - now.getTime()) / 1000),
+    );
+  }
+  return null;
+}
+
+export type RateLimitOptions = {
+  countsAgainstBudget: boolean;
+  // Rate-limit tokens to take; one per prompt by default. Batches are charged
+  // as a single request, so only the budget grows with their size.
+  cost?: number;
+  // Gives other endpoints, e.g. "history", buckets of their own so their
+  // writes don't use up the analyze limits.
+  scope?: string;
+};
+
+/**
+ * Applies the per-IP and per-session token buckets and, for model-backed
+ * providers, the daily token budget. Returns the 429 error when a limit is
+ * hit (413 when the request alone exceeds a bucket), or null when the request
+ * may proceed. `prompts` are the texts about to be sent; each one costs a
+ * rate-limit token unless `cost` says otherwise.
+ */
+export async function rateLimitError(
+  request: Request,
+  prompts: string[],
+  options: RateLimitOptions,
+): Promise<ApiError | null> {
+  const cost = Math.max(1, options.cost ?? prompts.length);
+  const sessionId = request.headers.get("x-session-id");
+  const oversized =
+    burstError(cost, ipBucket.capacity, "your network") ??
+    (sessionId ? burstError(cost, sessionBucket.capacity, "your session") : null);
+  if (oversized) return oversized;
+
+  const prefix = options.scope ? `rl:${options.scope}` : "rl";
+  const ip = await takeTokens(store, `${prefix}:ip:${clientIp(request)}`, ipBucket, cost);
+  if (!ip.allowed) {
+    return tooManyRequests("Too many requests from your network.", "ip", ip.retryAfter);
+  }
+
+  if (sessionId) {
+    const session = await takeTokens(
+      store,
+      `${prefix}:session:${sessionId.slice(0, 64)}`,
+      sessionBucket,
+      cost,
+    );
+    if (!session.allowed) {
+      return tooManyRequests(
+        "You're analyzing prompts too quickly.",
+        "session",
+        session.retryAfter,
+      );
+    }
+  }
+
+  return options.countsAgainstBudget ? budgetError(prompts) : null;
+}
+
+// Failures are counted per passcode (e.g. an assignment's student) and, once
+// the proxy is trusted, per IP, so one client's guesses lock out only what it
+// guessed at.
+function passcodeKey(request: Request, scope: string): string {
+  return `rl:passcode:${scope}${TRUSTED_PROXY_HOPS ? `:${clientIp(request)}` : ""}`;
+}
+
+/**
+ * The 429 error when too many wrong passcodes were sent for `scope` recently,
+ * else null. Call it before checking a passcode, and recordPasscodeFailure
+ * when the check fails; right passcodes cost nothing.
+ */
+export async function passcodeLockError(
+  request: Request,
+  scope: string,
+): Promise<ApiError | null> {
+  const bucket = await peekTokens(store, passcodeKey(request, scope), passcodeBucket);
+  if (bucket.allowed) return null;
+  return tooManyRequests("Too many wrong passcodes. Try again later.", "passcode", bucket.retryAfter);
+}
+
+export async function recordPasscodeFailure(request: Request, scope: string): Promise<void> {
+  await takeTokens(store, passcodeKey(request, scope), passcodeBucket);
+}
+
+/** Same as rateLimitError, rendered as the unversioned endpoints' 429 response. */
+export async function checkRateLimits(
+  request: Request,
+  prompts: string[],
+  options: RateLimitOptions,
+): Promise<Response | null> {
+  const error = await rateLimitError(request, prompts, options);
+  return error && errorResponse(error, "legacy");
+}
+
+/**
+ * Applies an API key's quota in place of the per-IP and per-session limits:
+ * a per-minute token bucket and a per-UTC-day request count. The daily model
+ * budget is shared with every other caller.
+ */
+export async function apiKeyLimitError(
+  key: ApiKey,
+  prompts: string[],
+  options: { countsAgainstBudget: boolean },
+): Promise<ApiError | null> {
+  const cost = Math.max(1, prompts.length);
+  const oversized = burstError(cost, key.quota.perMinute, "this API key");
+  if (oversized) return oversized;
+
+  const minute = await takeTokens(
+    store,
+    `rl:key:${key.id}`,
+    { capacity: key.quota.perMinute, refillPerSecond: key.quota.perMinute / 60 },
+    cost,
+  );
+  if (!minute.allowed) {
+    return tooManyRequests(
+      `This API key is limited to ${key.quota.perMinute} requests per minute.`,
+      "key-minute",
+      minute.retryAfter,
+    );
+  }
+
+  const now = new Date();
+  const day = now.toISOString().slice(0, 10);
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  const used = await store.incrBy(`quota:${key.id}:${day}`, cost, midnight - now.getTime());
+  if (used > key.quota.perDay) {
+    await store.incrBy(`quota:${key.id}:${day}`, -cost, midnight - now.getTime());
+    return tooManyRequests(
+      `This API key has used its ${key.quota.perDay} requests for today.`,
+      "key-day",
+      Math.ceil((midnight - now.getTime()) / 1000),
+    );
+  }
+
+  return options.countsAgainstBudget ? budgetError(prompts) : null;
+}
@@ -0,0 +1,42 @@
+/**
+ * Minimal key-value contract the limiters need. It maps directly onto Redis
+ * (GET / SET PX / INCRBY + PEXPIRE), so a shared store can replace the
+ * in-memory default when the app runs on more than one instance.
+ */
+export interface LimitStore {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  // Adds to a counter and returns the new value; the TTL is set on creation.
+  incrBy(key: string, amount: number, ttlMs: number): Promise<number>;
+}
+
+export function createMemoryLimitStore(): LimitStore {
+  const entries = new Map<string, { value: string; expiresAt: number }>();
+
+  function read(key: string) {
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  return {
+    async get(key) {
+      return read(key)?.value;
+    },
+    async set(key, value, ttlMs) {
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    },
+    async incrBy(key, amount, ttlMs) {
+      const entry = read(key);
+      const value = Number(entry?.value ?? 0) + amount;
+      entries.set(key, {
+        value: String(value),
+        expiresAt: entry?.expiresAt ?? Date.now() + ttlMs,
+      });
+      return value;
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import type { LimitStore } from "./store";
+
+export type BucketConfig = {
+  // Maximum burst size.
+  capacity: number;
+  refillPerSecond: number;
+};
+
+export type BucketResult = {
+  allowed: boolean;
+  remaining: number;
+  // Seconds until enough tokens are available; 0 when allowed.
+  retryAfter: number;
+};
+
+async function currentTokens(
+  store: LimitStore,
+  key: string,
+  config: BucketConfig,
+  now: number,
+): Promise<number> {
+  const raw = await store.get(key);
+  const [storedTokens, storedAt] = raw ? raw.split(":").map(Number) : [config.capacity, now];
+  const elapsed = Math.max(0, now - storedAt) / 1000;
+  return Math.min(config.capacity, storedTokens + elapsed * config.refillPerSecond);
+}
+
+/**
+ * Whether `cost` tokens could be taken from the bucket under `key`, without
+ * taking them.
+ */
+export async function peekTokens(
+  store: LimitStore,
+  key: string,
+  config: BucketConfig,
+  cost = 1,
+  now = Date.now(),
+): Promise<BucketResult> {
+  const tokens = await currentTokens(store, key, config, now);
+  return tokens < cost
+    ? {
+        allowed: false,
+        remaining: Math.floor(tokens),
+        retryAfter: Math.ceil((cost - tokens) / config.refillPerSecond),
+      }
+    : { allowed: true, remaining: Math.floor(tokens), retryAfter: 0 };
+}
+
+/**
+ * Takes `cost` tokens from the bucket stored under `key`. The bucket state is
+ * kept as "tokens:updatedAtMs" and refilled lazily on each call.
+ */
+export async function takeTokens(
+  store: LimitStore,
+  key: string,
+  config: BucketConfig,
+  cost = 1,
+  now = Date.now(),
+): Promise<BucketResult> {
+  const tokens = await currentTokens(store, key, config, now);
+
+  // A full refill takes capacity / rate seconds; keep the state a bit longer.
+  const ttlMs = Math.ceil((config.capacity / config.refillPerSecond) * 1000) + 60_000;
+
+  if (tokens < cost) {
+    await store.set(key, `${tokens}:${now}`, ttlMs);
+    return {
+      allowed: false,
+      remaining: Math.floor(tokens),
+      retryAfter: Math.ceil((cost - tokens) / config.refillPerSecond),
+    };
+  }
+
+  await store.set(key, `${tokens - cost}:${now}`, ttlMs);
+  return { allowed: true, remaining: Math.floor(tokens - cost), retryAfter: 0 };
+}
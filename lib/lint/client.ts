@@ -0,0 +1,25 @@
+import { handleAnalyze } from "@/lib/analysis/handler";
+import { createApiClient, type ApiClient } from "@/lib/api/client";
+import { ApiError, errorResponse } from "@/lib/api/errors";
+import { jsonResponse } from "@/lib/http";
+import { rubrics } from "@/lib/rubrics";
+
+/**
+ * An /api/v1 client that runs the endpoints' handlers in this process instead
+ * of calling a server: the same checks and analysis pipeline, without an API
+ * key or rate limits.
+ */
+export function createInProcessClient(): ApiClient {
+  return createApiClient({
+    baseUrl: "http://in-process",
+    fetch: async (input, init) => {
+      const request = new Request(input, init);
+      const { pathname } = new URL(request.url);
+      if (pathname === "/api/v1/analyze" && request.method === "POST") {
+        return handleAnalyze(request, { style: "v1", limit: async () => null });
+      }
+      if (pathname === "/api/v1/rubrics") return jsonResponse({ rubrics });
+      return errorResponse(new ApiError(404, "not_found", `No handler for ${pathname}.`), "v1");
+    },
+  });
+}
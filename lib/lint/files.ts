@@ -0,0 +1,117 @@
+import { readdir, stat } from "node:fs/promises";
+import path from "node:path";
+
+// Files picked up from directories and globs.
+export const PROMPT_EXTENSIONS = [".txt", ".md"];
+
+// Written by --fix in sibling mode; never linted unless named explicitly.
+export const IMPROVED_INFIX = ".improved";
+
+const SKIPPED_DIRS = new Set(["node_modules"]);
+
+const MAGIC = /[*?{[]/;
+
+/**
+ * Converts a glob to a regular expression over "/"-separated relative paths.
+ * Supports `**`, `*`, `?`, `[...]` and `{a,b}`.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      // "**/" also matches no directory at all.
+      const slash = glob[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        source += `[${glob.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\")}]`;
+        i = end;
+      }
+    } else if (char === "{") {
+      braces++;
+      source += "(?:";
+    } else if (char === "}" && braces > 0) {
+      braces--;
+      source += ")";
+    } else if (char === "," && braces > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|\\\]}]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function isImproved(file: string): boolean {
+  return path.basename(file, path.extname(file)).endsWith(IMPROVED_INFIX);
+}
+
+async function* walk(dir: string): AsyncGenerator<string> {
+  const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+  for (const entry of entries) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!entry.name.startsWith(".") && !SKIPPED_DIRS.has(entry.name)) yield* walk(full);
+    } else if (entry.isFile()) {
+      yield full;
+    }
+  }
+}
+
+/**
+ * Resolves file, directory and glob arguments to a sorted list of prompt
+ * files relative to `cwd`. Directories contribute their .txt and .md files;
+ * globs are matched as written. Throws for an argument that matches nothing.
+ */
+export async function expandPatterns(patterns: string[], cwd = process.cwd()): Promise<string[]> {
+  const files = new Set<string>();
+  const relative = (file: string) => path.relative(cwd, file).split(path.sep).join("/");
+
+  for (const pattern of patterns) {
+    const normalized = pattern.split(path.sep).join("/");
+    const matched: string[] = [];
+
+    if (!MAGIC.test(normalized)) {
+      const target = path.resolve(cwd, normalized);
+      const info = await stat(target).catch(() => null);
+      if (info?.isFile()) matched.push(relative(target));
+      if (info?.isDirectory()) {
+        for await (const file of walk(target)) {
+          if (PROMPT_EXTENSIONS.includes(path.extname(file)) && !isImproved(file)) {
+            matched.push(relative(file));
+          }
+        }
+      }
+    } else {
+      // Walk only below the part of the pattern without wildcards.
+      const segments = normalized.split("/");
+      const magicAt = segments.findIndex((s) => MAGIC.test(s));
+      const base = path.resolve(cwd, segments.slice(0, magicAt).join("/") || ".");
+      const matcher = globToRegExp(path.posix.normalize(relative(path.resolve(cwd, normalized))));
+      for await (const file of walk(base)) {
+        if (matcher.test(relative(file)) && !isImproved(file)) matched.push(relative(file));
+      }
+    }
+
+    if (matched.length === 0) throw new Error(`No prompt files match "${pattern}".`);
+    for (const file of matched) files.add(file);
+  }
+
+  return [...files].sort();
+}
+
+/** The file --fix writes to in sibling mode: notes.md → notes.improved.md. */
+export function siblingPath(file: string): string {
+  const ext = path.extname(file);
+  return `${file.slice(0, file.length - ext.length)}${IMPROVED_INFIX}${ext}`;
+}
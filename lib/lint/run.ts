@@ -0,0 +1,61 @@
+import { readFile } from "node:fs/promises";
+import { ApiClientError, type AnalyzeInput, type ApiClient } from "@/lib/api/client";
+import { checkThresholds } from "./thresholds";
+import type { LintResult, Thresholds } from "./types";
+
+export type LintOptions = Omit<AnalyzeInput, "prompt" | "assignment"> & {
+  thresholds: Thresholds;
+};
+
+// Longest Retry-After a run waits out before giving up on a file.
+const MAX_RETRY_WAIT_SECONDS = 60;
+const MAX_ATTEMPTS = 3;
+
+async function analyzeWithRetry(client: ApiClient, input: AnalyzeInput) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return (await client.analyze(input)).analysis;
+    } catch (error) {
+      const wait = error instanceof ApiClientError && error.status === 429 && error.retryAfter;
+      if (!wait || wait > MAX_RETRY_WAIT_SECONDS || attempt === MAX_ATTEMPTS) throw error;
+      await new Promise((resolve) => setTimeout(resolve, wait * 1000));
+    }
+  }
+}
+
+/** Grades one prompt file and checks it against the thresholds. */
+export async function lintFile(
+  client: ApiClient,
+  file: string,
+  options: LintOptions,
+): Promise<LintResult> {
+  const text = await readFile(file, "utf8");
+  const { thresholds, ...input } = options;
+  try {
+    const analysis = await analyzeWithRetry(client, { ...input, prompt: text });
+    return { file, text, analysis, failures: checkThresholds(analysis, thresholds) };
+  } catch (error) {
+    if (!(error instanceof ApiClientError)) throw error;
+    return { file, text, failures: [], error: { code: error.code, message: error.message } };
+  }
+}
+
+/**
+ * Lints the files one at a time to stay within provider rate limits. Files
+ * the API refuses (too long, blocked by the scanner, ...) are reported, not
+ * retried; network and unexpected errors abort the run.
+ */
+export async function lintFiles(
+  client: ApiClient,
+  files: string[],
+  options: LintOptions,
+  onResult?: (result: LintResult) => void,
+): Promise<LintResult[]> {
+  const results: LintResult[] = [];
+  for (const file of files) {
+    const result = await lintFile(client, file, options);
+    results.push(result);
+    onResult?.(result);
+  }
+  return results;
+}
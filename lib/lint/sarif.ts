@@ -0,0 +1,103 @@
+import type { Annotation } from "@/lib/analysis/types";
+import type { Rubric } from "@/lib/rubrics/types";
+import { OVERALL } from "./thresholds";
+import type { LintResult } from "./types";
+
+// 1-based, with columns in UTF-16 code units like the annotation offsets.
+function positionAt(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, offset);
+  const lineStart = before.lastIndexOf("\n") + 1;
+  return { line: before.split("\n").length, column: offset - lineStart + 1 };
+}
+
+function location(file: string, text: string, annotation?: Annotation) {
+  const start = positionAt(text, annotation?.start ?? 0);
+  const end = annotation ? positionAt(text, annotation.end) : undefined;
+  return {
+    physicalLocation: {
+      artifactLocation: { uri: file },
+      region: {
+        startLine: start.line,
+        startColumn: start.column,
+        ...(end && { endLine: end.line, endColumn: end.column }),
+      },
+    },
+  };
+}
+
+/**
+ * Converts lint results to a SARIF 2.1.0 log for code-scanning tools. Scores
+ * below their thresholds are errors, located at the criterion's annotations
+ * when it has any; the annotations themselves are notes or warnings. Files
+ * that could not be graded become tool notifications.
+ */
+export function toSarif(results: LintResult[], rubric: Rubric) {
+  const rules = [
+    {
+      id: OVERALL,
+      name: "Overall",
+      shortDescription: { text: "Weighted overall score of the prompt." },
+    },
+    ...rubric.criteria.map((c) => ({
+      id: c.id,
+      name: c.label,
+      shortDescription: { text: c.description },
+      help: { text: c.hint },
+    })),
+  ];
+
+  const sarifResults = results.flatMap(({ file, text, analysis, failures }) => {
+    if (!analysis) return [];
+    const feedback = new Map(analysis.criteria.map((c) => [c.id, c.feedback]));
+
+    const thresholdResults = failures.map((failure) => {
+      const annotations = analysis.annotations.filter((a) => a.criterionId === failure.criterionId);
+      const detail = feedback.get(failure.criterionId);
+      return {
+        ruleId: failure.criterionId,
+        level: "error",
+        message: {
+          text: `${failure.label} scored ${failure.score}, below the minimum of ${failure.min}.${detail ? ` ${detail}` : ""}`,
+        },
+        locations: annotations.length
+          ? annotations.map((a) => location(file, text, a))
+          : [location(file, text)],
+      };
+    });
+
+    const annotationResults = analysis.annotations.map((a) => ({
+      ruleId: a.criterionId,
+      level: a.severity === "info" ? "note" : "warning",
+      message: { text: a.comment },
+      locations: [location(file, text, a)],
+    }));
+
+    return [...thresholdResults, ...annotationResults];
+  });
+
+  const notifications = results
+    .filter((r) => r.error)
+    .map((r) => ({
+      level: "error",
+      message: { text: `${r.file}: ${r.error!.message}` },
+      descriptor: { id: r.error!.code },
+    }));
+
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: { driver: { name: "prompt-analyzer", rules } },
+        invocations: [
+          {
+            executionSuccessful: notifications.length === 0,
+            toolExecutionNotifications: notifications,
+          },
+        ],
+        columnKind: "utf16CodeUnits",
+        results: sarifResults,
+      },
+    ],
+  };
+}
@@ -0,0 +1,61 @@
+import type { Analysis } from "@/lib/analysis/types";
+import type { Rubric } from "@/lib/rubrics/types";
+import type { ThresholdFailure, Thresholds } from "./types";
+
+export const OVERALL = "overall";
+
+function parseScore(raw: string): number | null {
+  const value = Number(raw);
+  return raw.trim() !== "" && Number.isInteger(value) && value >= 0 && value <= 100 ? value : null;
+}
+
+/**
+ * Builds thresholds from `--min-score` and `--threshold <criterion>=<score>`
+ * arguments, checking criterion ids against the rubric. Throws with a message
+ * for the user on invalid input.
+ */
+export function parseThresholds(
+  minScore: string | undefined,
+  entries: string[],
+  rubric: Rubric,
+): Thresholds {
+  const thresholds: Thresholds = { criteria: {} };
+  if (minScore !== undefined) {
+    const value = parseScore(minScore);
+    if (value === null) throw new Error("--min-score must be a whole number from 0 to 100.");
+    thresholds.minScore = value;
+  }
+  for (const entry of entries) {
+    const [id, raw = ""] = entry.split("=", 2);
+    const value = parseScore(raw);
+    if (value === null) {
+      throw new Error(`--threshold "${entry}" must look like <criterion>=<0-100>.`);
+    }
+    if (!rubric.criteria.some((c) => c.id === id)) {
+      const ids = rubric.criteria.map((c) => c.id).join(", ");
+      throw new Error(`Rubric "${rubric.id}" has no criterion "${id}"; use one of ${ids}.`);
+    }
+    thresholds.criteria[id] = value;
+  }
+  return thresholds;
+}
+
+/** Lists the scores of an analysis that fall below their thresholds. */
+export function checkThresholds(analysis: Analysis, thresholds: Thresholds): ThresholdFailure[] {
+  const failures: ThresholdFailure[] = [];
+  if (thresholds.minScore !== undefined && analysis.overallScore < thresholds.minScore) {
+    failures.push({
+      criterionId: OVERALL,
+      label: "Overall",
+      score: analysis.overallScore,
+      min: thresholds.minScore,
+    });
+  }
+  for (const criterion of analysis.criteria) {
+    const min = thresholds.criteria[criterion.id];
+    if (min !== undefined && criterion.score < min) {
+      failures.push({ criterionId: criterion.id, label: criterion.label, score: criterion.score, min });
+    }
+  }
+  return failures;
+}
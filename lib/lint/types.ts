@@ -0,0 +1,25 @@
+import type { Analysis } from "@/lib/analysis/types";
+
+// Minimum scores a prompt file must reach; criteria are keyed by id.
+export type Thresholds = {
+  minScore?: number;
+  criteria: Record<string, number>;
+};
+
+// A score below its threshold; criterionId is "overall" for the overall score.
+export type ThresholdFailure = {
+  criterionId: string;
+  label: string;
+  score: number;
+  min: number;
+};
+
+export type LintResult = {
+  file: string;
+  // The file's contents as they were graded.
+  text: string;
+  analysis?: Analysis;
+  failures: ThresholdFailure[];
+  // Set instead of analysis when the file could not be graded.
+  error?: { code: string; message: string };
+};
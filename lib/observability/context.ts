@@ -0,0 +1,71 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { modelTokens, spanDuration } from "./metrics";
+
+export type Span = { name: string; ms: number };
+
+export type TokenUsage = { prompt: number; output: number };
+
+export type RequestContext = {
+  requestId: string;
+  route: string;
+  startedAt: number;
+  spans: Span[];
+  tokens: TokenUsage;
+};
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function runWithContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+export function currentRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
+
+/**
+ * Starts timing a pipeline step; call the returned function when it ends.
+ * Outside a request the duration still feeds the span histogram.
+ */
+export function startSpan(name: string): () => void {
+  const startedAt = performance.now();
+  return () => {
+    const ms = performance.now() - startedAt;
+    storage.getStore()?.spans.push({ name, ms: Math.round(ms) });
+    spanDuration.observe({ span: name }, ms / 1000);
+  };
+}
+
+/** Times `fn` as a span, whether it returns a value or a promise. */
+export function span<T>(name: string, fn: () => T): T {
+  const end = startSpan(name);
+  let result: T;
+  try {
+    result = fn();
+  } catch (error) {
+    end();
+    throw error;
+  }
+  if (result instanceof Promise) {
+    return result.finally(end) as T;
+  }
+  end();
+  return result;
+}
+
+/** Adds a model call's reported token counts to the request and the metrics. */
+export function recordTokenUsage(
+  provider: string,
+  usage: { promptTokenCount?: number; candidatesTokenCount?: number } | undefined,
+) {
+  if (!usage) return;
+  const prompt = usage.promptTokenCount ?? 0;
+  const output = usage.candidatesTokenCount ?? 0;
+  const context = storage.getStore();
+  if (context) {
+    context.tokens.prompt += prompt;
+    context.tokens.output += output;
+  }
+  modelTokens.inc({ provider, kind: "prompt" }, prompt);
+  modelTokens.inc({ provider, kind: "output" }, output);
+}
@@ -0,0 +1,39 @@
+import { currentRequestId } from "./context";
+
+export type FailedOutput = {
+  time: string;
+  requestId?: string;
+  reason: "json" | "schema";
+  raw: string;
+};
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const MAX_FAILED_OUTPUTS = envNumber("FAILED_OUTPUTS_MAX", 50);
+
+// Long answers are cut so the buffer's memory stays bounded too.
+const MAX_RAW_CHARS = 20_000;
+
+// Oldest entries are overwritten once the buffer is full.
+const buffer: FailedOutput[] = [];
+let next = 0;
+
+/** Keeps the raw text of a model answer that could not be used. */
+export function recordFailedOutput(reason: FailedOutput["reason"], raw: string) {
+  const entry: FailedOutput = {
+    time: new Date().toISOString(),
+    requestId: currentRequestId(),
+    reason,
+    raw: raw.length > MAX_RAW_CHARS ? `${raw.slice(0, MAX_RAW_CHARS)}…` : raw,
+  };
+  buffer[next] = entry;
+  next = (next + 1) % MAX_FAILED_OUTPUTS;
+}
+
+/** The captured answers, newest first. */
+export function recentFailedOutputs(): FailedOutput[] {
+  return [...buffer.slice(next), ...buffer.slice(0, next)].reverse();
+}
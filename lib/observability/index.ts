@@ -0,0 +1,129 @@
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import { jsonResponse } from "@/lib/http";
+import { runWithContext, type RequestContext } from "./context";
+import { log } from "./log";
+import { httpDuration, httpRequests } from "./metrics";
+
+export { recordTokenUsage, span, startSpan } from "./context";
+export { recentFailedOutputs, recordFailedOutput } from "./failures";
+export { log } from "./log";
+export { cacheLookups, parseFailures, renderMetrics } from "./metrics";
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+// Ids from a proxy in front of us are kept so logs line up across services.
+const validRequestId = /^[\w.:-]{1,128}$/;
+
+function requestIdFor(request: Request): string {
+  const incoming = request.headers.get(REQUEST_ID_HEADER);
+  return incoming && validRequestId.test(incoming) ? incoming : randomUUID();
+}
+
+function finish(context: RequestContext, status: number, extra: Record<string, unknown> = {}) {
+  const ms = performance.now() - context.startedAt;
+  httpRequests.inc({ route: context.route, status: String(status) });
+  httpDuration.observe({ route: context.route }, ms / 1000);
+  log(status >= 500 ? "error" : "info", "request", {
+    // Stream ends can run outside the request's async context.
+    requestId: context.requestId,
+    route: context.route,
+    status,
+    durationMs: Math.round(ms),
+    spans: context.spans,
+    tokens: context.tokens,
+    ...extra,
+  });
+}
+
+// Streams are timed until their last chunk, or until the client goes away.
+function onStreamEnd(
+  body: ReadableStream<Uint8Array>,
+  done: (cancelled: boolean) => void,
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done: ended } = await reader.read();
+      if (ended) {
+        controller.close();
+        done(false);
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      done(true);
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Runs a route handler with a request id, span collection and request
+ * metrics. The id is echoed in the X-Request-Id response header and on every
+ * log line written while handling the request.
+ */
+export async function observe(
+  route: string,
+  request: Request,
+  handler: () => Promise<Response>,
+): Promise<Response> {
+  const context: RequestContext = {
+    requestId: requestIdFor(request),
+    route,
+    startedAt: performance.now(),
+    spans: [],
+    tokens: { prompt: 0, output: 0 },
+  };
+
+  return runWithContext(context, async () => {
+    let response: Response;
+    try {
+      response = await handler();
+    } catch (error) {
+      finish(context, 500, { error });
+      throw error;
+    }
+
+    const headers = new Headers(response.headers);
+    headers.set(REQUEST_ID_HEADER, context.requestId);
+    const streaming = headers.get("Content-Type")?.startsWith("text/event-stream");
+    if (!streaming || !response.body) {
+      finish(context, response.status);
+      return new Response(response.body, { status: response.status, headers });
+    }
+
+    const body = onStreamEnd(response.body, (cancelled) =>
+      finish(context, response.status, cancelled ? { cancelled } : {}),
+    );
+    return new Response(body, { status: response.status, headers });
+  });
+}
+
+function sha256(text: string): Buffer {
+  return createHash("sha256").update(text).digest();
+}
+
+/**
+ * Guards the metrics endpoints with METRICS_TOKEN as a bearer token. Without
+ * the variable they are open, unless `required` (for endpoints that expose
+ * prompt text) in which case they stay disabled.
+ */
+export function checkMetricsToken(
+  request: Request,
+  options: { required: boolean } = { required: false },
+): Response | null {
+  const token = process.env.METRICS_TOKEN;
+  if (!token) {
+    return options.required
+      ? jsonResponse({ error: "Set METRICS_TOKEN to enable this endpoint." }, 404)
+      : null;
+  }
+  const given = (request.headers.get("Authorization") ?? "").replace(/^Bearer\s+/i, "");
+  if (!timingSafeEqual(sha256(given), sha256(token))) {
+    return jsonResponse({ error: "A valid metrics token is required." }, 401, {
+      "WWW-Authenticate": "Bearer",
+    });
+  }
+  return null;
+}
@@ -0,0 +1,32 @@
+import { currentRequestId } from "./context";
+
+export type LogLevel = "info" | "warn" | "error";
+
+const SERVICE = "prompt-analyzer";
+
+function serializeError(error: unknown) {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack };
+  }
+  return { message: String(error) };
+}
+
+/**
+ * Writes one JSON line per event, tagged with the id of the request it
+ * belongs to. An `error` field is serialized with its name, message and stack.
+ */
+export function log(level: LogLevel, event: string, fields: Record<string, unknown> = {}) {
+  const { error, ...rest } = fields;
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    service: SERVICE,
+    event,
+    requestId: currentRequestId(),
+    ...rest,
+    ...(error !== undefined && { error: serializeError(error) }),
+  });
+  if (level === "error") console.error(line);
+  else if (level === "warn") console.warn(line);
+  else console.log(line);
+}
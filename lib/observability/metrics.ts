@@ -0,0 +1,135 @@
+type Labels = Record<string, string>;
+
+type Metric = {
+  name: string;
+  help: string;
+  type: "counter" | "histogram";
+  render(): string[];
+};
+
+const registry: Metric[] = [];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(",")}}`;
+}
+
+// Series are keyed by their sorted labels so { a, b } and { b, a } match.
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+export type Counter = { inc(labels?: Labels, amount?: number): void };
+
+export function createCounter(name: string, help: string): Counter {
+  const series = new Map<string, { labels: Labels; value: number }>();
+  registry.push({
+    name,
+    help,
+    type: "counter",
+    render: () =>
+      [...series.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+  });
+
+  return {
+    inc(labels = {}, amount = 1) {
+      const key = seriesKey(labels);
+      const entry = series.get(key) ?? { labels, value: 0 };
+      entry.value += amount;
+      series.set(key, entry);
+    },
+  };
+}
+
+export type Histogram = { observe(labels: Labels, value: number): void };
+
+export function createHistogram(name: string, help: string, buckets: number[]): Histogram {
+  const series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+  registry.push({
+    name,
+    help,
+    type: "histogram",
+    render: () =>
+      [...series.values()].flatMap(({ labels, counts, sum, count }) => [
+        ...buckets.map(
+          (le, i) => `${name}_bucket${formatLabels({ ...labels, le: String(le) })} ${counts[i]}`,
+        ),
+        `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`,
+      ]),
+  });
+
+  return {
+    observe(labels, value) {
+      const key = seriesKey(labels);
+      const entry = series.get(key) ?? {
+        labels,
+        counts: buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      // Buckets are cumulative: a value counts towards every bound above it.
+      buckets.forEach((le, i) => {
+        if (value <= le) entry.counts[i]++;
+      });
+      entry.sum += value;
+      entry.count++;
+      series.set(key, entry);
+    },
+  };
+}
+
+/** Renders every registered metric in the Prometheus text exposition format. */
+export function renderMetrics(): string {
+  return registry
+    .flatMap(({ name, help, type, render }) => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} ${type}`,
+      ...render(),
+    ])
+    .join("\n")
+    .concat("\n");
+}
+
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+export const httpRequests = createCounter(
+  "prompt_analyzer_http_requests_total",
+  "Requests handled, by route and response status.",
+);
+
+export const httpDuration = createHistogram(
+  "prompt_analyzer_http_request_duration_seconds",
+  "Time from receiving a request to its last response byte, by route.",
+  LATENCY_BUCKETS,
+);
+
+export const spanDuration = createHistogram(
+  "prompt_analyzer_span_duration_seconds",
+  "Duration of pipeline steps (model, parse, validate), by span.",
+  LATENCY_BUCKETS,
+);
+
+export const parseFailures = createCounter(
+  "prompt_analyzer_model_parse_failures_total",
+  "Model answers that were not valid JSON (reason=json) or failed validation after every repair (reason=schema).",
+);
+
+export const cacheLookups = createCounter(
+  "prompt_analyzer_cache_lookups_total",
+  "Analysis cache lookups, by result (hit or miss).",
+);
+
+export const modelTokens = createCounter(
+  "prompt_analyzer_model_tokens_total",
+  "Tokens reported by the model API, by provider and kind (prompt or output).",
+);
@@ -0,0 +1,60 @@
+import { GoogleGenerativeAI, type GenerationConfig } from "@google/generative-ai";
+import { runModelAnalysis } from "@/lib/analysis/pipeline";
+import { recordTokenUsage, startSpan } from "@/lib/observability";
+import type { AnalysisProvider, ProviderOptions, Sampling } from "./types";
+
+// The API accepts a seed, but this SDK version's GenerationConfig type does
+// not declare it yet.
+function generationRequest(request: string, sampling: Sampling) {
+  return {
+    contents: [{ role: "user", parts: [{ text: request }] }],
+    generationConfig: {
+      temperature: sampling.temperature,
+      seed: sampling.seed,
+    } as GenerationConfig,
+  };
+}
+
+export const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
+
+export function createGeminiProvider(
+  apiKey: string,
+  model: string = DEFAULT_GEMINI_MODEL,
+) {
+  const genAI = new GoogleGenerativeAI(apiKey);
+  const client = genAI.getGenerativeModel({ model });
+
+  // The current docs show using generateContent with a simple string prompt.
+  async function generateText(request: string, options: ProviderOptions = {}) {
+    const result = await client.generateContent(
+      options.sampling ? generationRequest(request, options.sampling) : request,
+      { signal: options.signal },
+    );
+    recordTokenUsage("gemini", result.response.usageMetadata);
+    return result.response.text();
+  }
+
+  async function* streamText(request: string, options: ProviderOptions = {}) {
+    const end = startSpan("model");
+    const result = await client.generateContentStream(request, {
+      signal: options.signal,
+    });
+    for await (const chunk of result.stream) {
+      yield chunk.text();
+    }
+    end();
+    // The aggregated response carries the usage of the whole stream.
+    recordTokenUsage("gemini", (await result.response).usageMetadata);
+  }
+
+  const provider: AnalysisProvider = {
+    id: "gemini",
+    label: model === DEFAULT_GEMINI_MODEL ? "Gemini 2.5 Flash" : model,
+    model,
+    generateText,
+    streamText,
+    analyze: (prompt, rubric, options) =>
+      runModelAnalysis(generateText, prompt, rubric, options),
+  };
+  return provider;
+}
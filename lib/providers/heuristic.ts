@@ -0,0 +1,387 @@
+import type { RewriteSettings } from "@/lib/analysis/rewrite";
+import type {
+  Analysis,
+  Annotation,
+  CriterionScore,
+  Rewrite,
+  RewriteChange,
+  RewriteStyle,
+} from "@/lib/analysis/types";
+import { labelForScore, levelForScore } from "@/lib/analysis/validate";
+import { detectLanguage, type LanguageSettings } from "@/lib/i18n";
+import { weightedScore } from "@/lib/rubrics";
+import type { Rubric, RubricCriterion } from "@/lib/rubrics/types";
+import type { AnalysisProvider } from "./types";
+
+type Cue = {
+  pattern: RegExp;
+  points: number;
+  // Shown as positive feedback when the cue matches.
+  note: string;
+};
+
+// Hand-tuned cues for the general rubric. Criteria of other rubrics fall back
+// to the keywords declared in their definition.
+const cues: Record<string, Cue[]> = {
+  context: [
+    { pattern: /^\s*(you are|act as|imagine you are)\b/im, points: 35, note: "sets a role" },
+    { pattern: /^\s*(context|background)\s*:/im, points: 35, note: "has a Context section" },
+    { pattern: /\b(i am|i'm|we are|our team|my class)\b/i, points: 20, note: "says who is asking" },
+    { pattern: /\b(audience|beginners?|students?|experts?|customers?|readers?)\b/i, points: 15, note: "names the audience" },
+  ],
+  goal: [
+    { pattern: /^\s*(task|goal|objective)\s*:/im, points: 45, note: "has an explicit task" },
+    { pattern: /\b(i want|i need|help me|your job is to|so that)\b/i, points: 25, note: "states the desired outcome" },
+    {
+      pattern: /^\s*(?:(?:task|goal)\s*:\s*)?(write|explain|teach|create|summari[sz]e|generate|draft|list|compare|analy[sz]e|design|review|translate)\b/im,
+      points: 30,
+      note: "uses a clear action verb",
+    },
+  ],
+  format: [
+    { pattern: /^\s*(output format|format|structure)\s*:/im, points: 50, note: "has an Output format section" },
+    {
+      pattern: /\b(bullet(-point)?s?|numbered|table|json|markdown|sections?|headings?|slides?|steps?|paragraphs?|csv)\b/i,
+      points: 35,
+      note: "names a concrete structure",
+    },
+    { pattern: /\b(title|summary at the end|tl;dr)\b/i, points: 15, note: "asks for specific parts" },
+  ],
+  constraints: [
+    { pattern: /^\s*(constraints?|rules|requirements)\s*:/im, points: 30, note: "has a Constraints section" },
+    {
+      pattern: /\b(under|at most|no more than|max(imum)?|within|less than|fewer than|exactly)\s+\d+\s*(words?|sentences?|characters?|bullets?|paragraphs?|lines?|pages?|items?)\b/i,
+      points: 35,
+      note: "sets a length limit",
+    },
+    {
+      pattern: /^\s*(tone|style|tone\/style|voice)\s*:|\b(formal|friendly|casual|simple|professional|concise|playful)\b/im,
+      points: 25,
+      note: "specifies tone",
+    },
+    { pattern: /\b(avoid|do not|don't|never|only use|must)\b/i, points: 15, note: "lists dos and don'ts" },
+  ],
+  examples: [
+    { pattern: /^\s*examples?\s*:/im, points: 40, note: "has an Examples section" },
+    { pattern: /\b(for example|e\.g\.|such as|like this)\b/i, points: 20, note: "gives an inline example" },
+    { pattern: /```|^\s*(input|output)\s*:/im, points: 35, note: "includes an example block" },
+    { pattern: /"[^"\n]{12,}"/, points: 15, note: "quotes sample text" },
+  ],
+};
+
+// \b only knows ASCII letters, so French and Arabic words are delimited by
+// any letter instead.
+function words(alternatives: string, flags = "iu"): RegExp {
+  return new RegExp(`(?<!\\p{L})(?:${alternatives})(?!\\p{L})`, flags);
+}
+
+// The same cues for French and Arabic prompts. A cue counts once per
+// criterion whichever language matched it, so mixed-language prompts don't
+// score twice.
+const translatedCues: Record<string, Cue[]> = {
+  context: [
+    { pattern: /^\s*(tu es|vous êtes|agis comme|agissez comme|joue le rôle|أنت|تصرف ك|تصرّف ك)/imu, points: 35, note: "sets a role" },
+    { pattern: /^\s*(contexte|السياق|الخلفية)\s*:/imu, points: 35, note: "has a Context section" },
+    { pattern: words("je suis|nous sommes|notre équipe|ma classe|أنا|نحن|فريقنا|صفي"), points: 20, note: "says who is asking" },
+    {
+      pattern: words("public|débutants?|élèves|étudiants?|clients?|lecteurs?|الجمهور|للمبتدئين|المبتدئين|الطلاب|للطلاب|الخبراء|العملاء|القراء"),
+      points: 15,
+      note: "names the audience",
+    },
+  ],
+  goal: [
+    { pattern: /^\s*(tâche|objectif|but|المهمة|الهدف)\s*:/imu, points: 45, note: "has an explicit task" },
+    {
+      pattern: words("je veux|je voudrais|j'ai besoin|aide-moi|aidez-moi|afin que|pour que|أريد|أحتاج|ساعدني|بحيث"),
+      points: 25,
+      note: "states the desired outcome",
+    },
+    {
+      pattern: /^\s*(?:(?:tâche|objectif|المهمة|الهدف)\s*:\s*)?(écris|écrivez|explique|expliquez|rédige|rédigez|crée|créez|résume|résumez|génère|générez|liste|compare|analyse|conçois|traduis|traduisez|اكتب|اشرح|أنشئ|لخص|لخّص|اذكر|قارن|حلل|حلّل|صمم|راجع|ترجم)(?!\p{L})/imu,
+      points: 30,
+      note: "uses a clear action verb",
+    },
+  ],
+  format: [
+    { pattern: /^\s*(format de sortie|تنسيق المخرجات|التنسيق|البنية)\s*:/imu, points: 50, note: "has an Output format section" },
+    {
+      pattern: words("puces|liste numérotée|tableau|titres?|diapositives?|étapes|paragraphes?|نقاط|قائمة مرقمة|جدول|أقسام|عناوين|شرائح|خطوات|فقرات"),
+      points: 35,
+      note: "names a concrete structure",
+    },
+    { pattern: words("titre|résumé à la fin|عنوان|ملخص في النهاية"), points: 15, note: "asks for specific parts" },
+  ],
+  constraints: [
+    { pattern: /^\s*(contraintes?|règles|exigences|القيود|القواعد|المتطلبات)\s*:/imu, points: 30, note: "has a Constraints section" },
+    {
+      pattern: /(?<!\p{L})(moins de|au plus|pas plus de|maximum|exactement|en|أقل من|لا يزيد عن|لا تزيد عن|بحد أقصى|كحد أقصى|في)\s+[0-9٠-٩]+\s*(mots?|phrases?|caractères?|puces?|paragraphes?|lignes?|pages?|éléments?|كلمة|كلمات|جملة|جمل|حرف|أحرف|نقاط|فقرة|فقرات|سطر|أسطر|صفحة|صفحات)(?!\p{L})/iu,
+      points: 35,
+      note: "sets a length limit",
+    },
+    {
+      pattern: /^\s*(ton|voix|النبرة|الأسلوب)\s*:|(?<!\p{L})(formel|amical|décontracté|professionnel|concis|ludique|رسمي|ودود|بسيط|مهني|موجز|مختصر)(?!\p{L})/imu,
+      points: 25,
+      note: "specifies tone",
+    },
+    { pattern: words("évite|évitez|ne pas|jamais|uniquement|doit|dois|تجنب|أبدا|أبداً|فقط|يجب"), points: 15, note: "lists dos and don'ts" },
+  ],
+  examples: [
+    { pattern: /^\s*(exemples?|أمثلة|مثال)\s*:/imu, points: 40, note: "has an Examples section" },
+    { pattern: words("par exemple|comme ceci|tel que|telle que|على سبيل المثال|مثلا|مثلاً|مثل هذا"), points: 20, note: "gives an inline example" },
+    { pattern: /^\s*(entrée|sortie|المدخلات|المخرجات)\s*:/imu, points: 35, note: "includes an example block" },
+    { pattern: /«[^»\n]{12,}»/u, points: 15, note: "quotes sample text" },
+  ],
+};
+
+// English, French and Arabic cues of a general-rubric criterion, else the
+// criterion's own keywords.
+function cuesFor(criterion: RubricCriterion): Cue[] {
+  const english = cues[criterion.id];
+  return english ? [...english, ...(translatedCues[criterion.id] ?? [])] : keywordCues(criterion);
+}
+
+function keywordCues(criterion: RubricCriterion): Cue[] {
+  return (criterion.keywords ?? []).map((keyword) => ({
+    pattern: new RegExp(keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i"),
+    points: 25,
+    note: `mentions "${keyword.trim()}"`,
+  }));
+}
+
+function scoreCriterion(criterion: RubricCriterion, prompt: string): CriterionScore {
+  const matched = cuesFor(criterion)
+    .filter((cue) => cue.pattern.test(prompt))
+    .filter((cue, i, all) => all.findIndex((other) => other.note === cue.note) === i);
+  const score = Math.min(
+    100,
+    matched.reduce((sum, cue) => sum + cue.points, 0),
+  );
+  const level = levelForScore(score);
+
+  const feedback =
+    matched.length === 0
+      ? `Missing: ${criterion.hint}`
+      : `${level === "strong" ? "Strong" : "Partial"}: ${matched
+          .map((cue) => cue.note)
+          .join(", ")}.`;
+
+  return { id: criterion.id, label: criterion.label, score, level, feedback };
+}
+
+/**
+ * Points at the text each matched cue was found in. Spans of weak criteria are
+ * warnings: the cue is there, but not enough of it.
+ */
+function annotateCues(
+  prompt: string,
+  rubric: Rubric,
+  criteria: CriterionScore[],
+): Annotation[] {
+  const annotations: Annotation[] = [];
+  rubric.criteria.forEach((definition, i) => {
+    const criterion = criteria[i];
+    for (const cue of cuesFor(definition)) {
+      const match = prompt.match(cue.pattern);
+      if (!match || match.index === undefined) continue;
+      // Patterns anchored with ^\s* would otherwise start on the blank.
+      const quote = match[0].trimStart();
+      const start = match.index + match[0].length - quote.length;
+      annotations.push({
+        criterionId: definition.id,
+        start,
+        end: start + quote.length,
+        quote,
+        severity: criterion.level === "weak" ? "warning" : "info",
+        comment: `${cue.note[0].toUpperCase()}${cue.note.slice(1)}.${
+          criterion.level === "weak" ? ` ${definition.hint}` : ""
+        }`,
+      });
+    }
+  });
+  return annotations.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Keeps the user's own lines and appends a labelled placeholder for every
+ * criterion with no cues at all.
+ */
+function buildImprovedPrompt(
+  prompt: string,
+  rubric: Rubric,
+  criteria: CriterionScore[],
+): string {
+  const missing = rubric.criteria.filter(
+    (c) => criteria.find((s) => s.id === c.id)?.level === "missing",
+  );
+  const lines = [prompt.trim()];
+  if (!/^\s*(you are|act as)\b/im.test(prompt)) {
+    lines.unshift("You are an expert assistant.\n");
+  }
+  if (missing.length > 0) {
+    lines.push("", ...missing.map((c) => `${c.label}: [${c.description}]`));
+  }
+  return lines.join("\n");
+}
+
+// Politeness and hedging that add length but no information.
+const FILLER =
+  /\b(?:please|kindly|just|really|very|basically|actually|i was wondering if you could|could you|can you|i would like you to)\b\s*/gi;
+
+const ROLE = /^\s*(you are|act as)\b/im;
+
+/**
+ * The criterion an edit of the given kind addresses: the first of `preferred`
+ * the rubric has, else its weakest criterion.
+ */
+function criterionFor(rubric: Rubric, criteria: CriterionScore[], preferred: string[]): string {
+  const found = preferred.find((id) => rubric.criteria.some((c) => c.id === id));
+  if (found) return found;
+  return criteria.reduce((weakest, c) => (c.score < weakest.score ? c : weakest)).id;
+}
+
+/**
+ * Deterministic rewrites in each style. They only rearrange the user's text
+ * and add labelled placeholders; the model-backed providers write real ones.
+ */
+function buildRewrite(
+  style: RewriteStyle,
+  prompt: string,
+  rubric: Rubric,
+  criteria: CriterionScore[],
+): Rewrite {
+  const text = prompt.trim();
+  const weak = rubric.criteria.filter(
+    (c) => (criteria.find((s) => s.id === c.id)?.level ?? "missing") !== "strong",
+  );
+  const missing = weak.filter((c) => criteria.find((s) => s.id === c.id)?.level === "missing");
+  const placeholders = (list: typeof weak) => list.map((c) => `${c.label}: [${c.description}]`);
+  const added = (list: typeof weak, verb: string): RewriteChange[] =>
+    list.map((c) => ({ criterionId: c.id, change: `${verb} a "${c.label}:" line to fill in.` }));
+  const role = criterionFor(rubric, criteria, ["context", "environment"]);
+  const goal = criterionFor(rubric, criteria, ["goal", "task"]);
+
+  switch (style) {
+    case "minimal":
+      return {
+        style,
+        prompt: [text, ...(missing.length ? ["", ...placeholders(missing)] : [])].join("\n"),
+        changes: added(missing, "Appended"),
+      };
+    case "structured":
+      return {
+        style,
+        prompt: [
+          ...(ROLE.test(text) ? [] : ["Role: You are an expert assistant.", ""]),
+          `Task: ${text}`,
+          ...(weak.length ? ["", ...placeholders(weak)] : []),
+        ].join("\n"),
+        changes: [
+          ...(ROLE.test(text) ? [] : [{ criterionId: role, change: "Added a Role section." }]),
+          { criterionId: goal, change: "Put the request under a Task heading." },
+          ...added(weak, "Added"),
+        ],
+      };
+    case "concise": {
+      const trimmed = text.replace(FILLER, "").replace(/[ \t]{2,}/g, " ").trim();
+      const needs = missing.map((c) => c.label.toLowerCase());
+      return {
+        style,
+        prompt: needs.length ? `${trimmed}\nAlso specify: ${needs.join(", ")}.` : trimmed,
+        changes: [
+          ...(trimmed !== text ? [{ criterionId: goal, change: "Cut filler words." }] : []),
+          ...missing.map((c) => ({
+            criterionId: c.id,
+            change: `Asked for the missing ${c.label.toLowerCase()} in one line.`,
+          })),
+        ],
+      };
+    }
+    case "persona":
+      return {
+        style,
+        prompt: [
+          ...(ROLE.test(text)
+            ? []
+            : ["You are a seasoned specialist in the subject of this request.", ""]),
+          text,
+          ...(missing.length ? ["", ...placeholders(missing)] : []),
+          "",
+          "Stay in this role for the whole answer, as if briefing a colleague.",
+        ].join("\n"),
+        changes: [
+          ...(ROLE.test(text)
+            ? []
+            : [{ criterionId: role, change: "Opened with an expert persona." }]),
+          { criterionId: role, change: "Asked the answer to stay in that role." },
+          ...added(missing, "Added"),
+        ],
+      };
+    case "chain-of-thought":
+      return {
+        style,
+        prompt: [
+          text,
+          ...(missing.length ? ["", ...placeholders(missing)] : []),
+          "",
+          "Before answering, work through it step by step:",
+          "1. Restate the goal in one sentence.",
+          "2. List the facts and constraints given above.",
+          "3. Draft the answer and check it against each constraint.",
+          "Then give only the final answer.",
+        ].join("\n"),
+        changes: [
+          { criterionId: goal, change: "Added a step-by-step scaffold before the answer." },
+          ...added(missing, "Added"),
+        ],
+      };
+  }
+}
+
+/**
+ * Rule-based analyzer that scores prompts from textual cues. It needs no
+ * network access, and the same prompt always gets the same scores. It reads
+ * English, French and Arabic prompts but writes only English, so when a
+ * language is requested the analysis reports English as the language it
+ * was actually written in.
+ */
+export function analyzeHeuristically(
+  prompt: string,
+  rubric: Rubric,
+  { rewrite, language }: { rewrite?: RewriteSettings; language?: LanguageSettings } = {},
+): Analysis {
+  const criteria = rubric.criteria.map((c) => scoreCriterion(c, prompt));
+  const overallScore = weightedScore(rubric, criteria);
+  const rewrites = rewrite
+    ? [rewrite.style, ...rewrite.alternatives].map((style) =>
+        buildRewrite(style, prompt, rubric, criteria),
+      )
+    : undefined;
+
+  return {
+    overallScore,
+    overallLabel: labelForScore(overallScore),
+    criteria,
+    suggestions: rubric.criteria
+      .map((definition, i) => ({ definition, score: criteria[i] }))
+      .filter(({ score }) => score.level !== "strong")
+      .sort((a, b) => a.score.score - b.score.score)
+      .map(({ definition }) => `**${definition.label}:** ${definition.hint}`),
+    improvedPrompt: rewrites?.[0].prompt ?? buildImprovedPrompt(prompt, rubric, criteria),
+    annotations: annotateCues(prompt, rubric, criteria),
+    rubric,
+    ...(language && {
+      language: { feedback: "en", improvedPrompt: "en", detected: detectLanguage(prompt) },
+    }),
+    ...(rewrites && { rewrites }),
+  };
+}
+
+export function createHeuristicProvider(): AnalysisProvider {
+  return {
+    id: "heuristic",
+    label: "Offline heuristic",
+    model: "heuristic-v1",
+    analyze: async (prompt, rubric, options) =>
+      analyzeHeuristically(prompt, rubric, options),
+  };
+}
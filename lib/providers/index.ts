@@ -0,0 +1,132 @@
+import { log } from "@/lib/observability";
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from "./gemini";
+import { createHeuristicProvider } from "./heuristic";
+import type { AnalysisProvider, ProviderId } from "./types";
+
+export type { AnalysisProvider, AnalyzeOptions, ProviderId, ProviderOptions } from "./types";
+
+// A model prompts can be run against, e.g. in compare mode.
+export type TargetModel = {
+  provider: ProviderId;
+  model: string;
+  label: string;
+};
+
+export const PROVIDER_IDS: ProviderId[] = ["gemini", "heuristic"];
+
+export class ProviderUnavailableError extends Error {
+  constructor(readonly providerId: ProviderId, message: string) {
+    super(message);
+    this.name = "ProviderUnavailableError";
+  }
+}
+
+// Prefer the official GEMINI_API_KEY used in current Google AI docs, but still
+// accept GOOGLE_API_KEY as a fallback so existing setups keep working.
+const apiKey = process.env.GEMINI_API_KEY ?? process.env.GOOGLE_API_KEY;
+
+if (!apiKey) {
+  log("warn", "provider.missing_key", {
+    message:
+      "Missing GEMINI_API_KEY (or GOOGLE_API_KEY); the offline heuristic analyzer will be used by default.",
+  });
+}
+
+const providers = new Map<ProviderId, AnalysisProvider>();
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return PROVIDER_IDS.includes(value as ProviderId);
+}
+
+/**
+ * Picks the provider for a request: an explicit request field wins, then the
+ * ANALYZER_PROVIDER env var, then Gemini when a key is configured and the
+ * offline heuristic analyzer otherwise.
+ */
+export function resolveProviderId(requested?: ProviderId): ProviderId {
+  if (requested) return requested;
+  const fromEnv = process.env.ANALYZER_PROVIDER;
+  if (isProviderId(fromEnv)) return fromEnv;
+  return apiKey ? "gemini" : "heuristic";
+}
+
+/**
+ * Whether calls to this provider are paid model calls (and so count against
+ * the daily token budget).
+ */
+export function isModelBacked(provider: AnalysisProvider): boolean {
+  return typeof provider.generateText === "function";
+}
+
+export function getProvider(id: ProviderId): AnalysisProvider {
+  const cached = providers.get(id);
+  if (cached) return cached;
+
+  let provider: AnalysisProvider;
+  if (id === "gemini") {
+    if (!apiKey) {
+      throw new ProviderUnavailableError(
+        id,
+        "Missing GEMINI_API_KEY. Set it in your server environment (e.g. .env.local).",
+      );
+    }
+    provider = createGeminiProvider(apiKey, process.env.GEMINI_MODEL);
+  } else {
+    provider = createHeuristicProvider();
+  }
+
+  providers.set(id, provider);
+  return provider;
+}
+
+const targets = new Map<string, AnalysisProvider>();
+
+function targetProviders(): AnalysisProvider[] {
+  if (!apiKey) return [];
+  const configured = process.env.GEMINI_MODEL ?? DEFAULT_GEMINI_MODEL;
+  const extra = (process.env.COMPARE_MODELS ?? "")
+    .split(",")
+    .map((m) => m.trim())
+    .filter(Boolean);
+
+  return [...new Set([configured, ...extra])].map((model) => {
+    const key = `gemini:${model}`;
+    let provider = targets.get(key);
+    if (!provider) {
+      provider =
+        model === configured
+          ? getProvider("gemini")
+          : createGeminiProvider(apiKey, model);
+      targets.set(key, provider);
+    }
+    return provider;
+  });
+}
+
+/**
+ * Models that can run arbitrary prompts: the configured Gemini model plus any
+ * listed in COMPARE_MODELS (comma separated). Empty without an API key.
+ */
+export function listTargetModels(): TargetModel[] {
+  return targetProviders().map((p) => ({ provider: p.id, model: p.model, label: p.label }));
+}
+
+/**
+ * Resolves a target model to a provider that implements generateText. The
+ * model defaults to the provider's first listed one.
+ */
+export function getTargetProvider(target: {
+  provider: ProviderId;
+  model?: string;
+}): AnalysisProvider {
+  const match = targetProviders().find(
+    (p) => p.id === target.provider && (!target.model || p.model === target.model),
+  );
+  if (!match || !isModelBacked(match)) {
+    throw new ProviderUnavailableError(
+      target.provider,
+      `${target.model ?? target.provider} is not available as a target model.`,
+    );
+  }
+  return match;
+}
@@ -0,0 +1,42 @@
+import type { RewriteSettings } from "@/lib/analysis/rewrite";
+import type { Analysis } from "@/lib/analysis/types";
+import type { LanguageSettings } from "@/lib/i18n";
+import type { Rubric } from "@/lib/rubrics/types";
+
+export type ProviderId = "gemini" | "heuristic";
+
+// Generation settings for one of several samples of the same analysis.
+export type Sampling = {
+  temperature: number;
+  seed: number;
+};
+
+export type ProviderOptions = {
+  signal?: AbortSignal;
+  // Model defaults apply when omitted.
+  sampling?: Sampling;
+};
+
+export type AnalyzeOptions = ProviderOptions & {
+  // Languages to write the analysis in. Providers that can't report the
+  // languages they wrote in the analysis instead.
+  language?: LanguageSettings;
+  // Rewrite style and alternatives; without it a single improvedPrompt.
+  rewrite?: RewriteSettings;
+};
+
+export interface AnalysisProvider {
+  id: ProviderId;
+  // Human readable name shown in the UI, e.g. "Gemini 2.5 Flash".
+  label: string;
+  model: string;
+  analyze(
+    prompt: string,
+    rubric: Rubric,
+    options?: AnalyzeOptions,
+  ): Promise<Analysis>;
+  // Free-form completion; only model-backed providers implement it.
+  generateText?(request: string, options?: ProviderOptions): Promise<string>;
+  // Same as generateText, but yields the answer in chunks as it is produced.
+  streamText?(request: string, options?: ProviderOptions): AsyncIterable<string>;
+}
@@ -0,0 +1,76 @@
+import type { Report } from "./types";
+
+// Colours of the score ranges of labelForScore, best first.
+const SCORE_COLORS: [minimum: number, color: string][] = [
+  [85, "#4c1"],
+  [70, "#97ca00"],
+  [50, "#dfb317"],
+  [0, "#e05d44"],
+];
+
+const MISSING_COLOR = "#9f9f9f";
+
+export const DEFAULT_BADGE_LABEL = "prompt score";
+export const MAX_BADGE_LABEL = 40;
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+// Approximate advance widths of Verdana at 11px, the badge font.
+function textWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    if (" .,:;'|!()[]ijlft".includes(char)) width += 3.9;
+    else if ("mwMW@%".includes(char)) width += 10.5;
+    else if (/[A-Z]/.test(char)) width += 7.6;
+    else if (/[0-9]/.test(char)) width += 7;
+    else width += 6.4;
+  }
+  return Math.ceil(width);
+}
+
+/** A flat two-part badge in the style of shields.io. */
+export function renderBadge(label: string, message: string, color: string): string {
+  const left = textWidth(label) + 10;
+  const right = textWidth(message) + 10;
+  const width = left + right;
+  const title = escapeXml(`${label}: ${message}`);
+  const text = (x: number, value: string) =>
+    `<text x="${x}" y="15" fill="#010101" fill-opacity=".3">${escapeXml(value)}</text>` +
+    `<text x="${x}" y="14">${escapeXml(value)}</text>`;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="20" role="img" aria-label="${title}">`,
+    `<title>${title}</title>`,
+    `<linearGradient id="s" x2="0" y2="100%"><stop offset="0" stop-color="#bbb" stop-opacity=".1"/><stop offset="1" stop-opacity=".1"/></linearGradient>`,
+    `<clipPath id="r"><rect width="${width}" height="20" rx="3" fill="#fff"/></clipPath>`,
+    `<g clip-path="url(#r)"><rect width="${left}" height="20" fill="#555"/><rect x="${left}" width="${right}" height="20" fill="${color}"/><rect width="${width}" height="20" fill="url(#s)"/></g>`,
+    `<g fill="#fff" text-anchor="middle" font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="11">`,
+    text(left / 2, label),
+    text(left + right / 2, message),
+    `</g></svg>`,
+  ].join("");
+}
+
+/**
+ * The badge of a stored report: its overall score and its weakest criterion,
+ * coloured by score. Unverified reports are grey and say so; without a report
+ * it reads "not found".
+ */
+export function reportBadge(report: Report | null, label = DEFAULT_BADGE_LABEL): string {
+  if (!report) return renderBadge(label, "not found", MISSING_COLOR);
+
+  const { overallScore, criteria } = report.analysis;
+  const weakest = criteria.reduce<(typeof criteria)[number] | undefined>(
+    (lowest, c) => (!lowest || c.score < lowest.score ? c : lowest),
+    undefined,
+  );
+  const score = weakest
+    ? `${overallScore}/100 · weakest: ${weakest.label}`
+    : `${overallScore}/100`;
+  // Uploaded scores could be made up, so they never get a score colour.
+  if (!report.verified) return renderBadge(label, `${score} · unverified`, MISSING_COLOR);
+  const color = SCORE_COLORS.find(([minimum]) => overallScore >= minimum)?.[1] ?? MISSING_COLOR;
+  return renderBadge(label, score, color);
+}
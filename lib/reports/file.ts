@@ -0,0 +1,46 @@
+import { dataPath, readJsonFile, writeJsonFile } from "@/lib/storage/json-file";
+import type { Report, ReportStore } from "./types";
+
+// Per visitor, so nobody can push other people's share links out of the file.
+const MAX_REPORTS_PER_OWNER = 100;
+
+// Each report is tagged with the visitor who shared it; older reports have
+// no owner and are never dropped.
+type StoredReport = Report & { owner?: string };
+
+/**
+ * Shared reports kept in a JSON file (REPORTS_FILE, default
+ * .data/reports.json). A visitor's oldest reports are dropped past
+ * MAX_REPORTS_PER_OWNER.
+ */
+export function createFileReportStore(
+  file = process.env.REPORTS_FILE ?? dataPath("reports.json"),
+): ReportStore {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  function serialize<T>(task: () => Promise<T>): Promise<T> {
+    const next = queue.then(task, task);
+    queue = next.catch(() => undefined);
+    return next;
+  }
+
+  return {
+    get: async (id) => {
+      const found = (await readJsonFile<StoredReport[]>(file, [])).find((r) => r.id === id);
+      if (!found) return null;
+      const { createdAt, prompt, analysis, verified } = found;
+      return { id, createdAt, prompt, analysis, ...(verified !== undefined && { verified }) };
+    },
+    save: (report, owner) =>
+      serialize(async () => {
+        const reports = await readJsonFile<StoredReport[]>(file, []);
+        const own = reports.filter((r) => r.owner === owner);
+        const excess = Math.max(0, own.length + 1 - MAX_REPORTS_PER_OWNER);
+        const dropped = new Set(own.slice(0, excess));
+        await writeJsonFile(file, [
+          ...reports.filter((r) => !dropped.has(r)),
+          { ...report, owner },
+        ]);
+      }),
+  };
+}
@@ -0,0 +1,60 @@
+import type { Report } from "./types";
+
+// A code fence longer than any run of backticks in the text.
+function fenced(text: string): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(Math.max(3, longest + 1));
+  return `${fence}\n${text}\n${fence}`;
+}
+
+function cell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+}
+
+/**
+ * The report as Markdown: prompt, overall and per-criterion scores with
+ * feedback, suggestions and the improved prompt with its changelog.
+ */
+export function reportMarkdown({ createdAt, prompt, analysis, verified }: Report): string {
+  const lines = [
+    "# Prompt analysis report",
+    "",
+    `Rubric: ${analysis.rubric.name}  `,
+    `Created: ${new Date(createdAt).toUTCString()}  `,
+    verified
+      ? "Verified: graded by the analyzer"
+      : "Unverified: uploaded with the report, not checked against the analyzer's grading",
+    "",
+    `## Overall score: ${analysis.overallScore}/100 (${analysis.overallLabel})`,
+    "",
+    "## Prompt",
+    "",
+    fenced(prompt),
+    "",
+    "## Criteria",
+    "",
+    "| Criterion | Score | Level | Feedback |",
+    "| --- | --- | --- | --- |",
+    ...analysis.criteria.map(
+      (c) => `| ${cell(c.label)} | ${c.score}/100 | ${c.level} | ${cell(c.feedback)} |`,
+    ),
+  ];
+  if (analysis.suggestions.length) {
+    lines.push("", "## Suggestions", "", ...analysis.suggestions.map((s) => `- ${s}`));
+  }
+  if (analysis.improvedPrompt.trim()) {
+    lines.push("", "## Improved prompt", "", fenced(analysis.improvedPrompt));
+    const changes = analysis.rewrites?.[0]?.changes ?? [];
+    const label = (id: string) => analysis.criteria.find((c) => c.id === id)?.label ?? id;
+    if (changes.length) {
+      lines.push("", ...changes.map((c) => `- **${label(c.criterionId)}:** ${c.change}`));
+    }
+  }
+  if (analysis.scan?.redacted) {
+    lines.push(
+      "",
+      `_${analysis.scan.findings.length} sensitive span(s) were redacted before grading._`,
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
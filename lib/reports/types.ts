@@ -0,0 +1,20 @@
+import type { Analysis } from "@/lib/analysis/types";
+
+// A graded prompt frozen for sharing: what the student saw when they
+// exported it.
+export type Report = {
+  id: string;
+  createdAt: string;
+  prompt: string;
+  analysis: Analysis;
+  // Whether the analysis carried this server's signature for the prompt.
+  // Unverified reports were uploaded as-is and may show invented scores;
+  // reports stored before signing existed have no flag.
+  verified?: boolean;
+};
+
+export interface ReportStore {
+  get(id: string): Promise<Report | null>;
+  // `owner` is the visitor sharing the report.
+  save(report: Report, owner: string): Promise<void>;
+}
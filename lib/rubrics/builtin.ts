@@ -0,0 +1,216 @@
+import type { Rubric } from "./types";
+
+export const generalRubric: Rubric = {
+  id: "general",
+  name: "General prompts",
+  description: "The five-part checklist from Prompt Engineering 101.",
+  criteria: [
+    {
+      id: "context",
+      label: "Context",
+      description: "Background info that gives the AI situational awareness.",
+      hint: "Add who you are, who the audience is, and where this will be used.",
+      weight: 1,
+      guidance: "Strong prompts set a role and explain who is asking, who the audience is and where the output will be used.",
+    },
+    {
+      id: "goal",
+      label: "Goal",
+      description: "Clear outcome or objective for the AI.",
+      hint: "Finish the sentence: \"By the end, I want the AI to help me...\"",
+      weight: 1,
+      guidance: "Strong prompts state one concrete deliverable with an action verb; weak ones leave the outcome implicit.",
+    },
+    {
+      id: "format",
+      label: "Format",
+      description:
+        "Preferred structure of the answer (list, table, essay, slides…).",
+      hint: "Specify bullets, sections, or tables you want.",
+      weight: 1,
+      guidance: "Strong prompts name the structure of the output (bullets, table, sections, JSON) and its parts.",
+    },
+    {
+      id: "constraints",
+      label: "Constraints",
+      description: "Limits like length, tone, level, or style.",
+      hint: "Mention tone (simple, friendly, formal), level, or word limit.",
+      weight: 1,
+      guidance: "Strong prompts give measurable limits such as length, tone, reading level and things to avoid.",
+    },
+    {
+      id: "examples",
+      label: "Examples",
+      description: "Reference examples that show what good looks like.",
+      hint: "Paste 1–2 short examples of the style or structure you like.",
+      weight: 1,
+      guidance: "Strong prompts include at least one concrete sample of the desired style or structure.",
+    },
+  ],
+};
+
+export const codingRubric: Rubric = {
+  id: "coding",
+  name: "Coding prompts",
+  description: "For asking an AI to write, fix or review code.",
+  criteria: [
+    {
+      id: "environment",
+      label: "Environment",
+      description: "Language, framework, versions and runtime.",
+      hint: "Say which language, framework and versions you use.",
+      weight: 1.5,
+      guidance: "Strong prompts pin the language, framework, library versions and runtime the code must work in.",
+      keywords: ["typescript", "python", "javascript", "java", "react", "node", "version", "framework", "runtime"],
+    },
+    {
+      id: "task",
+      label: "Task",
+      description: "The exact change or feature to build.",
+      hint: "Describe the behavior you want, not just the topic.",
+      weight: 2,
+      guidance: "Strong prompts describe the expected behavior, inputs and outputs of the code precisely.",
+      keywords: ["task:", "implement", "write a function", "fix", "refactor", "add", "should return"],
+    },
+    {
+      id: "code-context",
+      label: "Existing code",
+      description: "Relevant snippets, error messages or file layout.",
+      hint: "Paste the relevant code and the full error message.",
+      weight: 1.5,
+      guidance: "Strong prompts include the relevant existing code, stack traces or file structure.",
+      keywords: ["```", "error", "stack trace", "traceback", "here is my code", "file"],
+    },
+    {
+      id: "acceptance",
+      label: "Acceptance criteria",
+      description: "Tests, edge cases and quality bar.",
+      hint: "List edge cases and how you will check the result.",
+      weight: 1,
+      guidance: "Strong prompts list edge cases, tests or conditions the solution must satisfy.",
+      keywords: ["test", "edge case", "must", "should handle", "acceptance", "performance"],
+    },
+    {
+      id: "output",
+      label: "Output shape",
+      description: "What to return: full file, diff, explanation.",
+      hint: "Say whether you want a diff, a full file, or an explanation too.",
+      weight: 1,
+      guidance: "Strong prompts say whether to return a diff, full files, comments or an explanation.",
+      keywords: ["diff", "full file", "only the code", "explain", "comments", "output:"],
+    },
+  ],
+};
+
+export const imageRubric: Rubric = {
+  id: "image",
+  name: "Image-generation prompts",
+  description: "For text-to-image models.",
+  criteria: [
+    {
+      id: "subject",
+      label: "Subject",
+      description: "The main subject and what it is doing.",
+      hint: "Describe who or what is in the image and the action.",
+      weight: 2,
+      guidance: "Strong prompts name a specific subject with distinguishing details and an action or pose.",
+      keywords: ["a ", "an ", "portrait", "of a", "standing", "sitting", "holding"],
+    },
+    {
+      id: "style",
+      label: "Style",
+      description: "Medium, art style or reference artists.",
+      hint: "Add a medium (photo, watercolor, 3D render) and a style.",
+      weight: 1.5,
+      guidance: "Strong prompts specify medium and visual style, e.g. photograph, watercolor, isometric 3D render.",
+      keywords: ["photo", "watercolor", "illustration", "3d", "render", "oil painting", "style", "anime", "cinematic"],
+    },
+    {
+      id: "composition",
+      label: "Composition",
+      description: "Framing, camera angle and layout.",
+      hint: "Mention the shot (close-up, wide), angle and aspect ratio.",
+      weight: 1,
+      guidance: "Strong prompts set framing, camera angle, lens and aspect ratio.",
+      keywords: ["close-up", "wide shot", "angle", "aspect ratio", "16:9", "lens", "framing", "background"],
+    },
+    {
+      id: "lighting",
+      label: "Lighting & mood",
+      description: "Light, color palette and atmosphere.",
+      hint: "Describe the lighting (golden hour, neon) and the mood.",
+      weight: 1,
+      guidance: "Strong prompts describe lighting, color palette and atmosphere.",
+      keywords: ["lighting", "light", "golden hour", "neon", "mood", "palette", "dark", "bright"],
+    },
+    {
+      id: "negative",
+      label: "Exclusions",
+      description: "What must not appear in the image.",
+      hint: "List things to avoid, e.g. text, watermarks, extra fingers.",
+      weight: 0.5,
+      guidance: "Strong prompts list unwanted elements or artifacts to avoid.",
+      keywords: ["no ", "without", "avoid", "negative prompt", "exclude"],
+    },
+  ],
+};
+
+export const agentRubric: Rubric = {
+  id: "agent",
+  name: "Agent system prompts",
+  description: "For system prompts that configure assistants and agents.",
+  criteria: [
+    {
+      id: "role",
+      label: "Role",
+      description: "Who the agent is and whom it serves.",
+      hint: "Start with \"You are…\" and name the users the agent serves.",
+      weight: 1,
+      guidance: "Strong prompts define the agent's identity, expertise and users.",
+      keywords: ["you are", "your role", "users", "assistant for"],
+    },
+    {
+      id: "scope",
+      label: "Scope",
+      description: "What the agent should and should not handle.",
+      hint: "List the tasks in scope and what to refuse or hand off.",
+      weight: 1.5,
+      guidance: "Strong prompts list in-scope tasks and explicit out-of-scope behavior or escalation paths.",
+      keywords: ["only", "do not", "out of scope", "refuse", "escalate", "hand off"],
+    },
+    {
+      id: "tools",
+      label: "Tools",
+      description: "Which tools exist and when to use them.",
+      hint: "Describe each tool and when the agent should call it.",
+      weight: 1.5,
+      guidance: "Strong prompts describe each available tool and the conditions for using it.",
+      keywords: ["tool", "function", "call", "search", "api", "when you need"],
+    },
+    {
+      id: "safety",
+      label: "Safety & policies",
+      description: "Rules about privacy, accuracy and tone.",
+      hint: "State privacy rules and what to do when unsure.",
+      weight: 1,
+      guidance: "Strong prompts state privacy, accuracy and uncertainty rules, e.g. ask before guessing.",
+      keywords: ["privacy", "never", "confidential", "if unsure", "ask", "policy", "safe"],
+    },
+    {
+      id: "response-style",
+      label: "Response style",
+      description: "Tone, length and formatting of replies.",
+      hint: "Say how long replies should be and how to format them.",
+      weight: 1,
+      guidance: "Strong prompts set reply tone, length and formatting conventions.",
+      keywords: ["tone", "concise", "friendly", "markdown", "bullet", "short", "format"],
+    },
+  ],
+};
+
+export const builtinRubrics: Rubric[] = [
+  generalRubric,
+  codingRubric,
+  imageRubric,
+  agentRubric,
+];
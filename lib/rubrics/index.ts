@@ -0,0 +1,31 @@
+import { builtinRubrics, generalRubric } from "./builtin";
+import type { Rubric } from "./types";
+
+export type { Rubric, RubricCriterion } from "./types";
+
+export const DEFAULT_RUBRIC_ID = generalRubric.id;
+
+export const rubrics: Rubric[] = builtinRubrics;
+
+export function getRubric(id: string): Rubric | undefined {
+  return rubrics.find((r) => r.id === id);
+}
+
+/**
+ * Weighted mean of the criterion scores, using the weights declared by the
+ * rubric. Criteria the rubric does not know about are ignored.
+ */
+export function weightedScore(
+  rubric: Rubric,
+  scores: { id: string; score: number }[],
+): number {
+  let total = 0;
+  let weights = 0;
+  for (const criterion of rubric.criteria) {
+    const found = scores.find((s) => s.id === criterion.id);
+    if (!found) continue;
+    total += found.score * criterion.weight;
+    weights += criterion.weight;
+  }
+  return weights > 0 ? Math.round(total / weights) : 0;
+}
@@ -0,0 +1,20 @@
+export type RubricCriterion = {
+  id: string;
+  label: string;
+  description: string;
+  // Shown to learners before the first run and used in offline suggestions.
+  hint: string;
+  // Relative weight in the overall score; weights need not sum to 1.
+  weight: number;
+  // Tells the grading model what distinguishes weak from strong.
+  guidance: string;
+  // Lower-case cues the offline heuristic analyzer looks for.
+  keywords?: string[];
+};
+
+export type Rubric = {
+  id: string;
+  name: string;
+  description: string;
+  criteria: RubricCriterion[];
+};
@@ -0,0 +1,225 @@
+import { ApiError, errorResponse } from "@/lib/api/errors";
+
+export type ScanMode = "redact" | "warn" | "block";
+
+export const SCAN_MODES: ScanMode[] = ["redact", "warn", "block"];
+
+export type FindingKind = "secret" | "pii" | "injection";
+
+export type Finding = {
+  kind: FindingKind;
+  // e.g. "api-key", "email", "instruction-override"
+  type: string;
+  // Character range in the original prompt, end exclusive.
+  start: number;
+  end: number;
+  message: string;
+};
+
+export type ScanReport = {
+  mode: ScanMode;
+  findings: Finding[];
+  // True when findings were replaced before the prompt was sent to a model.
+  redacted: boolean;
+};
+
+type Detector = {
+  kind: FindingKind;
+  type: string;
+  pattern: RegExp;
+  message: string;
+  // Extra check on the matched text, e.g. a Luhn checksum.
+  accept?: (match: string) => boolean;
+};
+
+function luhn(digits: string): boolean {
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let d = Number(digits[i]);
+    if (double) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+    double = !double;
+  }
+  return sum % 10 === 0;
+}
+
+function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const ch of text) counts.set(ch, (counts.get(ch) ?? 0) + 1);
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+const detectors: Detector[] = [
+  {
+    kind: "secret",
+    type: "private-key",
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(-----END [A-Z ]*PRIVATE KEY-----|$)/g,
+    message: "Private key block",
+  },
+  {
+    kind: "secret",
+    type: "api-key",
+    pattern:
+      /\b(AKIA[0-9A-Z]{16}|AIza[0-9A-Za-z_-]{35}|sk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}|gh[pousr]_[A-Za-z0-9]{36,}|xox[abprs]-[A-Za-z0-9-]{10,}|sk_live_[A-Za-z0-9]{20,})\b/g,
+    message: "Looks like an API key",
+  },
+  {
+    kind: "secret",
+    type: "jwt",
+    pattern: /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\b/g,
+    message: "Looks like a JSON Web Token",
+  },
+  {
+    kind: "secret",
+    type: "high-entropy",
+    pattern: /[A-Za-z0-9+/_=-]{24,}/g,
+    message: "High-entropy string that may be a secret",
+    accept: (match) =>
+      /[A-Za-z]/.test(match) && /\d/.test(match) && shannonEntropy(match) > 4,
+  },
+  {
+    kind: "pii",
+    type: "email",
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+    message: "Email address",
+  },
+  {
+    kind: "pii",
+    type: "card-number",
+    pattern: /\b(?:\d[ -]?){12,18}\d\b/g,
+    message: "Possible payment card number",
+    accept: (match) => luhn(match.replace(/\D/g, "")),
+  },
+  {
+    kind: "pii",
+    type: "phone",
+    pattern: /(?<![\w.])\+?\(?\d{1,4}\)?(?:[ .-]?\(?\d{2,4}\)?){2,4}(?!\w|\.\d)/g,
+    message: "Phone number",
+    accept: (match) => {
+      const digits = match.replace(/\D/g, "").length;
+      return digits >= 9 && digits <= 15 && /[ .()+-]/.test(match);
+    },
+  },
+  {
+    kind: "injection",
+    type: "instruction-override",
+    pattern:
+      /\b(ignore|disregard|forget|override)\s+(all\s+|any\s+|the\s+)?(previous|prior|above|earlier|your|system)\s+(instructions?|prompts?|rules|directions)\b/gi,
+    message: "Tries to override the grader's instructions",
+  },
+  {
+    kind: "injection",
+    type: "score-manipulation",
+    pattern:
+      /\b(give|assign|output|return|rate|score)\s+(this|me|it|the prompt)?\s*(a\s+)?(perfect\s+score|score\s+of\s+100|100\s*(\/\s*100|%|points)|full\s+marks)/gi,
+    message: "Asks the grader for a specific score",
+  },
+  {
+    kind: "injection",
+    type: "role-hijack",
+    pattern:
+      /\b(you are no longer|from now on,? you (are|will)|new (system )?instructions?:|<\/?(system|instructions?|user_prompt)>|reveal (your|the) (system )?prompt)/gi,
+    message: "Tries to change the grader's role or reveal its instructions",
+  },
+];
+
+/**
+ * Finds secrets, personal data and prompt-injection phrases in a prompt.
+ * Overlapping findings are collapsed, keeping the earliest-listed detector
+ * (so a key is reported as "api-key" rather than "high-entropy").
+ */
+export function scanPrompt(prompt: string): Finding[] {
+  const findings: Finding[] = [];
+
+  for (const detector of detectors) {
+    for (const match of prompt.matchAll(detector.pattern)) {
+      const text = match[0];
+      if (detector.accept && !detector.accept(text)) continue;
+      const start = match.index ?? 0;
+      const end = start + text.length;
+      if (findings.some((f) => start < f.end && end > f.start)) continue;
+      findings.push({
+        kind: detector.kind,
+        type: detector.type,
+        start,
+        end,
+        message: detector.message,
+      });
+    }
+  }
+
+  return findings.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Replaces each finding with a placeholder such as [REDACTED_EMAIL].
+ */
+export function redactPrompt(prompt: string, findings: Finding[]): string {
+  let result = "";
+  let cursor = 0;
+  for (const f of [...findings].sort((a, b) => a.start - b.start)) {
+    const label =
+      f.kind === "injection"
+        ? "REMOVED_INSTRUCTION"
+        : `REDACTED_${f.type.toUpperCase().replace(/-/g, "_")}`;
+    result += `${prompt.slice(cursor, f.start)}[${label}]`;
+    cursor = f.end;
+  }
+  return result + prompt.slice(cursor);
+}
+
+export function isScanMode(value: unknown): value is ScanMode {
+  return SCAN_MODES.includes(value as ScanMode);
+}
+
+/**
+ * Scan mode used when a request does not choose one: SCANNER_MODE, or
+ * "redact" so secrets never reach a model by default.
+ */
+export function defaultScanMode(): ScanMode {
+  const fromEnv = process.env.SCANNER_MODE;
+  return isScanMode(fromEnv) ? fromEnv : "redact";
+}
+
+/**
+ * Applies a scan mode to a prompt: returns the text that may be sent to a
+ * model, or blocked = true when the prompt must not leave the server.
+ */
+export function preparePrompt(
+  prompt: string,
+  mode: ScanMode,
+): { prompt: string; report: ScanReport; blocked: boolean } {
+  const findings = scanPrompt(prompt);
+  const redact = mode === "redact" && findings.length > 0;
+  return {
+    prompt: redact ? redactPrompt(prompt, findings) : prompt,
+    report: { mode, findings, redacted: redact },
+    blocked: mode === "block" && findings.length > 0,
+  };
+}
+
+/**
+ * 422 error for a prompt rejected in "block" mode. The findings point at the
+ * offending spans so the client can highlight them.
+ */
+export function promptBlockedError(report: ScanReport): ApiError {
+  return new ApiError(
+    422,
+    "prompt_blocked",
+    `Prompt contains ${report.findings.length} sensitive or unsafe span(s) and was not sent.`,
+    { findings: report.findings },
+  );
+}
+
+export function promptBlocked(report: ScanReport): Response {
+  return errorResponse(promptBlockedError(report), "legacy");
+}
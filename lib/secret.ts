@@ -0,0 +1,29 @@
+import { randomBytes } from "node:crypto";
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { dataPath } from "@/lib/storage/json-file";
+
+const globalSecret = globalThis as typeof globalThis & { __appSecret?: string };
+
+/**
+ * The key this server signs cookies and analyses with: APP_SECRET, or a
+ * secret generated once and kept in the data directory so signatures survive
+ * restarts. The proxy and the route handlers are separate bundles and share
+ * it through globalThis. Instances behind one load balancer need APP_SECRET.
+ */
+export function appSecret(): string {
+  if (process.env.APP_SECRET) return process.env.APP_SECRET;
+  if (globalSecret.__appSecret) return globalSecret.__appSecret;
+
+  const file = dataPath("app-secret");
+  let value: string;
+  try {
+    value = readFileSync(file, "utf8").trim();
+  } catch {
+    value = randomBytes(32).toString("base64url");
+    mkdirSync(path.dirname(file), { recursive: true });
+    writeFileSync(file, value, { mode: 0o600 });
+  }
+  globalSecret.__appSecret = value;
+  return value;
+}
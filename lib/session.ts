@@ -0,0 +1,14 @@
+const SESSION_KEY = "prompt-analyzer:session";
+
+/**
+ * Per-tab session id sent as X-Session-Id so the server can rate limit a
+ * browser session separately from its network.
+ */
+export function getSessionId(): string {
+  let id = sessionStorage.getItem(SESSION_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    sessionStorage.setItem(SESSION_KEY, id);
+  }
+  return id;
+}
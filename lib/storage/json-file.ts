@@ -0,0 +1,29 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * Resolves a file inside the local data directory (DATA_DIR, default ".data").
+ */
+export function dataPath(name: string): string {
+  return path.resolve(process.env.DATA_DIR ?? ".data", name);
+}
+
+export async function readJsonFile<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw error;
+  }
+}
+
+/**
+ * Writes through a temporary file and renames it, so a crash mid-write never
+ * leaves a truncated JSON file behind.
+ */
+export async function writeJsonFile(file: string, data: unknown): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(data, null, 2));
+  await rename(tmp, file);
+}
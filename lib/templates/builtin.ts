@@ -0,0 +1,53 @@
+import type { TemplateLibrary } from "./types";
+
+// Seeds a new library with the skeleton of the sample prompt and two common
+// blocks.
+export const builtinLibrary: TemplateLibrary = {
+  version: 1,
+  snippets: [
+    {
+      id: "tone-friendly",
+      name: "Tone: simple and friendly",
+      body: "Tone/style: Simple, friendly, and practical.",
+    },
+    {
+      id: "format-bullets",
+      name: "Format: bullet-point lesson",
+      body: "Output format: Bullet-point mini lesson with short explanations.",
+    },
+  ],
+  templates: [
+    {
+      id: "ai-tutor",
+      name: "AI tutor lesson",
+      description: "A short lesson on any topic for a given audience.",
+      body:
+        "You are an AI tutor.\n\n" +
+        "Task: Teach me the basics of {{topic}}.\n" +
+        "Context: I am {{audience}}.\n" +
+        "{{> format-bullets}}\n" +
+        "{{> tone-friendly}}\n" +
+        "Constraints: Keep it under {{wordLimit}} words.\n" +
+        "Examples: Show {{exampleCount}} weak and improved example(s).",
+      variables: [
+        { name: "topic", label: "Topic", type: "text", default: "prompt engineering" },
+        {
+          name: "audience",
+          label: "Who you are",
+          type: "multiline",
+          default:
+            "a beginner who has used ChatGPT a few times but never designed prompts deliberately",
+        },
+        { name: "wordLimit", label: "Word limit", type: "number", default: "300" },
+        {
+          name: "exampleCount",
+          label: "Examples",
+          type: "select",
+          options: ["1", "2", "3"],
+          default: "1",
+        },
+      ],
+      updatedAt: "2024-01-01T00:00:00.000Z",
+    },
+  ],
+};
@@ -0,0 +1,61 @@
+import { dataPath, readJsonFile, writeJsonFile } from "@/lib/storage/json-file";
+import { builtinLibrary } from "./builtin";
+import type { TemplateLibrary, TemplateStore } from "./types";
+
+function upsert<T extends { id: string }>(items: T[], item: T): T[] {
+  const index = items.findIndex((i) => i.id === item.id);
+  return index < 0 ? [...items, item] : items.map((i, n) => (n === index ? item : i));
+}
+
+/**
+ * Template library kept in a JSON file (TEMPLATES_FILE, default
+ * .data/templates.json), seeded with the built-in templates. Writes are
+ * serialized like the history store's.
+ */
+export function createFileTemplateStore(
+  file = process.env.TEMPLATES_FILE ?? dataPath("templates.json"),
+): TemplateStore {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  function serialize<T>(task: () => Promise<T>): Promise<T> {
+    const next = queue.then(task, task);
+    queue = next.catch(() => undefined);
+    return next;
+  }
+
+  const load = () => readJsonFile<TemplateLibrary>(file, builtinLibrary);
+
+  function update(change: (library: TemplateLibrary) => TemplateLibrary) {
+    return serialize(async () => {
+      const next = change(await load());
+      await writeJsonFile(file, next);
+      return next;
+    });
+  }
+
+  return {
+    load,
+    saveTemplate: async (template) => {
+      await update((l) => ({ ...l, templates: upsert(l.templates, template) }));
+    },
+    deleteTemplate: async (id) => {
+      await update((l) => ({ ...l, templates: l.templates.filter((t) => t.id !== id) }));
+    },
+    saveSnippet: async (snippet) => {
+      await update((l) => ({ ...l, snippets: upsert(l.snippets, snippet) }));
+    },
+    deleteSnippet: async (id) => {
+      await update((l) => ({ ...l, snippets: l.snippets.filter((s) => s.id !== id) }));
+    },
+    import: (library, mode) =>
+      update((current) =>
+        mode === "replace"
+          ? library
+          : {
+              version: 1,
+              templates: library.templates.reduce(upsert, current.templates),
+              snippets: library.snippets.reduce(upsert, current.snippets),
+            },
+      ),
+  };
+}
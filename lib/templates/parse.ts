@@ -0,0 +1,146 @@
+import type {
+  PromptTemplate,
+  Snippet,
+  TemplateLibrary,
+  TemplateVariable,
+  VariableType,
+} from "./types";
+
+export class TemplateInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateInputError";
+  }
+}
+
+const ID = /^[A-Za-z_][\w-]*$/;
+const VARIABLE_TYPES: VariableType[] = ["text", "multiline", "number", "select"];
+const MAX_BODY_CHARS = 20_000;
+
+function record(raw: unknown, what: string): Record<string, unknown> {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new TemplateInputError(`${what} must be an object.`);
+  }
+  return raw as Record<string, unknown>;
+}
+
+function text(
+  raw: Record<string, unknown>,
+  key: string,
+  what: string,
+  required = true,
+): string {
+  const value = raw[key];
+  if (value === undefined && !required) return "";
+  if (typeof value !== "string" || (required && !value.trim())) {
+    throw new TemplateInputError(`${what}: '${key}' must be a non-empty string.`);
+  }
+  if (value.length > MAX_BODY_CHARS) {
+    throw new TemplateInputError(
+      `${what}: '${key}' is longer than ${MAX_BODY_CHARS} characters.`,
+    );
+  }
+  return value;
+}
+
+function slug(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "template"
+  );
+}
+
+function parseVariable(raw: unknown, what: string): TemplateVariable {
+  const item = record(raw, what);
+  const name = text(item, "name", what);
+  if (!ID.test(name)) {
+    throw new TemplateInputError(
+      `${what}: variable name "${name}" may only use letters, digits, _ and -.`,
+    );
+  }
+  const type = item.type ?? "text";
+  if (!VARIABLE_TYPES.includes(type as VariableType)) {
+    throw new TemplateInputError(`${what}: type must be one of ${VARIABLE_TYPES.join(", ")}.`);
+  }
+  const options = Array.isArray(item.options)
+    ? item.options.filter((o): o is string => typeof o === "string" && o.trim() !== "")
+    : undefined;
+  if (type === "select" && !options?.length) {
+    throw new TemplateInputError(`${what}: select variables need 'options'.`);
+  }
+  const fallback = item.default === undefined ? undefined : String(item.default);
+  if (type === "number" && fallback !== undefined && !Number.isFinite(Number(fallback))) {
+    throw new TemplateInputError(`${what}: default of a number variable must be a number.`);
+  }
+
+  return {
+    name,
+    label: typeof item.label === "string" && item.label.trim() ? item.label.trim() : name,
+    type: type as VariableType,
+    ...(fallback !== undefined && { default: fallback }),
+    ...(options && { options }),
+    ...(typeof item.description === "string" && { description: item.description }),
+  };
+}
+
+/**
+ * Checks a template from a request or an imported file. A missing id is
+ * derived from the name.
+ */
+export function parseTemplate(raw: unknown): PromptTemplate {
+  const item = record(raw, "Template");
+  const name = text(item, "name", "Template").trim();
+  const what = `Template "${name}"`;
+  const id = typeof item.id === "string" && item.id ? item.id : slug(name);
+  if (!ID.test(id)) {
+    throw new TemplateInputError(`${what}: id may only use letters, digits, _ and -.`);
+  }
+
+  const rawVariables = item.variables ?? [];
+  if (!Array.isArray(rawVariables)) {
+    throw new TemplateInputError(`${what}: 'variables' must be an array.`);
+  }
+  const variables = rawVariables.map((v, i) => parseVariable(v, `${what}, variable ${i + 1}`));
+  const duplicate = variables.find((v, i) => variables.findIndex((w) => w.name === v.name) !== i);
+  if (duplicate) {
+    throw new TemplateInputError(`${what}: variable "${duplicate.name}" is declared twice.`);
+  }
+
+  return {
+    id,
+    name,
+    description: text(item, "description", what, false),
+    body: text(item, "body", what),
+    variables,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+export function parseSnippet(raw: unknown): Snippet {
+  const item = record(raw, "Snippet");
+  const name = text(item, "name", "Snippet").trim();
+  const id = typeof item.id === "string" && item.id ? item.id : slug(name);
+  if (!ID.test(id)) {
+    throw new TemplateInputError(`Snippet "${name}": id may only use letters, digits, _ and -.`);
+  }
+  return { id, name, body: text(item, "body", `Snippet "${name}"`) };
+}
+
+/**
+ * Checks an imported library file ({ version: 1, templates, snippets }).
+ */
+export function parseLibrary(raw: unknown): TemplateLibrary {
+  const item = record(raw, "Library");
+  if (item.version !== 1) {
+    throw new TemplateInputError("Unsupported library version; expected 1.");
+  }
+  const templates = Array.isArray(item.templates) ? item.templates : [];
+  const snippets = Array.isArray(item.snippets) ? item.snippets : [];
+  return {
+    version: 1,
+    templates: templates.map(parseTemplate),
+    snippets: snippets.map(parseSnippet),
+  };
+}
@@ -0,0 +1,47 @@
+import type { TemplateLibrary, TemplateStore } from "./types";
+
+async function check(response: Response): Promise<Response> {
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error ?? `Template request failed (${response.status}).`);
+  }
+  return response;
+}
+
+/**
+ * The template library on the server, through /api/templates.
+ */
+export function createRemoteTemplateStore(url = "/api/templates"): TemplateStore {
+  async function post(body: unknown): Promise<Response> {
+    return check(
+      await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      }),
+    );
+  }
+
+  async function remove(kind: "template" | "snippet", id: string) {
+    await check(await fetch(`${url}?${kind}=${encodeURIComponent(id)}`, { method: "DELETE" }));
+  }
+
+  return {
+    async load() {
+      const response = await check(await fetch(url));
+      return (await response.json()) as TemplateLibrary;
+    },
+    async saveTemplate(template) {
+      await post({ template });
+    },
+    deleteTemplate: (id) => remove("template", id),
+    async saveSnippet(snippet) {
+      await post({ snippet });
+    },
+    deleteSnippet: (id) => remove("snippet", id),
+    async import(library, mode) {
+      const response = await post({ library, mode });
+      return (await response.json()) as TemplateLibrary;
+    },
+  };
+}
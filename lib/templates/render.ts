@@ -0,0 +1,67 @@
+import type { PromptTemplate, Snippet, TemplateVariable } from "./types";
+
+const VARIABLE = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+const SNIPPET = /\{\{>\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+// Snippets may include other snippets, up to this depth.
+const MAX_SNIPPET_DEPTH = 5;
+
+/**
+ * Replaces {{> id}} includes with snippet bodies. Unknown snippets are left
+ * in place so they stay visible.
+ */
+export function expandSnippets(body: string, snippets: Snippet[], depth = 0): string {
+  if (depth >= MAX_SNIPPET_DEPTH) return body;
+  return body.replace(SNIPPET, (include, id: string) => {
+    const snippet = snippets.find((s) => s.id === id);
+    return snippet ? expandSnippets(snippet.body, snippets, depth + 1) : include;
+  });
+}
+
+/**
+ * Names of the {{variables}} used in a text, in order of first use.
+ */
+export function variableNames(text: string): string[] {
+  return [...new Set([...text.matchAll(VARIABLE)].map((m) => m[1]))];
+}
+
+/**
+ * The template's declared variables plus any used in its body (or its
+ * snippets) without a declaration, which are treated as free text.
+ */
+export function templateVariables(
+  template: PromptTemplate,
+  snippets: Snippet[],
+): TemplateVariable[] {
+  const declared = template.variables;
+  const undeclared = variableNames(expandSnippets(template.body, snippets))
+    .filter((name) => !declared.some((v) => v.name === name))
+    .map((name): TemplateVariable => ({ name, label: name, type: "text" }));
+  return [...declared, ...undeclared];
+}
+
+/**
+ * Renders a template with the given values, falling back to each variable's
+ * default. Variables with neither stay as {{name}} placeholders.
+ */
+export function renderTemplate(
+  template: PromptTemplate,
+  snippets: Snippet[],
+  values: Record<string, string> = {},
+): string {
+  const variables = templateVariables(template, snippets);
+  const body = expandSnippets(template.body, snippets);
+  return body.replace(VARIABLE, (placeholder, name: string) => {
+    const value = values[name]?.trim() || variables.find((v) => v.name === name)?.default;
+    return value || placeholder;
+  });
+}
+
+/**
+ * Character ranges of the {{variable}} placeholders left in a text.
+ */
+export function placeholderRanges(text: string): { start: number; end: number }[] {
+  return [...text.matchAll(VARIABLE)].map((m) => ({
+    start: m.index ?? 0,
+    end: (m.index ?? 0) + m[0].length,
+  }));
+}
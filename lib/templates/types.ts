@@ -0,0 +1,45 @@
+export type VariableType = "text" | "multiline" | "number" | "select";
+
+export type TemplateVariable = {
+  // Referenced in the body as {{name}}.
+  name: string;
+  label: string;
+  type: VariableType;
+  default?: string;
+  // Choices for "select" variables.
+  options?: string[];
+  description?: string;
+};
+
+// A reusable block, included in template bodies as {{> id}}.
+export type Snippet = {
+  id: string;
+  name: string;
+  body: string;
+};
+
+export type PromptTemplate = {
+  id: string;
+  name: string;
+  description: string;
+  body: string;
+  variables: TemplateVariable[];
+  updatedAt: string;
+};
+
+// The import/export format and what the store keeps.
+export type TemplateLibrary = {
+  version: 1;
+  templates: PromptTemplate[];
+  snippets: Snippet[];
+};
+
+export interface TemplateStore {
+  load(): Promise<TemplateLibrary>;
+  saveTemplate(template: PromptTemplate): Promise<void>;
+  deleteTemplate(id: string): Promise<void>;
+  saveSnippet(snippet: Snippet): Promise<void>;
+  deleteSnippet(id: string): Promise<void>;
+  // "merge" replaces items with the same id and keeps the rest.
+  import(library: TemplateLibrary, mode: "merge" | "replace"): Promise<TemplateLibrary>;
+}
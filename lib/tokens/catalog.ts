@@ -0,0 +1,83 @@
+import type { CatalogModel } from "./types";
+
+/**
+ * Models the estimates are computed for. Prices are the vendors' list prices
+ * for standard (non-batch, uncached) text calls at the shortest context tier;
+ * update them here when they change.
+ */
+export const MODEL_CATALOG: CatalogModel[] = [
+  {
+    id: "gemini-2.5-flash-lite",
+    label: "Gemini 2.5 Flash-Lite",
+    vendor: "Google",
+    contextWindow: 1_048_576,
+    maxOutputTokens: 65_536,
+    inputPrice: 0.1,
+    outputPrice: 0.4,
+    tokenFactor: 1,
+  },
+  {
+    id: "gemini-2.5-flash",
+    label: "Gemini 2.5 Flash",
+    vendor: "Google",
+    contextWindow: 1_048_576,
+    maxOutputTokens: 65_536,
+    inputPrice: 0.3,
+    outputPrice: 2.5,
+    tokenFactor: 1,
+  },
+  {
+    id: "gemini-2.5-pro",
+    label: "Gemini 2.5 Pro",
+    vendor: "Google",
+    contextWindow: 1_048_576,
+    maxOutputTokens: 65_536,
+    inputPrice: 1.25,
+    outputPrice: 10,
+    tokenFactor: 1,
+  },
+  {
+    id: "gpt-4o-mini",
+    label: "GPT-4o mini",
+    vendor: "OpenAI",
+    contextWindow: 128_000,
+    maxOutputTokens: 16_384,
+    inputPrice: 0.15,
+    outputPrice: 0.6,
+    tokenFactor: 1,
+  },
+  {
+    id: "gpt-4o",
+    label: "GPT-4o",
+    vendor: "OpenAI",
+    contextWindow: 128_000,
+    maxOutputTokens: 16_384,
+    inputPrice: 2.5,
+    outputPrice: 10,
+    tokenFactor: 1,
+  },
+  {
+    id: "claude-3-5-haiku",
+    label: "Claude 3.5 Haiku",
+    vendor: "Anthropic",
+    contextWindow: 200_000,
+    maxOutputTokens: 8_192,
+    inputPrice: 0.8,
+    outputPrice: 4,
+    tokenFactor: 1.15,
+  },
+  {
+    id: "claude-sonnet-4",
+    label: "Claude Sonnet 4",
+    vendor: "Anthropic",
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    inputPrice: 3,
+    outputPrice: 15,
+    tokenFactor: 1.15,
+  },
+];
+
+export function getCatalogModel(id: string): CatalogModel | undefined {
+  return MODEL_CATALOG.find((m) => m.id === id);
+}
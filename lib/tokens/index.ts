@@ -0,0 +1,81 @@
+import { MODEL_CATALOG } from "./catalog";
+import { estimateTokens, promptSections } from "./estimate";
+import { estimateOutput } from "./output";
+import type { CatalogModel, ModelFit, PromptEstimate, TokenWarning } from "./types";
+
+export { getCatalogModel, MODEL_CATALOG } from "./catalog";
+export { estimateTokens, promptSections } from "./estimate";
+export { estimateOutput } from "./output";
+export { TOKEN_WARNING_KINDS } from "./types";
+export type {
+  CatalogModel,
+  ModelFit,
+  OutputEstimate,
+  PromptEstimate,
+  PromptSections,
+  TokenWarning,
+  TokenWarningKind,
+} from "./types";
+
+// A section above this share of the prompt is flagged.
+const SECTION_WARNING_SHARE = 0.5;
+// Sections this small are never flagged, whatever their share.
+const SECTION_WARNING_MIN_TOKENS = 300;
+
+function modelFit(model: CatalogModel, inputTokens: number, outputTokens: number): ModelFit {
+  const input = Math.ceil(inputTokens * model.tokenFactor);
+  const output = Math.min(Math.ceil(outputTokens * model.tokenFactor), model.maxOutputTokens);
+  return {
+    model: model.id,
+    label: model.label,
+    inputTokens: input,
+    outputTokens: output,
+    cost: (input * model.inputPrice + output * model.outputPrice) / 1_000_000,
+    contextShare: (input + output) / model.contextWindow,
+    fits: input + output <= model.contextWindow,
+  };
+}
+
+/**
+ * Estimates a prompt's input tokens, the length of its answer and what one
+ * call costs on each catalog model, and warns when examples or context take
+ * up most of the prompt or when it doesn't fit a model.
+ */
+export function estimatePrompt(prompt: string, models = MODEL_CATALOG): PromptEstimate {
+  const inputTokens = estimateTokens(prompt);
+  const output = estimateOutput(prompt);
+  const sections = promptSections(prompt);
+  const fits = models.map((m) => modelFit(m, inputTokens, output.tokens));
+
+  const warnings: TokenWarning[] = [];
+  const total = sections.instructions + sections.context + sections.examples;
+  for (const kind of ["examples", "context"] as const) {
+    const share = total ? sections[kind] / total : 0;
+    if (share > SECTION_WARNING_SHARE && sections[kind] >= SECTION_WARNING_MIN_TOKENS) {
+      warnings.push({
+        kind,
+        message:
+          kind === "examples"
+            ? `Examples make up ${Math.round(share * 100)}% of the prompt (~${sections.examples} tokens). One or two short examples usually steer as well.`
+            : `Pasted context makes up ${Math.round(share * 100)}% of the prompt (~${sections.context} tokens). Trim it to the parts the task needs.`,
+      });
+    }
+  }
+
+  const tooLong = fits.filter((f) => !f.fits);
+  if (tooLong.length) {
+    warnings.push({
+      kind: "context-window",
+      message: `Too long for the context window of ${tooLong.map((f) => f.label).join(", ")}.`,
+    });
+  }
+  const capped = models.filter((m) => output.tokens * m.tokenFactor > m.maxOutputTokens);
+  if (capped.length) {
+    warnings.push({
+      kind: "output-limit",
+      message: `The expected answer (${output.basis}) is longer than ${capped.map((m) => m.label).join(", ")} can write in one call.`,
+    });
+  }
+
+  return { inputTokens, output, sections, models: fits, warnings };
+}
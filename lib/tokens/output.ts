@@ -0,0 +1,64 @@
+import type { OutputEstimate } from "./types";
+
+// Tokens per unit of length a prompt may ask for.
+const UNITS: { pattern: string; tokens: number }[] = [
+  { pattern: "words?", tokens: 1.35 },
+  { pattern: "sentences?", tokens: 25 },
+  { pattern: "paragraphs?", tokens: 110 },
+  {
+    pattern: "(?:bullet(?: point)?s?|points|items|ideas|tips|steps|questions)",
+    tokens: 22,
+  },
+  { pattern: "lines?", tokens: 12 },
+  { pattern: "(?:pages?|slides?)", tokens: 550 },
+  { pattern: "(?:characters?|chars)", tokens: 0.25 },
+  { pattern: "tokens?", tokens: 1 },
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  twelve: 12, fifteen: 15, twenty: 20, fifty: 50, hundred: 100,
+};
+
+const NUMBER = `(\\d[\\d,]*|${Object.keys(NUMBER_WORDS).join("|")})`;
+
+// Typical answer sizes when no length is given, checked in order.
+const FORMATS: { pattern: RegExp; tokens: number; basis: string }[] = [
+  { pattern: /\b(?:one|single) (?:word|number|sentence)\b|\byes or no\b/i, tokens: 20, basis: "a one-line answer" },
+  { pattern: /\b(?:tweet|headline|title|subject line|slogan|tagline)s?\b/i, tokens: 60, basis: "a short line" },
+  { pattern: /\b(?:report|essay|article|blog post|chapter|whitepaper)\b/i, tokens: 1200, basis: "a long-form text" },
+  { pattern: /\b(?:function|class|script|program|component|code)\b/i, tokens: 500, basis: "code" },
+  { pattern: /\b(?:email|letter|cover letter|summary|outline)\b/i, tokens: 350, basis: "a short document" },
+  { pattern: /\b(?:table|list|bullets?|json)\b/i, tokens: 300, basis: "a list or table" },
+];
+
+const DEFAULT_OUTPUT: OutputEstimate = { tokens: 500, basis: "no length given" };
+
+function parseNumber(raw: string): number {
+  return NUMBER_WORDS[raw.toLowerCase()] ?? Number(raw.replace(/,/g, ""));
+}
+
+/**
+ * Estimates how long the answer to a prompt will be from the length and format
+ * it asks for: "under 200 words", "3 bullet points", "a table", ... The
+ * largest explicit length wins over format words; ranges use their upper end.
+ */
+export function estimateOutput(prompt: string): OutputEstimate {
+  let best: OutputEstimate | null = null;
+  for (const unit of UNITS) {
+    const pattern = new RegExp(
+      `(?:(?:under|within|at most|max(?:imum)?|no more than|up to|about|around|roughly|~)\\s+)?${NUMBER}(?:\\s*(?:-|–|to)\\s*${NUMBER})?[\\s-]+(?:\\w+[\\s-]+)?${unit.pattern}\\b`,
+      "gi",
+    );
+    for (const match of prompt.matchAll(pattern)) {
+      const count = parseNumber(match[2] ?? match[1]);
+      if (!Number.isFinite(count) || count <= 0) continue;
+      const tokens = Math.ceil(count * unit.tokens);
+      if (!best || tokens > best.tokens) best = { tokens, basis: match[0].trim() };
+    }
+  }
+  if (best) return best;
+
+  const format = FORMATS.find((f) => f.pattern.test(prompt));
+  return format ? { tokens: format.tokens, basis: format.basis } : DEFAULT_OUTPUT;
+}
@@ -0,0 +1,61 @@
+// A model prompts may be sent to, with its limits and list prices.
+export type CatalogModel = {
+  id: string;
+  label: string;
+  vendor: string;
+  contextWindow: number;
+  maxOutputTokens: number;
+  // USD per million tokens.
+  inputPrice: number;
+  outputPrice: number;
+  // How many of this model's tokens one estimated token is; tokenizers differ.
+  tokenFactor: number;
+};
+
+// The expected length of the answer and what it was inferred from.
+export type OutputEstimate = {
+  tokens: number;
+  // e.g. "under 200 words" or "no length given"
+  basis: string;
+};
+
+// Estimated tokens of each part of a prompt.
+export type PromptSections = {
+  instructions: number;
+  context: number;
+  examples: number;
+};
+
+export type ModelFit = {
+  model: string;
+  label: string;
+  inputTokens: number;
+  outputTokens: number;
+  // USD for one call with the estimated input and output.
+  cost: number;
+  // Share of the context window the call uses, from 0 to 1 (or more).
+  contextShare: number;
+  fits: boolean;
+};
+
+export type TokenWarningKind = "examples" | "context" | "context-window" | "output-limit";
+
+export const TOKEN_WARNING_KINDS: TokenWarningKind[] = [
+  "examples",
+  "context",
+  "context-window",
+  "output-limit",
+];
+
+export type TokenWarning = {
+  kind: TokenWarningKind;
+  message: string;
+};
+
+export type PromptEstimate = {
+  inputTokens: number;
+  output: OutputEstimate;
+  sections: PromptSections;
+  models: ModelFit[];
+  warnings: TokenWarning[];
+};
@@ -0,0 +1,46 @@
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+import { appSecret } from "@/lib/secret";
+
+// An anonymous browser: the cookie the page's requests carry instead of an
+// account. It scopes server-side history to its owner.
+export const VISITOR_COOKIE = "visitor";
+
+const MAX_AGE_SECONDS = 60 * 60 * 24 * 365;
+
+function signature(id: string): Buffer {
+  return createHmac("sha256", appSecret()).update(`visitor:${id}`).digest();
+}
+
+function cookieValue(cookieHeader: string | null, name: string): string | null {
+  for (const part of (cookieHeader ?? "").split(";")) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key === name) return rest.join("=");
+  }
+  return null;
+}
+
+/** The visitor id of a request whose cookie this server signed, else null. */
+export function readVisitorId(request: Request): string | null {
+  const value = cookieValue(request.headers.get("Cookie"), VISITOR_COOKIE);
+  const [id, sig] = value?.split(".") ?? [];
+  if (!id || !sig) return null;
+  const given = Buffer.from(sig, "base64url");
+  const expected = signature(id);
+  return given.length === expected.length && timingSafeEqual(given, expected) ? id : null;
+}
+
+/**
+ * A Set-Cookie header for a new visitor. SameSite=Strict keeps other sites'
+ * requests from carrying it.
+ */
+export function newVisitorCookie(secure: boolean): string {
+  const id = randomUUID();
+  return [
+    `${VISITOR_COOKIE}=${id}.${signature(id).toString("base64url")}`,
+    "Path=/",
+    `Max-Age=${MAX_AGE_SECONDS}`,
+    "HttpOnly",
+    "SameSite=Strict",
+    ...(secure ? ["Secure"] : []),
+  ].join("; ");
+}
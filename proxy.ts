@@ -0,0 +1,27 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { frameAncestors } from "@/lib/embed/origins";
+import { newVisitorCookie, readVisitorId } from "@/lib/visitor";
+
+/**
+ * Gives every browser that loads a page a signed visitor cookie, and lets
+ * only this app and EMBED_ORIGINS frame the widget. Both are decided per
+ * request, so changing EMBED_ORIGINS needs no rebuild.
+ */
+export function proxy(request: NextRequest) {
+  const response = NextResponse.next();
+  if (request.nextUrl.pathname === "/embed") {
+    response.headers.set("Content-Security-Policy", frameAncestors());
+  }
+  if (!readVisitorId(request)) {
+    const secure =
+      (request.headers.get("x-forwarded-proto") ?? request.nextUrl.protocol.replace(":", "")) ===
+      "https";
+    response.headers.append("Set-Cookie", newVisitorCookie(secure));
+  }
+  return response;
+}
+
+export const config = {
+  // Pages only: API calls and static assets never start a visit.
+  matcher: ["/((?!api/|_next/|favicon.ico).*)"],
+};
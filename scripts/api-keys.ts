@@ -0,0 +1,87 @@
+/**
+ * Manages the API keys of /api/v1, stored hashed in API_KEYS_FILE (default
+ * .data/api-keys.json).
+ *
+ *   npm run api-keys -- create <name> [--per-minute N] [--per-day N]
+ *                                         prints the new key once
+ *   npm run api-keys -- list
+ *   npm run api-keys -- revoke <id>
+ */
+import { parseArgs } from "node:util";
+import { apiKeyStore, createApiKey, DEFAULT_QUOTA } from "@/lib/api/keys";
+
+const { values: args, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    "per-minute": { type: "string" },
+    "per-day": { type: "string" },
+  },
+});
+
+function fail(message: string): never {
+  console.error(`[Prompt Analyzer] ${message}`);
+  process.exit(2);
+}
+
+function quotaArg(name: "per-minute" | "per-day", fallback: number): number {
+  const raw = args[name];
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) fail(`--${name} must be a whole number above 0.`);
+  return value;
+}
+
+async function main() {
+  const [command, argument] = positionals;
+
+  switch (command) {
+    case "create": {
+      const name = argument?.trim();
+      if (!name) fail("Usage: create <name> [--per-minute N] [--per-day N]");
+      const { key, secret } = await createApiKey(name, {
+        perMinute: quotaArg("per-minute", DEFAULT_QUOTA.perMinute),
+        perDay: quotaArg("per-day", DEFAULT_QUOTA.perDay),
+      });
+      console.log(`Created key ${key.id} for "${key.name}" (${key.quota.perMinute}/min, ${key.quota.perDay}/day).`);
+      console.log("Store it now; it cannot be shown again:\n");
+      console.log(secret);
+      return;
+    }
+    case "list": {
+      const keys = await apiKeyStore.list();
+      if (keys.length === 0) {
+        console.log("No API keys yet.");
+        return;
+      }
+      console.table(
+        Object.fromEntries(
+          keys.map((k) => [
+            k.id,
+            {
+              name: k.name,
+              prefix: `${k.prefix}…`,
+              "per minute": k.quota.perMinute,
+              "per day": k.quota.perDay,
+              created: k.createdAt.slice(0, 10),
+              status: k.revokedAt ? `revoked ${k.revokedAt.slice(0, 10)}` : "active",
+            },
+          ]),
+        ),
+      );
+      return;
+    }
+    case "revoke": {
+      if (!argument) fail("Usage: revoke <id>");
+      if (!(await apiKeyStore.revoke(argument))) fail(`No API key with id "${argument}".`);
+      console.log(`Revoked key ${argument}.`);
+      return;
+    }
+    default:
+      fail("Usage: api-keys create <name> | list | revoke <id>");
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
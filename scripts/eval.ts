@@ -0,0 +1,160 @@
+/**
+ * Evaluation harness: grades a golden dataset with the analyzer and compares
+ * agreement metrics against a stored baseline.
+ *
+ *   npm run eval                          live run with the default provider
+ *   npm run eval -- --provider gemini --record
+ *                                         live run that saves the answers
+ *   npm run eval -- --provider gemini --replay
+ *                                         offline run from saved answers
+ *   npm run eval -- --update-baseline     accept the current metrics
+ *
+ * Exits with 1 when a metric regresses beyond the tolerance or items fail.
+ */
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { analyzeSamples, MAX_SAMPLES } from "@/lib/analysis/consistency";
+import { instructionVersion } from "@/lib/cache/analysis";
+import { baselineKey, findRegressions } from "@/lib/eval/baseline";
+import { parseDataset } from "@/lib/eval/dataset";
+import { computeMetrics } from "@/lib/eval/metrics";
+import { replay, runDataset, type Answer } from "@/lib/eval/run";
+import type { Baseline, EvalMetrics, Recording } from "@/lib/eval/types";
+import { getProvider, isProviderId, resolveProviderId } from "@/lib/providers";
+import { readJsonFile, writeJsonFile } from "@/lib/storage/json-file";
+
+const { values: args } = parseArgs({
+  options: {
+    dataset: { type: "string", default: "eval/datasets/general-v1.json" },
+    provider: { type: "string" },
+    samples: { type: "string", default: "1" },
+    record: { type: "boolean", default: false },
+    replay: { type: "boolean", default: false },
+    "update-baseline": { type: "boolean", default: false },
+    json: { type: "boolean", default: false },
+  },
+});
+
+const BASELINE_FILE = "eval/baseline.json";
+
+function fail(message: string): never {
+  console.error(`[Prompt Analyzer] ${message}`);
+  process.exit(2);
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function printMetrics(metrics: EvalMetrics) {
+  console.log(
+    `\n${metrics.items} items · MAE ${metrics.mae} · level accuracy ${percent(metrics.levelAccuracy)} · in range ${percent(metrics.inRangeRate)} · rank correlation ${metrics.rankCorrelation ?? "n/a"}`,
+  );
+  console.table(
+    Object.fromEntries(
+      metrics.criteria.map((c) => [
+        c.id,
+        {
+          MAE: c.mae,
+          "level acc.": percent(c.levelAccuracy),
+          "in range": percent(c.inRangeRate),
+          "rank corr.": c.rankCorrelation ?? "n/a",
+        },
+      ]),
+    ),
+  );
+}
+
+async function main() {
+  if (args.record && args.replay) fail("Use either --record or --replay, not both.");
+  const samples = Number(args.samples);
+  if (!Number.isInteger(samples) || samples < 1 || samples > MAX_SAMPLES) {
+    fail(`--samples must be a whole number from 1 to ${MAX_SAMPLES}.`);
+  }
+  if (args.provider !== undefined && !isProviderId(args.provider)) {
+    fail(`Unknown provider "${args.provider}".`);
+  }
+
+  const raw = await readJsonFile<unknown>(args.dataset, null);
+  if (raw === null) fail(`Dataset ${args.dataset} not found.`);
+  const { dataset, rubric } = parseDataset(raw);
+  const version = instructionVersion(rubric);
+
+  const provider = getProvider(resolveProviderId(args.provider));
+  const recordingFile = path.join(
+    "eval/recordings",
+    `${dataset.id}.${provider.id}.${provider.model.replace(/[^\w.-]+/g, "_")}.json`,
+  );
+
+  let answer: Answer = (item) => analyzeSamples(provider, item.prompt, rubric, samples);
+  if (args.replay) {
+    const recording = await readJsonFile<Recording | null>(recordingFile, null);
+    if (!recording) fail(`No recording at ${recordingFile}; run with --record first.`);
+    if (recording.instructionVersion !== version) {
+      console.warn(
+        "[Prompt Analyzer] The recording was made with a different grading instruction; re-record to measure the current one.",
+      );
+    }
+    answer = replay(recording);
+  }
+
+  console[args.json ? "error" : "log"](
+    `Grading ${dataset.items.length} prompts from ${dataset.id} v${dataset.version} with ${provider.label}${args.replay ? " (replay)" : ""}…`,
+  );
+  const run = await runDataset(dataset, answer, (item, analysis) => {
+    if (!args.json) {
+      console.log(`  ${analysis ? "✓" : "✗"} ${item.id}${analysis ? ` ${analysis.overallScore}/100` : ""}`);
+    }
+  });
+
+  if (args.record) {
+    const recording: Recording = {
+      dataset: dataset.id,
+      provider: provider.id,
+      model: provider.model,
+      instructionVersion: version,
+      recordedAt: new Date().toISOString(),
+      responses: run.answers,
+    };
+    await writeJsonFile(recordingFile, recording);
+    console.log(`Recorded ${Object.keys(run.answers).length} answers to ${recordingFile}.`);
+  }
+
+  const metrics = computeMetrics(dataset, rubric, run.answers);
+  const key = baselineKey(dataset.id, provider.id, provider.model);
+  const baseline = await readJsonFile<Baseline>(BASELINE_FILE, {});
+  const regressions = baseline[key] ? findRegressions(baseline[key].metrics, metrics) : [];
+
+  if (args.json) {
+    console.log(JSON.stringify({ key, metrics, failures: run.failures, regressions }, null, 2));
+  } else {
+    printMetrics(metrics);
+    for (const f of run.failures) console.error(`Failed ${f.id}: ${f.error}`);
+  }
+
+  if (args["update-baseline"]) {
+    if (run.failures.length) fail("Not updating the baseline while items fail.");
+    baseline[key] = { instructionVersion: version, updatedAt: new Date().toISOString(), metrics };
+    await writeJsonFile(BASELINE_FILE, baseline);
+    console.log(`Baseline for ${key} updated.`);
+    return;
+  }
+
+  if (!baseline[key]) {
+    console.log(`No baseline for ${key}; run with --update-baseline to store one.`);
+  } else if (regressions.length) {
+    console.error(`\nRegressed against the baseline for ${key}:`);
+    for (const r of regressions) {
+      console.error(`  ${r.metric}: ${r.baseline} → ${r.current}`);
+    }
+  } else if (!args.json) {
+    console.log(`No regressions against the baseline for ${key}.`);
+  }
+
+  if (regressions.length || run.failures.length) process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(2);
+});
@@ -0,0 +1,203 @@
+/**
+ * Prompt linter: grades prompt files with the analyzer, for pre-commit hooks
+ * and CI.
+ *
+ *   npm run lint-prompts -- prompts/ "docs/*.md" --min-score 70
+ *   npm run lint-prompts -- prompts/ --threshold goal=60 --threshold format=50
+ *   npm run lint-prompts -- prompts/ --format sarif --output prompts.sarif
+ *   npm run lint-prompts -- prompts/ --server https://analyzer.example.com
+ *                                         grade with a running server instead
+ *                                         of in-process (PROMPT_ANALYZER_API_KEY)
+ *   npm run lint-prompts -- prompts/ --min-score 70 --fix
+ *                                         rewrite failing files with the
+ *                                         improved prompt (--fix-sibling writes
+ *                                         name.improved.md next to them)
+ *   npm run lint-prompts -- prompts/ --min-score 70 --fix --rewrite-style minimal
+ *                                         keep the fixes close to the original
+ *
+ * Exits with 1 when a file scores below a threshold and 2 when a file could
+ * not be graded or the arguments are invalid.
+ */
+import { writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { MAX_SAMPLES } from "@/lib/analysis/consistency";
+import { DEFAULT_REWRITE_STYLE, isRewriteStyle } from "@/lib/analysis/rewrite";
+import { REWRITE_STYLES } from "@/lib/analysis/types";
+import { createApiClient } from "@/lib/api/client";
+import { createInProcessClient } from "@/lib/lint/client";
+import { expandPatterns, siblingPath } from "@/lib/lint/files";
+import { lintFiles } from "@/lib/lint/run";
+import { toSarif } from "@/lib/lint/sarif";
+import { parseThresholds } from "@/lib/lint/thresholds";
+import type { LintResult } from "@/lib/lint/types";
+import { getProvider, isProviderId, resolveProviderId, type ProviderId } from "@/lib/providers";
+import { DEFAULT_RUBRIC_ID } from "@/lib/rubrics";
+import { SCAN_MODES, type ScanMode } from "@/lib/scanner";
+
+const { values: args, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    rubric: { type: "string", default: DEFAULT_RUBRIC_ID },
+    provider: { type: "string" },
+    samples: { type: "string", default: "1" },
+    "scan-mode": { type: "string" },
+    "rewrite-style": { type: "string", default: DEFAULT_REWRITE_STYLE },
+    "min-score": { type: "string" },
+    threshold: { type: "string", multiple: true, default: [] },
+    format: { type: "string", default: "table" },
+    output: { type: "string" },
+    server: { type: "string" },
+    "api-key": { type: "string" },
+    fix: { type: "boolean", default: false },
+    "fix-sibling": { type: "boolean", default: false },
+  },
+});
+
+const FORMATS = ["table", "json", "sarif"] as const;
+
+function fail(message: string): never {
+  console.error(`[Prompt Analyzer] ${message}`);
+  process.exit(2);
+}
+
+function printResult(result: LintResult) {
+  const { file, analysis, failures, error } = result;
+  if (!analysis) {
+    console.log(`✗ ${file}: ${error?.message}`);
+    return;
+  }
+  const below = new Map(failures.map((f) => [f.criterionId, f.min]));
+  console.log(
+    `${failures.length ? "✗" : "✓"} ${file}  ${analysis.overallScore}/100 ${analysis.overallLabel}${below.has("overall") ? ` (minimum ${below.get("overall")})` : ""}`,
+  );
+  console.table(
+    Object.fromEntries(
+      analysis.criteria.map((c) => [
+        c.label,
+        {
+          score: c.score,
+          level: c.level,
+          ...(below.has(c.id) && { "below minimum": below.get(c.id) }),
+        },
+      ]),
+    ),
+  );
+}
+
+async function main() {
+  if (positionals.length === 0) fail("Pass the prompt files, directories or globs to lint.");
+  const format = args.format as (typeof FORMATS)[number];
+  if (!FORMATS.includes(format)) fail(`--format must be one of ${FORMATS.join(", ")}.`);
+  const samples = Number(args.samples);
+  if (!Number.isInteger(samples) || samples < 1 || samples > MAX_SAMPLES) {
+    fail(`--samples must be a whole number from 1 to ${MAX_SAMPLES}.`);
+  }
+  if (args.provider !== undefined && !isProviderId(args.provider)) {
+    fail(`Unknown provider "${args.provider}".`);
+  }
+  const provider = args.provider as ProviderId | undefined;
+  const scanMode = args["scan-mode"] as ScanMode | undefined;
+  if (scanMode !== undefined && !SCAN_MODES.includes(scanMode)) {
+    fail(`--scan-mode must be one of ${SCAN_MODES.join(", ")}.`);
+  }
+  const rewriteStyle = args["rewrite-style"];
+  if (!isRewriteStyle(rewriteStyle)) {
+    fail(`--rewrite-style must be one of ${REWRITE_STYLES.join(", ")}.`);
+  }
+  if (args.fix && args["fix-sibling"]) fail("Use either --fix or --fix-sibling, not both.");
+  const fixing = args.fix || args["fix-sibling"];
+
+  const server = args.server?.replace(/\/+$/, "");
+  const client = server
+    ? createApiClient({
+        baseUrl: server,
+        apiKey: args["api-key"] ?? process.env.PROMPT_ANALYZER_API_KEY,
+      })
+    : createInProcessClient();
+
+  const rubric = (await client.rubrics()).find((r) => r.id === args.rubric);
+  if (!rubric) fail(`Unknown rubric "${args.rubric}".`);
+
+  let thresholds: ReturnType<typeof parseThresholds>;
+  let files: string[];
+  try {
+    thresholds = parseThresholds(args["min-score"], args.threshold, rubric);
+    files = await expandPatterns(positionals);
+  } catch (error) {
+    fail(error instanceof Error ? error.message : String(error));
+  }
+  if (fixing && thresholds.minScore === undefined && !Object.keys(thresholds.criteria).length) {
+    fail("--fix rewrites files below a threshold; add --min-score or --threshold.");
+  }
+
+  const grader = server ?? getProvider(resolveProviderId(provider)).label;
+  console[format === "table" ? "log" : "error"](
+    `Grading ${files.length} prompt file${files.length === 1 ? "" : "s"} against ${rubric.name} with ${grader}…\n`,
+  );
+
+  const results = await lintFiles(
+    client,
+    files,
+    {
+      rubric: rubric.id,
+      provider,
+      samples,
+      scanMode,
+      rewriteStyle,
+      // Only the improved prompt is written back, so skip the alternatives.
+      alternatives: 0,
+      thresholds,
+    },
+    format === "table" ? printResult : undefined,
+  );
+
+  const fixed: Record<string, string> = {};
+  if (fixing) {
+    for (const { file, text, analysis, failures } of results) {
+      if (!analysis || !failures.length || !analysis.improvedPrompt.trim()) continue;
+      const target = args.fix ? file : siblingPath(file);
+      // Keeps the file's final newline, which the model usually drops.
+      const ending = text.endsWith("\n") && !analysis.improvedPrompt.endsWith("\n") ? "\n" : "";
+      await writeFile(target, analysis.improvedPrompt + ending, "utf8");
+      fixed[file] = target;
+    }
+  }
+
+  const failing = results.filter((r) => r.failures.length);
+  const errors = results.filter((r) => r.error);
+
+  if (format === "table") {
+    for (const [file, target] of Object.entries(fixed)) {
+      console.log(`Wrote the improved prompt of ${file} to ${target}.`);
+    }
+    console.log(
+      `\n${results.length} file${results.length === 1 ? "" : "s"} · ${failing.length} below threshold · ${errors.length} not graded`,
+    );
+  } else {
+    const report =
+      format === "sarif"
+        ? toSarif(results, rubric)
+        : {
+            rubric: rubric.id,
+            thresholds,
+            results: results.map((r) => ({
+              file: r.file,
+              analysis: r.analysis,
+              failures: r.failures,
+              error: r.error,
+              fixedTo: fixed[r.file],
+            })),
+          };
+    const json = JSON.stringify(report, null, 2);
+    if (args.output) await writeFile(args.output, `${json}\n`, "utf8");
+    else console.log(json);
+  }
+
+  if (errors.length) process.exitCode = 2;
+  else if (failing.length) process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(2);
+});